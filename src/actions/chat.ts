@@ -6,23 +6,58 @@
  */
 
 'use server'
+import { generationStore } from '@/db/generation-store'
+import { modelStore } from '@/db/model-store'
+import { getQuotaClientId, QuotaError, quotaStore } from '@/db/quota-store'
 import { env } from '@/env'
-import { PlaygroundMessage } from '@/stores/playground'
+import {
+  PlaygroundLogitBias,
+  PlaygroundMessage,
+  PlaygroundToolCall,
+  ResponseFormatType,
+} from '@/stores/playground'
 import { normalizeUrl } from '@/utils/api'
+import { getResponseFormat, toResponseFormatParam } from '@/utils/json-schema'
 import { logger } from '@/utils/logger'
+import { toLogitBiasParam } from '@/utils/logit-bias'
+import {
+  estimateMessageTokens,
+  estimateTokens,
+  getModelCapabilities,
+} from '@/utils/model-capabilities'
+import { createProviderModel } from '@/utils/provider-models'
+import { ChatProvider } from '@/utils/providers'
+import {
+  createReasoningTap,
+  createThinkTagSplitter,
+  ReasoningEffort,
+} from '@/utils/reasoning'
+import { toCoreMessages } from '@/utils/message-format'
+import { ChatTool } from '@/utils/tools'
 import { createOpenAI } from '@ai-sdk/openai'
 import { LanguageModelV1LogProbs } from '@ai-sdk/provider'
-import { CoreMessage, streamText } from 'ai'
+import { CoreMessage, jsonSchema, streamText, tool } from 'ai'
 import { createStreamableValue } from 'ai/rsc'
 import ky from 'ky'
 
 /**
- * Maximum number of tokens allowed for model responses.
- * Currently set for Claude 3.5 model compatibility.
- * @constant
- * @type {number}
+ * Token usage reported by the provider when a generation finishes.
+ * @typedef {Object} ChatUsage
+ * @property {number} promptTokens - Number of tokens in the prompt
+ * @property {number} completionTokens - Number of tokens in the completion
+ * @property {number} [reasoningTokens] - Completion tokens spent on reasoning, if reported
  */
-const MAX_TOKENS = 8192
+export type ChatUsage = {
+  promptTokens: number
+  completionTokens: number
+  reasoningTokens?: number
+}
+
+/**
+ * Settings of a chat request: every parameter of `chat` except the messages.
+ * @typedef {Object} ChatSettings
+ */
+export type ChatSettings = Omit<Parameters<typeof chat>[0], 'messages'>
 
 class ChatError extends Error {
   constructor(message: string, options?: { cause: any }) {
@@ -31,6 +66,17 @@ class ChatError extends Error {
   }
 }
 
+/**
+ * Server action returning the base URL of the OpenAI-compatible API used by `chat`.
+ *
+ * @async
+ * @function
+ * @returns {Promise<string>} Base URL ending in `/v1`
+ */
+export async function getChatBaseUrl() {
+  return normalizeUrl(env.AI_302_API_URL) + '/v1'
+}
+
 /**
  * Server action that generates chat responses using AI models.
  * Supports streaming responses and various model parameters for fine-tuning output.
@@ -39,13 +85,24 @@ class ChatError extends Error {
  * @function
  * @param {Object} params - Chat generation parameters
  * @param {string} params.model - AI model identifier
- * @param {string} params.apiKey - API key for model access
+ * @param {string} params.apiKey - API key for model access, the server key is used if empty and enabled
+ * @param {ChatProvider} [params.provider] - User-configured provider, the 302.AI gateway if not set
  * @param {PlaygroundMessage[]} params.messages - Conversation history
  * @param {number} [params.frequencyPenalty] - Penalty for frequent token use
  * @param {number} [params.presencePenalty] - Penalty for token presence
  * @param {number} [params.temperature] - Randomness in response generation
  * @param {number} [params.topP] - Nucleus sampling parameter
  * @param {number} [params.maxTokens] - Maximum number of tokens for model responses
+ * @param {ChatTool[]} [params.tools] - Tools the model may call, results are supplied by the user
+ * @param {ResponseFormatType} [params.responseFormat] - Requested format of the answer
+ * @param {string} [params.responseSchema] - JSON Schema of the answer when using 'json_schema'
+ * @param {string[]} [params.stopSequences] - Sequences that end the generation
+ * @param {number} [params.seed] - Seed for reproducible sampling
+ * @param {number} [params.topK] - Only sample from the K most likely tokens
+ * @param {PlaygroundLogitBias[]} [params.logitBias] - Biases of individual token IDs
+ * @param {number} [params.topLogprobs] - Alternatives returned per token, 0 disables logprobs
+ * @param {ReasoningEffort} [params.reasoningEffort] - Reasoning effort, sent to models that accept one
+ * @param {string} [params.requestId] - ID under which the generation can be aborted with `stopChat`
  * @returns {Promise<{output: ReadableStream}>} Streamable response value
  *
  * @example
@@ -68,55 +125,53 @@ class ChatError extends Error {
 export async function chat({
   model,
   apiKey,
+  provider,
   messages,
   frequencyPenalty,
   presencePenalty,
   temperature,
   topP,
   maxTokens,
+  tools,
+  responseFormat,
+  responseSchema,
+  stopSequences,
+  seed,
+  topK,
+  logitBias,
+  topLogprobs = 5,
+  reasoningEffort,
+  requestId,
 }: {
   model: string
   apiKey: string
+  provider?: ChatProvider
   messages: PlaygroundMessage[]
   frequencyPenalty?: number
   presencePenalty?: number
   temperature?: number
   topP?: number
   maxTokens?: number
+  tools?: ChatTool[]
+  responseFormat?: ResponseFormatType
+  responseSchema?: string
+  stopSequences?: string[]
+  seed?: number
+  topK?: number
+  logitBias?: PlaygroundLogitBias[]
+  topLogprobs?: number
+  reasoningEffort?: ReasoningEffort
+  requestId?: string
 }) {
-  const formattedMessages = messages.map((msg) => {
-    if (!msg.files || !msg.files.length) {
-      return {
-        role: msg.role,
-        content: msg.content,
-      }
-    }
-
-    const parts = []
-    if (msg.content) {
-      parts.push({
-        type: 'text' as const,
-        text: msg.content,
-      })
-    }
-
-    if (msg.files?.length) {
-      parts.push(
-        ...msg.files.map((file) => ({
-          type: file.type,
-          [file.type === 'image' ? 'image' : 'data']: file.url,
-        }))
-      )
-    }
-
-    return {
-      role: msg.role,
-      content: parts,
-    }
+  // PDFs go to the Anthropic API as documents, other backends get their text
+  const formattedMessages = toCoreMessages(messages, {
+    nativePdf:
+      provider?.type === 'anthropic' && !!getModelCapabilities(model).pdfInput,
   })
   logger.info('Starting chat generation', {
     context: {
       model,
+      provider: provider && { type: provider.type, baseUrl: provider.baseUrl },
       messagesCount: messages.length,
       messages,
       formattedMessages,
@@ -125,6 +180,14 @@ export async function chat({
       temperature,
       topP,
       maxTokens,
+      tools: tools?.map((t) => t.name),
+      responseFormat,
+      stopSequences,
+      seed,
+      topK,
+      logitBias,
+      topLogprobs,
+      reasoningEffort,
     },
     module: 'Chat',
   })
@@ -133,65 +196,148 @@ export async function chat({
   const stream = createStreamableValue<{
     type: string
     textDelta?: string
+    reasoningDelta?: string
     logprobs?: LanguageModelV1LogProbs
+    usage?: ChatUsage
+    toolCall?: PlaygroundToolCall
   }>({ type: 'text-delta', textDelta: '' })
+  if (provider && !env.CHAT_CUSTOM_PROVIDERS) {
+    stream.error({ message: 'Custom providers are disabled on this server' })
+    return { output: stream.value }
+  }
+
+  // Visitors without a key use the server key, within their rate limit and quota
+  let quotaClientId: string | undefined
+  if (!provider && !apiKey && env.CHAT_USE_SERVER_KEY) {
+    quotaClientId = getQuotaClientId()
+    try {
+      quotaStore.acquire(quotaClientId)
+    } catch (error) {
+      if (!(error instanceof QuotaError)) throw error
+      logger.warn('Server key request refused', {
+        context: { clientId: quotaClientId, code: error.code },
+        module: 'Chat',
+      })
+      stream.error({ message: error.message, code: error.code })
+      return { output: stream.value }
+    }
+  }
+
+  // Output received so far, to estimate the usage of streams that end early
+  let streamedText = ''
+  let usageRecorded = false
+  // Reasoning is streamed separately from the answer, whichever way the model sends it
+  const sendReasoning = (reasoningDelta: string) => {
+    streamedText += reasoningDelta
+    stream.update({ type: 'reasoning-delta', reasoningDelta })
+  }
+  const thinkTags = createThinkTagSplitter()
+
   try {
-    // Initialize OpenAI client with custom base URL
-    const openai = createOpenAI({
-      apiKey: apiKey,
-      baseURL: normalizeUrl(env.AI_302_API_URL) + '/v1',
-      fetch: async (input: RequestInfo | URL, init?: RequestInit) => {
-        const url = input instanceof URL ? input : new URL(input.toString())
+    // Request parameters the provider does not support, merged into the request body
+    const responseFormatParam = toResponseFormatParam(
+      getResponseFormat({ responseFormat, responseSchema })
+    )
+    // Options the model does not support are left out, the maximum output is capped.
+    // Capabilities are resolved like the client's model list does
+    const capabilities = provider
+      ? getModelCapabilities(model)
+      : await modelStore.getCapabilities(model)
+    const outputLimit = capabilities.maxOutputTokens
+    // Anthropic has no response format parameter
+    const extraBody: Record<string, unknown> = {
+      ...(responseFormatParam &&
+        provider?.type !== 'anthropic' && {
+          response_format: responseFormatParam,
+        }),
+      ...(topK !== undefined && { top_k: topK }),
+      ...(reasoningEffort &&
+        capabilities.reasoningEffort && { reasoning_effort: reasoningEffort }),
+    }
 
-        try {
-          const response = await ky(url, {
-            ...init,
-            retry: 0,
-            timeout: false,
-            hooks: {
-              beforeRequest: [
-                (request) => {
-                  logger.debug('OpenAI API Request', {
-                    context: {
-                      url: request.url,
-                      method: request.method,
-                      headers: Object.fromEntries(request.headers.entries()),
-                    },
-                    module: 'Chat',
-                  })
-                },
-              ],
-              afterResponse: [
-                async (_input, _options, response) => {
-                  logger.debug('OpenAI API Response', {
-                    context: {
-                      status: response.status,
-                      statusText: response.statusText,
-                      headers: Object.fromEntries(response.headers.entries()),
-                    },
-                    module: 'Chat',
-                  })
-                  return response
-                },
-              ],
-            },
-          })
+    // Requests of every provider are logged and get the extra body parameters
+    const chatFetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = input instanceof URL ? input : new URL(input.toString())
+      const body =
+        Object.keys(extraBody).length && typeof init?.body === 'string'
+          ? JSON.stringify({ ...JSON.parse(init.body), ...extraBody })
+          : init?.body
 
-          return response
-        } catch (error) {
-          logger.error('OpenAI API Request Failed', error as Error, {
-            context: { url: url.toString() },
-            module: 'Chat',
-          })
-          // stream.error({
-          //   message: 'OpenAI API Request Failed',
-          // })
-          throw new ChatError('OpenAI API Request Failed', {
-            cause: error,
-          })
-        }
-      },
-    })
+      try {
+        const response = await ky(url, {
+          ...init,
+          body,
+          retry: 0,
+          timeout: false,
+          hooks: {
+            beforeRequest: [
+              (request) => {
+                logger.debug('OpenAI API Request', {
+                  context: {
+                    url: request.url,
+                    method: request.method,
+                    headers: Object.fromEntries(request.headers.entries()),
+                  },
+                  module: 'Chat',
+                })
+              },
+            ],
+            afterResponse: [
+              async (_input, _options, response) => {
+                logger.debug('OpenAI API Response', {
+                  context: {
+                    status: response.status,
+                    statusText: response.statusText,
+                    headers: Object.fromEntries(response.headers.entries()),
+                  },
+                  module: 'Chat',
+                })
+                return response
+              },
+            ],
+          },
+        })
+
+        return response.body
+          ? new Response(
+              response.body.pipeThrough(createReasoningTap(sendReasoning)),
+              response
+            )
+          : response
+      } catch (error) {
+        logger.error('OpenAI API Request Failed', error as Error, {
+          context: { url: url.toString() },
+          module: 'Chat',
+        })
+        // stream.error({
+        //   message: 'OpenAI API Request Failed',
+        // })
+        throw new ChatError('OpenAI API Request Failed', {
+          cause: error,
+        })
+      }
+    }
+
+    const modelSettings = {
+      logprobs: (capabilities.logprobs && topLogprobs) || undefined,
+      logitBias: toLogitBiasParam(logitBias),
+    }
+    const languageModel = provider
+      ? createProviderModel(provider, model, {
+          fetch: chatFetch,
+          ...modelSettings,
+        })
+      : createOpenAI({
+          apiKey: quotaClientId ? env.AI_302_API_KEY : apiKey,
+          baseURL: await getChatBaseUrl(),
+          fetch: chatFetch,
+        })(model, modelSettings)
+    if (!languageModel) {
+      throw new ChatError(`Unknown provider type "${provider?.type}"`)
+    }
+
+    // Stopping aborts the upstream request, so no more tokens are generated
+    const abortSignal = requestId ? generationStore.start(requestId) : undefined
 
     // Start asynchronous streaming process
     ;(async () => {
@@ -199,37 +345,87 @@ export async function chat({
         logger.debug('Initiating stream text request', { module: 'Chat' })
         const { fullStream } = await streamText({
           maxRetries: 0,
-          model: openai(model, { logprobs: 5 }),
+          abortSignal,
+          model: languageModel,
           messages: formattedMessages as CoreMessage[],
           frequencyPenalty,
           presencePenalty,
           temperature,
           topP,
-          maxTokens,
-
-          // Special configuration for Claude 3.5 model
-          ...(model.includes('claude-3-5') && {
-            maxTokens: maxTokens || MAX_TOKENS,
-            headers: {
-              'anthropic-beta': 'max-tokens-3-5-sonnet-2024-07-15',
-            },
+          maxTokens: maxTokens
+            ? Math.min(maxTokens, outputLimit ?? maxTokens)
+            : outputLimit,
+          seed,
+          ...(stopSequences?.length && { stopSequences }),
+          // Tools have no execute function, so the model's calls end the step
+          // and are returned to the user to supply results
+          ...(capabilities.tools && tools?.length && {
+            tools: Object.fromEntries(
+              tools.map((t) => [
+                t.name,
+                tool({
+                  description: t.description,
+                  parameters: jsonSchema(t.parameters),
+                }),
+              ])
+            ),
           }),
+          headers: capabilities.headers,
         })
 
         // Process stream data
         for await (const chunk of fullStream) {
           if (chunk.type === 'text-delta') {
-            stream.update({ type: 'text-delta', textDelta: chunk.textDelta })
+            const { text, reasoning } = thinkTags.push(chunk.textDelta)
+            if (reasoning) sendReasoning(reasoning)
+            if (text) {
+              streamedText += text
+              stream.update({ type: 'text-delta', textDelta: text })
+            }
+          } else if (chunk.type === 'tool-call') {
+            streamedText += JSON.stringify(chunk.args)
+            stream.update({
+              type: 'tool-call',
+              toolCall: {
+                toolCallId: chunk.toolCallId,
+                toolName: chunk.toolName,
+                args: chunk.args,
+              },
+            })
           } else if (chunk.type === 'finish') {
-            console.log('Logprobs:', JSON.stringify(chunk.logprobs, null, 2))
             stream.update({ type: 'logprobs', logprobs: chunk.logprobs })
+            const { text, reasoning } = thinkTags.flush()
+            if (reasoning) sendReasoning(reasoning)
+            if (text) stream.update({ type: 'text-delta', textDelta: text })
+            const reasoningTokens =
+              chunk.experimental_providerMetadata?.openai?.reasoningTokens
+            stream.update({
+              type: 'usage',
+              usage: {
+                ...chunk.usage,
+                ...(typeof reasoningTokens === 'number' && { reasoningTokens }),
+              },
+            })
+            if (quotaClientId) {
+              quotaStore.addTokens(
+                quotaClientId,
+                chunk.usage.promptTokens + chunk.usage.completionTokens
+              )
+              usageRecorded = true
+            }
           }
         }
 
         logger.info('Chat stream completed successfully', { module: 'Chat' })
         stream.done()
       } catch (e: any) {
-        if (e instanceof ChatError) {
+        if (abortSignal?.aborted) {
+          logger.info('Chat stream aborted', {
+            context: { requestId },
+            module: 'Chat',
+          })
+          stream.done()
+        } else if (e instanceof ChatError) {
           logger.error('Error in stream text processing', e, {
             context: { responseBody: e.cause },
             module: 'Chat',
@@ -245,13 +441,48 @@ export async function chat({
             message: 'Unknown error',
           })
         }
+      } finally {
+        if (requestId && abortSignal) {
+          generationStore.finish(requestId, abortSignal)
+        }
+        // Streams that were stopped or failed after the request reached the
+        // model report no usage, they are counted by estimate so stopping
+        // does not get around the quota
+        if (
+          quotaClientId &&
+          !usageRecorded &&
+          (abortSignal?.aborted || streamedText)
+        ) {
+          quotaStore.addTokens(
+            quotaClientId,
+            estimateMessageTokens(messages) + estimateTokens(streamedText)
+          )
+        }
       }
     })()
   } catch (error) {
     logger.error('Error in chat initialization', error as Error, {
       module: 'Chat',
     })
+    // The request never reached the model, so it does not count
+    if (quotaClientId) quotaStore.release(quotaClientId)
+    stream.error({
+      message: error instanceof ChatError ? error.message : 'Unknown error',
+    })
   }
 
   return { output: stream.value }
 }
+
+/**
+ * Server action that aborts a generation started by `chat` with a request ID.
+ * The upstream request is cancelled, so the model stops generating tokens.
+ *
+ * @async
+ * @function
+ * @param {string} requestId - ID passed to `chat`
+ * @returns {Promise<boolean>} Whether a running generation was aborted
+ */
+export async function stopChat(requestId: string) {
+  return generationStore.abort(requestId)
+}
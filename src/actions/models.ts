@@ -7,21 +7,27 @@
 
 'use server'
 
+import { modelStore } from '@/db/model-store'
 import { env } from "@/env"
-import { normalizeUrl } from "@/utils/api"
-import ky from "ky"
 import { GResponse } from "./typs"
 import { logger } from '@/utils/logger'
+import { ModelCapabilities } from '@/utils/model-capabilities'
+import { listProviderModels } from '@/utils/provider-models'
+import { ChatProvider } from '@/utils/providers'
 
 /**
  * Represents the structure of an individual AI model's information.
  * @interface ModelInfo
  * @property {string} id - Unique identifier for the model
  * @property {string} object - Type/category of the model
+ * @property {string} provider - ID of the provider serving the model
+ * @property {ModelCapabilities} capabilities - Limits and features, from the API and the registry
  */
 export type ModelInfo = {
   id: string
   object: string
+  provider: string
+  capabilities: ModelCapabilities
 }
 
 /**
@@ -29,11 +35,15 @@ export type ModelInfo = {
  * Wraps an array of ModelInfo in the generic response structure.
  * @type {GResponse<ModelInfo[]>}
  */
-export type GetModelResponse = GResponse<ModelInfo[]>
+export type GetModelResponse = GResponse<
+  (Omit<ModelInfo, 'provider' | 'capabilities'> & Record<string, unknown>)[]
+>
 
 /**
  * Server action that fetches the list of available AI models.
  * Makes an authenticated request to the AI API endpoint to retrieve model information.
+ * The capabilities reported by the API are merged with the capability registry.
+ * The list is cached on the server, `chat()` reads its capabilities from the same cache.
  * 
  * @async
  * @function
@@ -51,26 +61,36 @@ export type GetModelResponse = GResponse<ModelInfo[]>
  * ```
  */
 export const getModels = async () => {
-  logger.info('Fetching available models', { module: 'Models' })
-  const baseUrl = normalizeUrl(env.AI_302_API_URL)
-  
   try {
-    // Fetch models with LLM filter and authentication
-    const model = await ky
-      .get(`${baseUrl}/v1/models?llm=1`, {
-        headers: {
-          Authorization: `Bearer ${env.AI_302_API_KEY}`,
-        },
-      })
-      .json<GetModelResponse>()
-
-    logger.info('Successfully fetched models', { 
-      context: { modelCount: model.data.length },
-      module: 'Models'
-    })
-    return model.data
+    return await modelStore.list()
   } catch (error) {
     logger.error('Failed to fetch models', error as Error, { module: 'Models' })
     throw error
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Server action that lists the models of a user-configured provider.
+ * Requests go out from the server, so they can reach servers on its network.
+ *
+ * @async
+ * @function
+ * @param {ChatProvider} provider - Provider connection
+ * @returns {Promise<string[]>} Model IDs, empty for providers that cannot list them
+ * @throws {Error} If custom providers are disabled or the request fails
+ */
+export const getProviderModels = async (provider: ChatProvider) => {
+  if (!env.CHAT_CUSTOM_PROVIDERS) {
+    throw new Error('Custom providers are disabled on this server')
+  }
+
+  try {
+    return await listProviderModels(provider)
+  } catch (error) {
+    logger.error('Failed to fetch provider models', error as Error, {
+      context: { type: provider.type, baseUrl: provider.baseUrl },
+      module: 'Models',
+    })
+    throw error
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Server action reporting whether the server API key can be used
+ * and how much of the daily quota is left.
+ */
+
+'use server'
+
+import { getQuotaClientId, QuotaUsage, quotaStore } from '@/db/quota-store'
+import { env } from '@/env'
+
+/**
+ * Availability of the server API key for the current client.
+ *
+ * @interface ServerKeyStatus
+ * @property {boolean} enabled - Whether chat works without an own API key
+ * @property {number} [usedTokens] - Tokens used today with the server key
+ * @property {number} [dailyTokenQuota] - Tokens allowed per day, 0 means unlimited
+ */
+export type ServerKeyStatus =
+  | { enabled: false }
+  | ({ enabled: true } & QuotaUsage)
+
+/**
+ * Server action returning the server key status of the calling client.
+ *
+ * @async
+ * @function
+ * @returns {Promise<ServerKeyStatus>} Whether the server key is enabled, and the client's usage
+ */
+export async function getServerKeyStatus(): Promise<ServerKeyStatus> {
+  if (!env.CHAT_USE_SERVER_KEY) return { enabled: false }
+  return { enabled: true, ...quotaStore.getUsage(getQuotaClientId()) }
+}
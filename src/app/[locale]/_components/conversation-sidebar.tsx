@@ -0,0 +1,178 @@
+'use client'
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar'
+import { TooltipButton } from '@/components/ui/tooltip-button'
+import { PlaygroundConversation } from '@/stores/playground'
+import { cn } from '@/utils/tailwindcss'
+import {
+  Copy,
+  MessageSquare,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2,
+} from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { useState } from 'react'
+
+interface ConversationSidebarProps {
+  open: boolean
+  conversations: PlaygroundConversation[]
+  activeConversationId: string
+  onSelect: (id: string) => void
+  onCreate: () => void
+  onRename: (id: string, title: string) => void
+  onDuplicate: (id: string, title: string) => void
+  onDelete: (id: string) => void
+}
+
+export function ConversationSidebar({
+  open,
+  conversations,
+  activeConversationId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: ConversationSidebarProps) {
+  const t = useTranslations('playground')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingTitle, setEditingTitle] = useState('')
+
+  const getTitle = (conversation: PlaygroundConversation) =>
+    conversation.title || t('conversation.untitled')
+
+  const startRename = (conversation: PlaygroundConversation) => {
+    setEditingId(conversation.id)
+    setEditingTitle(conversation.title)
+  }
+
+  const commitRename = () => {
+    if (editingId) {
+      onRename(editingId, editingTitle)
+    }
+    setEditingId(null)
+  }
+
+  return (
+    <Sidebar
+      side='left'
+      collapsible='none'
+      className={cn(
+        'w-64 shrink-0 border-r border-gray-200',
+        !open && 'hidden'
+      )}
+    >
+      <SidebarHeader className='h-16 justify-center border-b border-gray-200 px-4'>
+        <div className='flex items-center justify-between'>
+          <h2 className='text-lg font-semibold'>{t('conversation.title')}</h2>
+          <TooltipButton
+            variant='ghost'
+            size='icon'
+            className='h-8 w-8'
+            onClick={onCreate}
+            tooltipContent={t('conversation.new')}
+          >
+            <Plus className='h-4 w-4' />
+          </TooltipButton>
+        </div>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>{t('conversation.recent')}</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {conversations.map((conversation) => (
+                <SidebarMenuItem key={conversation.id}>
+                  {editingId === conversation.id ? (
+                    <Input
+                      autoFocus
+                      className='h-8'
+                      value={editingTitle}
+                      placeholder={t('conversation.untitled')}
+                      onChange={(e) => setEditingTitle(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault()
+                          commitRename()
+                        } else if (e.key === 'Escape') {
+                          setEditingId(null)
+                        }
+                      }}
+                    />
+                  ) : (
+                    <>
+                      <SidebarMenuButton
+                        isActive={conversation.id === activeConversationId}
+                        onClick={() => onSelect(conversation.id)}
+                        onDoubleClick={() => startRename(conversation)}
+                      >
+                        <MessageSquare />
+                        <span>{getTitle(conversation)}</span>
+                      </SidebarMenuButton>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <SidebarMenuAction showOnHover>
+                            <MoreHorizontal />
+                          </SidebarMenuAction>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent side='right' align='start'>
+                          <DropdownMenuItem
+                            onClick={() => startRename(conversation)}
+                          >
+                            <Pencil className='mr-2 h-4 w-4' />
+                            {t('conversation.rename')}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() =>
+                              onDuplicate(
+                                conversation.id,
+                                t('conversation.copyTitle', {
+                                  title: getTitle(conversation),
+                                })
+                              )
+                            }
+                          >
+                            <Copy className='mr-2 h-4 w-4' />
+                            {t('conversation.duplicate')}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            className='text-red-600 focus:text-red-600'
+                            onClick={() => onDelete(conversation.id)}
+                          >
+                            <Trash2 className='mr-2 h-4 w-4' />
+                            {t('conversation.delete')}
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </>
+                  )}
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  )
+}
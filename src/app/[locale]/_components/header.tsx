@@ -3,18 +3,68 @@
 import { SettingTrigger } from '@/components/playground/setting-trigger'
 import { Button } from '@/components/ui/button'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
-import { ArrowLeft, FileDown, Trash2 } from 'lucide-react'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { ExportFormat } from '@/utils/conversation-export'
+import { formatCost } from '@/utils/format'
+import { cn } from '@/utils/tailwindcss'
+import { UsageTotal } from '@/utils/usage'
+import { ArrowLeft, BookOpen, Code2, Columns3, FileDown, FileSpreadsheet, FileUp, FlaskConical, Grid3x3, PanelLeft, ScrollText, Search, Share2, Trash2 } from 'lucide-react'
 import { useTranslations } from 'next-intl'
 import { useRouter } from 'next/navigation'
+import { useRef } from 'react'
 
 interface HeaderProps {
-  onExport: () => void
+  onExport: (format: ExportFormat) => void
+  onImport: (file: File) => void
+  onShare: () => void
+  onOpenSearch: () => void
   onResetMessages: () => void
+  onToggleConversations: () => void
+  isComparing: boolean
+  onToggleComparison: () => void
+  isSweeping: boolean
+  onToggleSweep: () => void
+  onOpenPromptLibrary: () => void
+  onOpenBatchRun: () => void
+  onOpenEvals: () => void
+  onOpenRunHistory: () => void
+  onOpenCode: () => void
+  usage: UsageTotal
+  onOpenPriceTable: () => void
 }
 
-export function Header({ onExport, onResetMessages }: HeaderProps) {
+/**
+ * Formats offered in the export menu, in menu order.
+ */
+const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'json', 'jsonl', 'html', 'pdf']
+
+export function Header({
+  onExport,
+  onImport,
+  onShare,
+  onOpenSearch,
+  onResetMessages,
+  onToggleConversations,
+  isComparing,
+  onToggleComparison,
+  isSweeping,
+  onToggleSweep,
+  onOpenPromptLibrary,
+  onOpenBatchRun,
+  onOpenEvals,
+  onOpenRunHistory,
+  onOpenCode,
+  usage,
+  onOpenPriceTable,
+}: HeaderProps) {
   const t = useTranslations('playground')
   const router = useRouter()
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   const handleBack = () => {
     router.back()
@@ -39,21 +89,270 @@ export function Header({ onExport, onResetMessages }: HeaderProps) {
           </Tooltip>
         </TooltipProvider>
 
+        <TooltipProvider delayDuration={0}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant='ghost' size='icon' onClick={onToggleConversations}>
+                <PanelLeft className='h-5 w-5' />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent
+              sideOffset={4}
+              className='max-w-xs select-text break-words rounded-md bg-gray-900 px-3 py-2 text-sm text-gray-50'
+            >
+              <p>{t('conversation.toggleTooltip')}</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
         <span className='text-xl font-semibold'>Playground</span>
       </div>
       <div className='flex items-center gap-4'>
         <TooltipProvider delayDuration={0}>
           <Tooltip>
             <TooltipTrigger asChild>
-              <Button variant='ghost' size='icon' onClick={onExport}>
-                <FileDown className='h-5 w-5' />
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={onOpenPriceTable}
+                className='text-xs text-gray-500'
+              >
+                {t('usage.total', {
+                  prompt: usage.promptTokens,
+                  completion: usage.completionTokens,
+                })}
+                {usage.promptTokens + usage.completionTokens > 0 && (
+                  <span className='ml-1 font-medium text-gray-700'>
+                    {usage.unpricedModels.length === 0
+                      ? formatCost(usage.cost)
+                      : t('usage.partialCost', { cost: formatCost(usage.cost) })}
+                  </span>
+                )}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent
+              sideOffset={4}
+              className='max-w-xs select-text break-words rounded-md bg-gray-900 px-3 py-2 text-sm text-gray-50'
+            >
+              <p>
+                {usage.unpricedModels.length > 0
+                  ? t('usage.unpricedTooltip', {
+                      models: usage.unpricedModels.join(', '),
+                    })
+                  : t('usage.totalTooltip')}
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        <TooltipProvider delayDuration={0}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant='ghost' size='icon' onClick={onOpenPromptLibrary}>
+                <BookOpen className='h-5 w-5' />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent
+              sideOffset={4}
+              className='max-w-xs select-text break-words rounded-md bg-gray-900 px-3 py-2 text-sm text-gray-50'
+            >
+              <p>{t('templates.toggleTooltip')}</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        <TooltipProvider delayDuration={0}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant='ghost' size='icon' onClick={onOpenBatchRun}>
+                <FileSpreadsheet className='h-5 w-5' />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent
+              sideOffset={4}
+              className='max-w-xs select-text break-words rounded-md bg-gray-900 px-3 py-2 text-sm text-gray-50'
+            >
+              <p>{t('batchRun.toggleTooltip')}</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        <TooltipProvider delayDuration={0}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant='ghost' size='icon' onClick={onOpenEvals}>
+                <FlaskConical className='h-5 w-5' />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent
+              sideOffset={4}
+              className='max-w-xs select-text break-words rounded-md bg-gray-900 px-3 py-2 text-sm text-gray-50'
+            >
+              <p>{t('evals.toggleTooltip')}</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        <TooltipProvider delayDuration={0}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant='ghost' size='icon' onClick={onOpenRunHistory}>
+                <ScrollText className='h-5 w-5' />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent
+              sideOffset={4}
+              className='max-w-xs select-text break-words rounded-md bg-gray-900 px-3 py-2 text-sm text-gray-50'
+            >
+              <p>{t('runHistory.toggleTooltip')}</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        <TooltipProvider delayDuration={0}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant='ghost' size='icon' onClick={onOpenCode}>
+                <Code2 className='h-5 w-5' />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent
+              sideOffset={4}
+              className='max-w-xs select-text break-words rounded-md bg-gray-900 px-3 py-2 text-sm text-gray-50'
+            >
+              <p>{t('code.tooltip')}</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        <TooltipProvider delayDuration={0}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant='ghost'
+                size='icon'
+                onClick={onToggleComparison}
+                className={cn(isComparing && 'bg-accent text-primary')}
+              >
+                <Columns3 className='h-5 w-5' />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent
+              sideOffset={4}
+              className='max-w-xs select-text break-words rounded-md bg-gray-900 px-3 py-2 text-sm text-gray-50'
+            >
+              <p>{t('comparison.toggleTooltip')}</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        <TooltipProvider delayDuration={0}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant='ghost'
+                size='icon'
+                onClick={onToggleSweep}
+                className={cn(isSweeping && 'bg-accent text-primary')}
+              >
+                <Grid3x3 className='h-5 w-5' />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent
+              sideOffset={4}
+              className='max-w-xs select-text break-words rounded-md bg-gray-900 px-3 py-2 text-sm text-gray-50'
+            >
+              <p>{t('sweep.toggleTooltip')}</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        <TooltipProvider delayDuration={0}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant='ghost' size='icon' onClick={onOpenSearch}>
+                <Search className='h-5 w-5' />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent
+              sideOffset={4}
+              className='max-w-xs select-text break-words rounded-md bg-gray-900 px-3 py-2 text-sm text-gray-50'
+            >
+              <p>{t('search.tooltip')}</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        <input
+          ref={importInputRef}
+          type='file'
+          accept='.json,.md,.markdown,.txt'
+          className='hidden'
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ''
+            if (file) onImport(file)
+          }}
+        />
+        <TooltipProvider delayDuration={0}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant='ghost'
+                size='icon'
+                onClick={() => importInputRef.current?.click()}
+              >
+                <FileUp className='h-5 w-5' />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent
+              sideOffset={4}
+              className='max-w-xs select-text break-words rounded-md bg-gray-900 px-3 py-2 text-sm text-gray-50'
+            >
+              <p>{t('import.tooltip')}</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+
+        <DropdownMenu>
+          <TooltipProvider delayDuration={0}>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <DropdownMenuTrigger asChild>
+                  <Button variant='ghost' size='icon'>
+                    <FileDown className='h-5 w-5' />
+                  </Button>
+                </DropdownMenuTrigger>
+              </TooltipTrigger>
+              <TooltipContent
+                sideOffset={4}
+                className='max-w-xs select-text break-words rounded-md bg-gray-900 px-3 py-2 text-sm text-gray-50'
+              >
+                <p>{t('export.tooltip')}</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+          <DropdownMenuContent align='end'>
+            {EXPORT_FORMATS.map((format) => (
+              <DropdownMenuItem key={format} onClick={() => onExport(format)}>
+                {t(`export.formats.${format}`)}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <TooltipProvider delayDuration={0}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant='ghost' size='icon' onClick={onShare}>
+                <Share2 className='h-5 w-5' />
               </Button>
             </TooltipTrigger>
             <TooltipContent
               sideOffset={4}
               className='max-w-xs select-text break-words rounded-md bg-gray-900 px-3 py-2 text-sm text-gray-50'
             >
-              <p>{t('exportTooltipMD')}</p>
+              <p>{t('share.tooltip')}</p>
             </TooltipContent>
           </Tooltip>
         </TooltipProvider>
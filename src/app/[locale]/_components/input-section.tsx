@@ -8,6 +8,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 import { TooltipButton } from '@/components/ui/tooltip-button'
 import { PlaygroundMessage } from '@/stores/playground'
+import { ATTACHMENT_ACCEPT, DOCUMENT_ACCEPT } from '@/utils/file-extraction'
 import { cn } from '@/utils/tailwindcss'
 import { ChevronDown, ChevronUp, Loader2, PlayCircle, Plus, Square, Upload } from 'lucide-react'
 import { useTranslations } from 'next-intl'
@@ -21,6 +22,7 @@ interface InputSectionProps {
   newMessage: PlaygroundMessage
   isRunning: boolean
   isUploading: boolean
+  canUploadImages: boolean
   uiMode: 'expert' | 'beginner'
   isPreviewOpen: boolean
   onMouseDown: (e: React.MouseEvent) => void
@@ -44,6 +46,7 @@ export function InputSection({
   newMessage,
   isRunning,
   isUploading,
+  canUploadImages,
   uiMode,
   isPreviewOpen,
   onMouseDown,
@@ -60,6 +63,8 @@ export function InputSection({
 }: InputSectionProps) {
   const t = useTranslations('playground')
   const fileInputRef = useRef<HTMLInputElement>(null)
+  // Documents are sent as text, so only images depend on the model
+  const showFileUpload = newMessage.role === 'user'
 
   const triggerFileUpload = () => {
     fileInputRef.current?.click()
@@ -113,7 +118,7 @@ export function InputSection({
               )}
             </TooltipButton>
 
-            {newMessage.role === 'user' && (
+            {showFileUpload && (
               <Tooltip>
                 <Popover open={isPreviewOpen} onOpenChange={setIsPreviewOpen}>
                   <TooltipProvider delayDuration={0}>
@@ -196,7 +201,7 @@ export function InputSection({
                 }
                 e.target.value = ''
               }}
-              accept='image/*'
+              accept={canUploadImages ? ATTACHMENT_ACCEPT : DOCUMENT_ACCEPT}
             />
 
             {uiMode === 'expert' && (
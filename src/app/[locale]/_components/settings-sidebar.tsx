@@ -1,6 +1,8 @@
 'use client'
 
+import type { ServerKeyStatus } from '@/actions/quota'
 import { ModeSwitcher } from '@/components/mode-switcher'
+import { AdvancedSettings } from '@/components/playground/advanced-settings'
 import { Button } from '@/components/ui/button'
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command'
 import { Input } from '@/components/ui/input'
@@ -9,10 +11,18 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Sidebar, SidebarContent, SidebarGroup, SidebarGroupContent, SidebarGroupLabel, SidebarHeader } from '@/components/ui/sidebar'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Slider } from '@/components/ui/slider'
+import { Switch } from '@/components/ui/switch'
+import { ToolEditorDialog } from '@/components/playground/tool-editor'
+import { Textarea } from '@/components/ui/textarea'
+import { PlaygroundLogitBias, PlaygroundProvider, PlaygroundTool, ResponseFormatType } from '@/stores/playground'
+import { parseJsonSchema } from '@/utils/json-schema'
+import { ModelCapabilities } from '@/utils/model-capabilities'
+import { DEFAULT_PROVIDER_ID } from '@/utils/providers'
+import { REASONING_EFFORTS, ReasoningEffort } from '@/utils/reasoning'
 import { TooltipButton } from '@/components/ui/tooltip-button'
 import { TooltipHelpIcon } from '@/components/ui/tooltip-help-icon'
 import { cn } from '@/utils/tailwindcss'
-import { Check, RotateCcw } from 'lucide-react'
+import { Check, Pencil, Plus, RotateCcw, Server, Trash2 } from 'lucide-react'
 import { marked } from 'marked'
 import { useTranslations } from 'next-intl'
 import { useEffect, useState } from 'react'
@@ -23,6 +33,7 @@ import { useParams } from 'next/navigation'
 
 interface SettingsSidebarProps {
   settings: {
+    providerId?: string
     model?: string
     temperature: number
     topP: number
@@ -30,24 +41,46 @@ interface SettingsSidebarProps {
     presencePenalty: number
     maxTokens: number
     apiKey: string
+    responseFormat?: ResponseFormatType
+    responseSchema?: string
+    stopSequences?: string[]
+    seed?: number
+    topK?: number
+    logitBias?: PlaygroundLogitBias[]
+    topLogprobs?: number
+    reasoningEffort?: ReasoningEffort
   }
   uiMode: 'expert' | 'beginner'
-  models: Array<{ id: string }>
+  models: Array<{ id: string; provider: string }>
+  providers: PlaygroundProvider[]
+  capabilities: ModelCapabilities
+  serverKey: ServerKeyStatus
+  tools: PlaygroundTool[]
   onSettingsChange: (settings: any) => void
+  onToolsChange: (tools: PlaygroundTool[]) => void
   onUiModeChange: (value: boolean) => void
   onResetSettings: () => void
+  onOpenProviders: () => void
 }
 
 export function SettingsSidebar({
   settings,
   uiMode,
   models,
+  providers,
+  capabilities,
+  serverKey,
+  tools,
   onSettingsChange,
+  onToolsChange,
   onUiModeChange,
   onResetSettings,
+  onOpenProviders,
 }: SettingsSidebarProps) {
   const t = useTranslations('playground')
   const [apiKeyDesc, setApiKeyDesc] = useState('')
+  const [editingTool, setEditingTool] = useState<PlaygroundTool | null>(null)
+  const [toolEditorOpen, setToolEditorOpen] = useState(false)
   const router = useRouter()
   const params = useParams()
   const pathname = '/'
@@ -61,6 +94,43 @@ export function SettingsSidebar({
     }
   }, [t])
 
+  const responseFormat = settings.responseFormat || 'text'
+  const responseSchemaError =
+    responseFormat === 'json_schema'
+      ? parseJsonSchema(settings.responseSchema || '').error
+      : undefined
+
+  const providerId = settings.providerId || DEFAULT_PROVIDER_ID
+  const providerName = (id: string) =>
+    providers.find((provider) => provider.id === id)?.name ??
+    t('providers.gateway')
+  // Models grouped by provider, the gateway first
+  const modelGroups = [
+    DEFAULT_PROVIDER_ID,
+    ...providers.map((provider) => provider.id),
+  ]
+    .map((id) => ({
+      id,
+      models: models.filter((model) => model.provider === id),
+    }))
+    .filter((group) => group.models.length > 0)
+
+  const formatTokens = (tokens?: number) =>
+    tokens ? tokens.toLocaleString() : t('capabilities.unknown')
+
+  const openToolEditor = (tool: PlaygroundTool | null) => {
+    setEditingTool(tool)
+    setToolEditorOpen(true)
+  }
+
+  const handleSaveTool = (tool: PlaygroundTool) => {
+    if (tools.some((item) => item.id === tool.id)) {
+      onToolsChange(tools.map((item) => (item.id === tool.id ? tool : item)))
+    } else {
+      onToolsChange([...tools, tool])
+    }
+  }
+
   return (
     <Sidebar side='right'>
       <SidebarHeader className='px-4'>
@@ -85,11 +155,22 @@ export function SettingsSidebar({
           <SidebarGroupContent className='space-y-8'>
             <div className='space-y-6'>
               <div>
-                <div className='flex items-center gap-1'>
-                  <Label className='text-sm font-medium text-gray-700'>
-                    {t('settings.model')}
-                  </Label>
-                  <TooltipHelpIcon content={t('settings.modelDesc')} />
+                <div className='flex items-center justify-between'>
+                  <div className='flex items-center gap-1'>
+                    <Label className='text-sm font-medium text-gray-700'>
+                      {t('settings.model')}
+                    </Label>
+                    <TooltipHelpIcon content={t('settings.modelDesc')} />
+                  </div>
+                  <TooltipButton
+                    variant='ghost'
+                    size='icon'
+                    className='h-6 w-6'
+                    onClick={onOpenProviders}
+                    tooltipContent={t('providers.tooltip')}
+                  >
+                    <Server className='h-3.5 w-3.5' />
+                  </TooltipButton>
                 </div>
                 <Popover>
                   <PopoverTrigger asChild>
@@ -98,7 +179,14 @@ export function SettingsSidebar({
                       role='combobox'
                       className='mt-1.5 w-full justify-between border-gray-300 bg-white'
                     >
-                      {settings.model || t('settings.selectModelPlaceholder')}
+                      <span className='truncate'>
+                        {settings.model || t('settings.selectModelPlaceholder')}
+                      </span>
+                      {settings.model && providerId !== DEFAULT_PROVIDER_ID && (
+                        <span className='ml-2 truncate text-xs text-gray-500'>
+                          {providerName(providerId)}
+                        </span>
+                      )}
                     </Button>
                   </PopoverTrigger>
                   <PopoverContent className='w-full p-0' side='bottom' align='start'>
@@ -116,39 +204,78 @@ export function SettingsSidebar({
                           <CommandEmpty className='px-3 py-2'>
                             {t('settings.noModelFound')}
                           </CommandEmpty>
-                          <CommandGroup>
-                            {Array.isArray(models) && models.length > 0 ? (
-                              models.map((model) => (
-                                <CommandItem
-                                  key={model.id}
-                                  value={model.id}
-                                  onSelect={() => {
-                                    onSettingsChange({ ...settings, model: model.id })
-                                  }}
-                                  className='px-3 py-1.5'
-                                >
-                                  <Check
-                                    className={cn(
-                                      'mr-2 h-4 w-4',
-                                      settings.model === model.id
-                                        ? 'opacity-100'
-                                        : 'opacity-0'
-                                    )}
-                                  />
-                                  {model.id}
-                                </CommandItem>
-                              ))
-                            ) : (
-                              <div className='py-6 text-center text-sm text-gray-500'>
-                                {t('settings.noModelFound')}
-                              </div>
-                            )}
-                          </CommandGroup>
+                          {modelGroups.length > 0 ? (
+                            modelGroups.map((group) => (
+                              <CommandGroup
+                                key={group.id}
+                                heading={
+                                  modelGroups.length > 1
+                                    ? providerName(group.id)
+                                    : undefined
+                                }
+                              >
+                                {group.models.map((model) => (
+                                  <CommandItem
+                                    key={model.id}
+                                    value={`${group.id}/${model.id}`}
+                                    keywords={[model.id]}
+                                    onSelect={() => {
+                                      onSettingsChange({
+                                        ...settings,
+                                        providerId: group.id,
+                                        model: model.id,
+                                      })
+                                    }}
+                                    className='px-3 py-1.5'
+                                  >
+                                    <Check
+                                      className={cn(
+                                        'mr-2 h-4 w-4',
+                                        providerId === group.id &&
+                                          settings.model === model.id
+                                          ? 'opacity-100'
+                                          : 'opacity-0'
+                                      )}
+                                    />
+                                    {model.id}
+                                  </CommandItem>
+                                ))}
+                              </CommandGroup>
+                            ))
+                          ) : (
+                            <div className='py-6 text-center text-sm text-gray-500'>
+                              {t('settings.noModelFound')}
+                            </div>
+                          )}
                         </CommandList>
                       </div>
                     </Command>
                   </PopoverContent>
                 </Popover>
+                {settings.model && (
+                  <dl className='mt-2 grid grid-cols-2 gap-x-2 gap-y-0.5 text-xs text-gray-500'>
+                    <dt>{t('capabilities.contextWindow')}</dt>
+                    <dd className='text-right'>
+                      {formatTokens(capabilities.contextWindow)}
+                    </dd>
+                    <dt>{t('capabilities.maxOutput')}</dt>
+                    <dd className='text-right'>
+                      {formatTokens(capabilities.maxOutputTokens)}
+                    </dd>
+                    <dt>{t('capabilities.vision')}</dt>
+                    <dd className='text-right'>
+                      {capabilities.vision
+                        ? t('capabilities.supported')
+                        : t('capabilities.unsupported')}
+                    </dd>
+                    <dt>{t('capabilities.tools')}</dt>
+                    <dd className='text-right'>
+                      {capabilities.tools
+                        ? t('capabilities.supported')
+                        : t('capabilities.unsupported')}
+                    </dd>
+                  </dl>
+                )}
               </div>
 
               <div>
@@ -260,11 +387,15 @@ export function SettingsSidebar({
                   <Input
                     type='number'
                     min={1}
+                    max={capabilities.maxOutputTokens}
                     value={settings.maxTokens}
                     onChange={(e) =>
                       onSettingsChange({
                         ...settings,
-                        maxTokens: Number(e.target.value),
+                        maxTokens: Math.min(
+                          Number(e.target.value),
+                          capabilities.maxOutputTokens ?? Infinity
+                        ),
                       })
                     }
                     placeholder={t('settings.maxTokensPlaceholder')}
@@ -272,6 +403,89 @@ export function SettingsSidebar({
                   />
                 </div>
               </div>
+
+              {capabilities.reasoningEffort && (
+                <div>
+                  <div className='flex items-center gap-1'>
+                    <Label className='text-sm font-medium text-gray-700'>
+                      {t('settings.reasoningEffort')}
+                    </Label>
+                    <TooltipHelpIcon content={t('settings.reasoningEffortDesc')} />
+                  </div>
+                  <Select
+                    value={settings.reasoningEffort ?? 'default'}
+                    onValueChange={(value) =>
+                      onSettingsChange({
+                        ...settings,
+                        reasoningEffort: value === 'default' ? undefined : value,
+                      })
+                    }
+                  >
+                    <SelectTrigger className='mt-2 w-full'>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value='default'>
+                        {t('settings.reasoningEffortDefault')}
+                      </SelectItem>
+                      {REASONING_EFFORTS.map((effort) => (
+                        <SelectItem key={effort} value={effort}>
+                          {t(`settings.reasoningEfforts.${effort}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div>
+                <div className='flex items-center gap-1'>
+                  <Label className='text-sm font-medium text-gray-700'>
+                    {t('responseFormat.title')}
+                  </Label>
+                  <TooltipHelpIcon content={t('responseFormat.titleDesc')} />
+                </div>
+                <Select
+                  value={responseFormat}
+                  onValueChange={(value) =>
+                    onSettingsChange({ ...settings, responseFormat: value })
+                  }
+                >
+                  <SelectTrigger className='mt-2 w-full'>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value='text'>{t('responseFormat.text')}</SelectItem>
+                    <SelectItem value='json_object'>
+                      {t('responseFormat.jsonObject')}
+                    </SelectItem>
+                    <SelectItem value='json_schema'>
+                      {t('responseFormat.jsonSchema')}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+                {responseFormat === 'json_schema' && (
+                  <>
+                    <Textarea
+                      value={settings.responseSchema || ''}
+                      onChange={(e) =>
+                        onSettingsChange({
+                          ...settings,
+                          responseSchema: e.target.value,
+                        })
+                      }
+                      placeholder={t('responseFormat.schemaPlaceholder')}
+                      className='mt-2 min-h-[160px] font-mono text-xs md:text-xs'
+                      spellCheck={false}
+                    />
+                    {responseSchemaError && (
+                      <p className='mt-1 text-xs text-red-500'>
+                        {responseSchemaError}
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
             </div>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -291,14 +505,30 @@ export function SettingsSidebar({
             </div>
           </SidebarGroupLabel>
           <SidebarGroupContent className='space-y-8'>
-            <Input
-              placeholder={t('settings.apiKeyPlaceholder')}
-              type='password'
-              value={settings.apiKey}
-              onChange={(e) =>
-                onSettingsChange({ ...settings, apiKey: e.target.value })
-              }
-            />
+            <div>
+              <Input
+                placeholder={
+                  serverKey.enabled
+                    ? t('serverKey.placeholder')
+                    : t('settings.apiKeyPlaceholder')
+                }
+                type='password'
+                value={settings.apiKey}
+                onChange={(e) =>
+                  onSettingsChange({ ...settings, apiKey: e.target.value })
+                }
+              />
+              {serverKey.enabled && !settings.apiKey && (
+                <p className='mt-2 text-xs text-gray-500'>
+                  {serverKey.dailyTokenQuota
+                    ? t('serverKey.usage', {
+                        used: serverKey.usedTokens,
+                        quota: serverKey.dailyTokenQuota,
+                      })
+                    : t('serverKey.unlimited')}
+                </p>
+              )}
+            </div>
           </SidebarGroupContent>
         </SidebarGroup>
 
@@ -330,6 +560,81 @@ export function SettingsSidebar({
           </SidebarGroupContent>
         </SidebarGroup>
 
+        {uiMode === 'expert' && (
+          <SidebarGroup>
+            <SidebarGroupLabel className='px-0'>
+              {t('settings.advanced.title')}
+            </SidebarGroupLabel>
+            <SidebarGroupContent>
+              <AdvancedSettings
+                settings={settings}
+                onSettingsChange={onSettingsChange}
+                supportsLogprobs={capabilities.logprobs}
+              />
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
+        {uiMode === 'expert' && capabilities.tools && (
+          <SidebarGroup>
+            <SidebarGroupLabel className='px-0'>
+              <div className='flex items-center gap-1'>
+                {t('tools.title')}
+                <TooltipHelpIcon content={t('tools.titleDesc')} />
+              </div>
+            </SidebarGroupLabel>
+            <SidebarGroupContent className='space-y-2'>
+              {tools.map((tool) => (
+                <div
+                  key={tool.id}
+                  className='flex items-center gap-2 rounded-md border border-gray-200 px-2 py-1.5'
+                >
+                  <Switch
+                    checked={tool.enabled}
+                    onCheckedChange={(enabled) =>
+                      onToolsChange(
+                        tools.map((item) =>
+                          item.id === tool.id ? { ...item, enabled } : item
+                        )
+                      )
+                    }
+                  />
+                  <span className='flex-1 truncate font-mono text-xs'>{tool.name}</span>
+                  <TooltipButton
+                    variant='ghost'
+                    size='icon'
+                    className='h-6 w-6'
+                    onClick={() => openToolEditor(tool)}
+                    tooltipContent={t('tools.edit')}
+                  >
+                    <Pencil className='h-3.5 w-3.5' />
+                  </TooltipButton>
+                  <TooltipButton
+                    variant='ghost'
+                    size='icon'
+                    className='h-6 w-6'
+                    onClick={() =>
+                      onToolsChange(tools.filter((item) => item.id !== tool.id))
+                    }
+                    tooltipContent={t('tools.delete')}
+                  >
+                    <Trash2 className='h-3.5 w-3.5' />
+                  </TooltipButton>
+                </div>
+              ))}
+              <Button
+                variant='outline'
+                size='sm'
+                className='w-full'
+                onClick={() => openToolEditor(null)}
+              >
+                <Plus className='mr-1 h-4 w-4' />
+                {t('tools.add')}
+              </Button>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
         <SidebarGroup>
           <SidebarGroupLabel className='px-0'>
             <div className='flex items-center gap-1'>
@@ -366,6 +671,12 @@ export function SettingsSidebar({
           </SidebarGroupContent>
         </SidebarGroup>
       </SidebarContent>
+      <ToolEditorDialog
+        open={toolEditorOpen}
+        tool={editingTool}
+        onOpenChange={setToolEditorOpen}
+        onSave={handleSaveTool}
+      />
     </Sidebar>
   )
 }
@@ -9,30 +9,69 @@
 'use client'
 
 import { ClientOnly } from '@/components/client-only'
+import { BatchRunDialog } from '@/components/playground/batch-run-dialog'
+import { CodeDialog } from '@/components/playground/code-dialog'
+import { EvalSuiteDialog } from '@/components/playground/eval-suite-dialog'
+import { ComparisonPanel } from '@/components/playground/comparison-panel'
+import { SweepPanel } from '@/components/playground/sweep-panel'
 import { MessageList } from '@/components/playground/message-list'
+import { PriceTableDialog } from '@/components/playground/price-table-dialog'
+import { PromptLibraryDialog } from '@/components/playground/prompt-library'
+import { ProvidersDialog } from '@/components/playground/providers-dialog'
+import { RunHistoryDialog } from '@/components/playground/run-history-dialog'
+import { SearchPalette } from '@/components/playground/search-palette'
 import { SidebarProvider } from '@/components/ui/sidebar'
 import { messageStore } from '@/db/message-store'
 import { useChatGeneration } from '@/hooks/use-chat-generation'
+import { useConversationExport } from '@/hooks/use-conversation-export'
+import { useConversations } from '@/hooks/use-conversations'
 import { useFileUpload } from '@/hooks/use-file-upload'
 import { useMessages } from '@/hooks/use-messages'
+import { useModels } from '@/hooks/use-models'
+import { useServerKey } from '@/hooks/use-server-key'
+import { useTemplates } from '@/hooks/use-templates'
+import {
+  ComparisonResult,
+  useModelComparison,
+} from '@/hooks/use-model-comparison'
+import { SweepResult, useParameterSweep } from '@/hooks/use-parameter-sweep'
 
 import {
+  chatToolsAtom,
+  COMPARISON_MODEL_LIMITS,
+  comparisonModeAtom,
+  comparisonModelsAtom,
+  sweepConfigAtom,
+  sweepModeAtom,
+  conversationSidebarOpenAtom,
+  modelPricesAtom,
   PlaygroundMessage,
+  playgroundProvidersAtom,
   playgroundSettiongsAtom,
+  playgroundToolsAtom,
   uiModeAtom,
   validateMessage,
 } from '@/stores/playground'
-import { saveAs } from 'file-saver'
-import { useAtom } from 'jotai'
+import { ExportFormat } from '@/utils/conversation-export'
+import { parseConversationFile } from '@/utils/conversation-file'
+import { calculateMetrics } from '@/utils/metrics'
+import {
+  checkCapabilities,
+  getModelCapabilities,
+} from '@/utils/model-capabilities'
+import { DEFAULT_PROVIDER_ID, toChatProvider } from '@/utils/providers'
+import { getSweepCells, SWEEP_CELL_LIMIT } from '@/utils/sweep'
+import { sumUsage } from '@/utils/usage'
+import { useAtom, useAtomValue } from 'jotai'
 
 import { marked, Tokens } from 'marked'
-import { useTranslations } from 'next-intl'
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useLocale, useTranslations } from 'next-intl'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { toast } from 'sonner'
 import { v4 as uuidv4 } from 'uuid'
 
 import { SettingsSidebar } from './_components/settings-sidebar'
-import { getModels, ModelInfo } from '@/actions/models'
+import { ConversationSidebar } from './_components/conversation-sidebar'
 import { Header } from './_components/header'
 import { InputSection } from './_components/input-section'
 
@@ -45,13 +84,33 @@ const DEFAULT_SETTINGS = {
   topP: 0.7,
   frequencyPenalty: 0.5,
   presencePenalty: 0.5,
+  stopSequences: [],
+  seed: undefined,
+  topK: undefined,
+  logitBias: [],
+  topLogprobs: 5,
+  reasoningEffort: undefined,
+}
+
+/**
+ * Where an answer is added: the conversation and the message it answers.
+ *
+ * @interface AnswerTarget
+ * @property {string} conversationId - Conversation the answer was requested in
+ * @property {string | null} parentId - Message the answer follows, null for a first message
+ */
+type AnswerTarget = {
+  conversationId: string
+  parentId: string | null
 }
 
 /**
  * Main playground component providing an interactive chat interface with AI models.
  * Features include:
+ * - Multiple named conversations
  * - Message composition and management
  * - Model selection and configuration
+ * - Side-by-side comparison of multiple models
  * - Settings adjustment
  * - Drag-and-drop message reordering
  * - Export functionality
@@ -62,6 +121,7 @@ const DEFAULT_SETTINGS = {
  */
 export default function Component() {
   const t = useTranslations('playground')
+  const locale = useLocale()
   const [settings, setSettings] = useAtom(playgroundSettiongsAtom)
   const [uiMode, setUiMode] = useAtom(uiModeAtom)
   const [newMessage, setNewMessage] = useState<PlaygroundMessage>({
@@ -70,15 +130,132 @@ export default function Component() {
     content: '',
   })
 
-  const { messages, handleEdit, handleDelete, handleDragEnd } = useMessages(
-    t('message.systemDefaultContent')
+  const {
+    conversations,
+    activeConversationId,
+    handleSelect: handleSelectConversation,
+    handleCreate: handleCreateConversation,
+    handleRename: handleRenameConversation,
+    handleDuplicate: handleDuplicateConversation,
+    handleImport: handleImportConversation,
+    handleDelete: handleDeleteConversation,
+  } = useConversations()
+  const [isConversationsOpen, setIsConversationsOpen] = useAtom(
+    conversationSidebarOpenAtom
+  )
+
+  const {
+    templates,
+    handleSave: handleSaveTemplate,
+    handleDelete: handleDeleteTemplate,
+    handleApply: handleApplyTemplate,
+  } = useTemplates()
+  const [isPromptLibraryOpen, setIsPromptLibraryOpen] = useState(false)
+  const [isBatchRunOpen, setIsBatchRunOpen] = useState(false)
+  const [isEvalsOpen, setIsEvalsOpen] = useState(false)
+  const [isRunHistoryOpen, setIsRunHistoryOpen] = useState(false)
+  const [isCodeOpen, setIsCodeOpen] = useState(false)
+  const [isPriceTableOpen, setIsPriceTableOpen] = useState(false)
+  const [isProvidersOpen, setIsProvidersOpen] = useState(false)
+  const [isSearchOpen, setIsSearchOpen] = useState(false)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null)
+
+  const { messages, branches, handleEdit, handleDelete, handleDragEnd } =
+    useMessages(t('message.systemDefaultContent'), activeConversationId)
+
+  const modelPrices = useAtomValue(modelPricesAtom)
+
+  // Running token and cost total of the active conversation
+  const usageTotal = useMemo(
+    () => sumUsage(messages, modelPrices),
+    [messages, modelPrices]
+  )
+  const usedModels = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          settings.model,
+          ...messages.flatMap((msg) => (msg.model ? [msg.model] : [])),
+        ])
+      ),
+    [messages, settings.model]
   )
 
   const { generate, stop, isRunning, generatingMessage } = useChatGeneration()
+  const { status: serverKey, refresh: refreshServerKey } = useServerKey()
+
+  const [playgroundTools, setPlaygroundTools] = useAtom(playgroundToolsAtom)
+  const tools = useAtomValue(chatToolsAtom)
+
+  const [isComparisonMode, setIsComparisonMode] = useAtom(comparisonModeAtom)
+  const [comparisonModels, setComparisonModels] =
+    useAtom(comparisonModelsAtom)
+  const {
+    results: comparisonResults,
+    isRunning: isComparing,
+    run: runComparison,
+    stop: stopComparison,
+    stopAll: stopAllComparisons,
+    clear: clearComparison,
+  } = useModelComparison()
+
+  const [isSweepMode, setIsSweepMode] = useAtom(sweepModeAtom)
+  const [sweepConfig, setSweepConfig] = useAtom(sweepConfigAtom)
+  const {
+    results: sweepResults,
+    runConfig: sweepRunConfig,
+    isRunning: isSweeping,
+    run: runSweep,
+    stop: stopSweepCell,
+    stopAll: stopSweep,
+    clear: clearSweep,
+  } = useParameterSweep()
+
+  // Where kept comparison and sweep answers go: the conversation and its last
+  // message when the run started, even after switching conversations
+  const comparisonTargetRef = useRef<AnswerTarget | null>(null)
+  const sweepTargetRef = useRef<AnswerTarget | null>(null)
+
+  // Update the remaining quota after every generation with the server key
+  useEffect(() => {
+    if (serverKey.enabled && !isRunning && !isComparing && !isSweeping) {
+      refreshServerKey()
+    }
+  }, [serverKey.enabled, isRunning, isComparing, isSweeping, refreshServerKey])
+
+  // Comparison and sweep share the side panel, only one is open at a time.
+  // Closing either stops the requests still generating
+  const closeComparison = () => {
+    stopAllComparisons()
+    setIsComparisonMode(false)
+  }
+  const closeSweep = () => {
+    stopSweep()
+    setIsSweepMode(false)
+  }
+  const handleToggleComparison = () => {
+    if (isComparisonMode) {
+      closeComparison()
+    } else {
+      setIsComparisonMode(true)
+    }
+    closeSweep()
+  }
+  const handleToggleSweep = () => {
+    if (isSweepMode) {
+      closeSweep()
+    } else {
+      setIsSweepMode(true)
+    }
+    closeComparison()
+  }
 
   /**
    * Adds a new message to the chat history
    * @param {PlaygroundMessage} message - The message to add
+   * @returns {Promise<PlaygroundMessage | undefined>} The added message, undefined if it was invalid
    */
   const handleAddMessage = async (message: PlaygroundMessage) => {
     if (!message.content?.trim()) {
@@ -106,10 +283,11 @@ export default function Component() {
       content: '',
       files: [],
     }))
+    return newMsg
   }
 
   /**
-   * Resets the chat history to initial state
+   * Resets the chat history of the active conversation to initial state
    */
   const handleResetMessages = useCallback(async () => {
     await messageStore.clear()
@@ -163,20 +341,103 @@ export default function Component() {
   }
 
   // Model selection state
-  const [models, setModels] = useState<ModelInfo[]>([])
+  const models = useModels()
+  const providers = useAtomValue(playgroundProvidersAtom)
+  const providerId = settings.providerId || DEFAULT_PROVIDER_ID
+  const provider = providers.find(
+    (item) => item.id === providerId && item.enabled
+  )
+  // Requests go to the gateway unless a configured provider is selected
+  const chatSettings = {
+    ...settings,
+    provider: provider && toChatProvider(provider),
+  }
 
+  /**
+   * Returns the capabilities of a model, as reported by the model list if possible
+   * @param {string} model - Model ID of the selected provider
+   */
+  const getCapabilities = (model: string) =>
+    models.find((item) => item.id === model && item.provider === providerId)
+      ?.capabilities ?? getModelCapabilities(model)
+
+  const capabilities = getCapabilities(settings.model)
+
+  /**
+   * Warns about every part of a request the model does not support
+   * @param {PlaygroundMessage[]} requestMessages - Messages to send
+   * @param {string} model - Model receiving the request
+   */
+  const warnUnsupported = (
+    requestMessages: PlaygroundMessage[],
+    model: string
+  ) => {
+    const warnings = checkCapabilities(getCapabilities(model), {
+      messages: requestMessages,
+      maxTokens: settings.maxTokens,
+      toolCount: tools.length,
+    })
+    for (const warning of warnings) {
+      toast.warning(
+        t(`capabilities.warnings.${warning.type}`, { ...warning, model })
+      )
+    }
+  }
+
+  // Open the search palette with Ctrl+K or Cmd+K
   useEffect(() => {
-    getModels().then(setModels).catch(console.error)
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setIsSearchOpen((open) => !open)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
   }, [])
 
+  // Remove the search highlight after a while
+  useEffect(() => {
+    if (!highlightedMessageId) return
+    const timer = setTimeout(() => setHighlightedMessageId(null), 3000)
+    return () => clearTimeout(timer)
+  }, [highlightedMessageId])
+
+  /**
+   * Opens a search result in its conversation and highlights it
+   * @param {PlaygroundMessage} message - The selected message
+   */
+  const handleSearchSelect = async (message: PlaygroundMessage) => {
+    setIsSearchOpen(false)
+    // Activate the branch first, so the conversation opens on it
+    await messageStore.activateMessage(message.id)
+    if (message.conversationId) {
+      handleSelectConversation(message.conversationId)
+    }
+    setHighlightedMessageId(message.id)
+  }
+
   /**
    * Initiates chat generation with the AI model
    */
   const handleRun = async () => {
-    if (!settings.apiKey) {
+    if (!provider && !settings.apiKey && !serverKey.enabled) {
       toast.error(t('settings.apiKeyRequired'))
       return
     }
+    if (
+      isComparisonMode &&
+      comparisonModels.length < COMPARISON_MODEL_LIMITS.min
+    ) {
+      toast.error(
+        t('comparison.notEnoughModels', { min: COMPARISON_MODEL_LIMITS.min })
+      )
+      return
+    }
+    if (isSweepMode && getSweepCells(sweepConfig).length > SWEEP_CELL_LIMIT) {
+      toast.error(t('sweep.tooManyCells', { max: SWEEP_CELL_LIMIT }))
+      return
+    }
     let _messages = messages
     if (uiMode !== 'expert') {
       const currentMessage = {
@@ -189,22 +450,143 @@ export default function Component() {
         return
       }
 
-      await handleAddMessage(currentMessage)
-      _messages = [...messages, currentMessage]
+      const addedMessage = await handleAddMessage(currentMessage)
+      if (!addedMessage) return
+      _messages = [...messages, addedMessage]
+    }
+
+    // The answer belongs where it was requested, even after switching conversations
+    const target: AnswerTarget = {
+      conversationId: messageStore.getConversationId(),
+      parentId: _messages[_messages.length - 1]?.id ?? null,
+    }
+
+    if (isSweepMode) {
+      warnUnsupported(_messages, settings.model)
+      sweepTargetRef.current = target
+      await runSweep(_messages, { ...chatSettings, tools }, sweepConfig)
+      return
+    }
+
+    if (isComparisonMode) {
+      comparisonModels.forEach((model) => warnUnsupported(_messages, model))
+      comparisonTargetRef.current = target
+      await runComparison(
+        _messages,
+        { ...chatSettings, tools },
+        comparisonModels
+      )
+      return
     }
 
-    const result = await generate(_messages, settings)
+    warnUnsupported(_messages, settings.model)
+    const result = await generate(_messages, { ...chatSettings, tools })
     if (result) {
-      const { id, content, logprobs } = result
-      await messageStore.addMessage({
+      const {
         id,
-        role: 'assistant',
         content,
-        logprobs: logprobs,
-      })
+        reasoning,
+        logprobs,
+        toolCalls,
+        responseFormat,
+        usage,
+        model,
+        metrics,
+        truncated,
+      } = result
+      await messageStore.addMessage(
+        {
+          id,
+          role: 'assistant',
+          content,
+          reasoning,
+          logprobs: logprobs,
+          toolCalls,
+          responseFormat,
+          usage,
+          model,
+          metrics,
+          truncated,
+        },
+        target.parentId,
+        target.conversationId
+      )
     }
   }
 
+  /**
+   * Adds the answer of a compared model to the conversation
+   * @param {ComparisonResult} result - The comparison result to keep
+   */
+  const handleKeepComparison = async (result: ComparisonResult) => {
+    const { content, reasoning, logprobs, toolCalls, responseFormat } =
+      result.message
+    const { usage, model, startedAt, firstTokenAt, finishedAt } = result
+    const metrics = finishedAt
+      ? calculateMetrics(
+          { startedAt, firstTokenAt, finishedAt },
+          usage?.completionTokens
+        )
+      : undefined
+    const target = comparisonTargetRef.current
+    if (!target) return
+    await messageStore.addMessage(
+      {
+        id: uuidv4(),
+        role: 'assistant',
+        content,
+        reasoning,
+        logprobs,
+        toolCalls,
+        responseFormat,
+        usage,
+        model,
+        metrics,
+        truncated: result.status === 'stopped' || undefined,
+      },
+      target.parentId,
+      target.conversationId
+    )
+    clearComparison()
+  }
+
+  /**
+   * Adds the answer of a sweep cell to the conversation
+   * @param {SweepResult} result - The sweep result to keep
+   */
+  const handleKeepSweep = async (result: SweepResult) => {
+    const { content, reasoning, logprobs, toolCalls, responseFormat, model } =
+      result.message
+    const { usage, startedAt, firstTokenAt, finishedAt } = result
+    const metrics =
+      startedAt && finishedAt
+        ? calculateMetrics(
+            { startedAt, firstTokenAt, finishedAt },
+            usage?.completionTokens
+          )
+        : undefined
+    const target = sweepTargetRef.current
+    if (!target) return
+    await messageStore.addMessage(
+      {
+        id: uuidv4(),
+        role: 'assistant',
+        content,
+        reasoning,
+        logprobs,
+        toolCalls,
+        responseFormat,
+        usage,
+        model,
+        metrics,
+        truncated: result.status === 'stopped' || undefined,
+      },
+      target.parentId,
+      target.conversationId
+    )
+    clearSweep()
+  }
+
   /**
    * Handles keyboard events for message submission
    * @param {React.KeyboardEvent} e - Keyboard event
@@ -227,19 +609,69 @@ export default function Component() {
     }
   }
 
+  const exportConversation = useConversationExport()
+
+  /**
+   * Exports the chat history
+   * @param {ExportFormat} format - Format of the exported file
+   */
+  const handleExport = (format: ExportFormat) => {
+    exportConversation(format, {
+      title:
+        conversations.find((c) => c.id === activeConversationId)?.title || '',
+      messages,
+      settings,
+    })
+  }
+
   /**
-   * Exports chat history as markdown file
+   * Saves a snapshot of the conversation on the server and copies its link
    */
-  const handleExport = () => {
-    const markdown = messages
-      .map((msg) => {
-        const roleLabel = t(`message.${msg.role}`)
-        return `## ${roleLabel}\n\n${msg.content}\n`
+  const handleShare = async () => {
+    try {
+      const response = await fetch('/api/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title:
+            conversations.find((c) => c.id === activeConversationId)?.title ||
+            '',
+          messages,
+        }),
       })
-      .join('\n')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      const url = `${window.location.origin}/${locale}/share/${data.id}`
+      await navigator.clipboard.writeText(url)
+      toast.success(t('share.success'))
+    } catch (error) {
+      toast.error(t('share.failed', { error: (error as Error).message }))
+    }
+  }
 
-    const blob = new Blob([markdown], { type: 'text/markdown;charset=utf-8' })
-    saveAs(blob, `chat-${new Date().toISOString().slice(0, 10)}.md`)
+  /**
+   * Imports a conversation file into a new conversation
+   * @param {File} file - JSON, Markdown or OpenAI request body file
+   */
+  const handleImport = async (file: File) => {
+    const roles = ['system', 'user', 'assistant', 'tool'] as const
+    const roleLabels = Object.fromEntries(
+      roles.map((role) => [t(`message.${role}`).toLowerCase(), role])
+    )
+    try {
+      const imported = parseConversationFile(
+        await file.text(),
+        file.name,
+        roleLabels
+      )
+      await handleImportConversation(imported)
+      toast.success(
+        t('import.success', { count: imported.messages.length })
+      )
+    } catch (error) {
+      toast.error(t('import.failed', { error: (error as Error).message }))
+    }
   }
 
   // Configure marked renderer for links
@@ -338,21 +770,84 @@ export default function Component() {
             } as React.CSSProperties
           }
         >
+          <ConversationSidebar
+            open={isConversationsOpen}
+            conversations={conversations}
+            activeConversationId={activeConversationId}
+            onSelect={handleSelectConversation}
+            onCreate={handleCreateConversation}
+            onRename={handleRenameConversation}
+            onDuplicate={handleDuplicateConversation}
+            onDelete={handleDeleteConversation}
+          />
+
           <div className='sticky top-0 flex h-full w-full flex-col overflow-hidden'>
             <Header
               onExport={handleExport}
+              onImport={handleImport}
+              onShare={handleShare}
+              onOpenSearch={() => setIsSearchOpen(true)}
               onResetMessages={handleResetMessages}
+              onToggleConversations={() =>
+                setIsConversationsOpen((prev) => !prev)
+              }
+              isComparing={isComparisonMode}
+              onToggleComparison={handleToggleComparison}
+              isSweeping={isSweepMode}
+              onToggleSweep={handleToggleSweep}
+              onOpenPromptLibrary={() => setIsPromptLibraryOpen(true)}
+              onOpenBatchRun={() => setIsBatchRunOpen(true)}
+              onOpenEvals={() => setIsEvalsOpen(true)}
+              onOpenRunHistory={() => setIsRunHistoryOpen(true)}
+              onOpenCode={() => setIsCodeOpen(true)}
+              usage={usageTotal}
+              onOpenPriceTable={() => setIsPriceTableOpen(true)}
             />
 
-            <div className='flex-1 overflow-hidden'>
-              <MessageList
-                messages={messages}
-                generatingMessage={generatingMessage}
-                isRunning={isRunning}
-                onDragEnd={handleDragEnd}
-                onEdit={handleEdit}
-                onDelete={handleDelete}
-              />
+            <div className='flex flex-1 overflow-hidden'>
+              <div className='min-w-0 flex-1'>
+                <MessageList
+                  messages={messages}
+                  branches={branches}
+                  generatingMessage={generatingMessage}
+                  isRunning={isRunning}
+                  chatSettings={chatSettings}
+                  generate={generate}
+                  onDragEnd={handleDragEnd}
+                  onEdit={handleEdit}
+                  onDelete={handleDelete}
+                  highlightedId={highlightedMessageId}
+                />
+              </div>
+              {isComparisonMode && (
+                <div className='w-3/5 min-w-0'>
+                  <ComparisonPanel
+                    // Compared models share the provider of the selected model
+                    models={models.filter(
+                      (model) => model.provider === providerId
+                    )}
+                    selectedModels={comparisonModels}
+                    results={comparisonResults}
+                    onSelectedModelsChange={setComparisonModels}
+                    onStop={stopComparison}
+                    onKeep={handleKeepComparison}
+                    onClose={closeComparison}
+                  />
+                </div>
+              )}
+              {isSweepMode && (
+                <div className='w-3/5 min-w-0'>
+                  <SweepPanel
+                    config={sweepConfig}
+                    results={sweepResults}
+                    runConfig={sweepRunConfig}
+                    onConfigChange={setSweepConfig}
+                    onStop={stopSweepCell}
+                    onKeep={handleKeepSweep}
+                    onClose={closeSweep}
+                  />
+                </div>
+              )}
             </div>
 
             <InputSection
@@ -361,8 +856,9 @@ export default function Component() {
               isExpanded={isExpanded}
               isAnimating={isAnimating}
               newMessage={newMessage}
-              isRunning={isRunning}
+              isRunning={isRunning || isComparing || isSweeping}
               isUploading={isUploading}
+              canUploadImages={capabilities.vision}
               uiMode={uiMode}
               isPreviewOpen={isPreviewOpen}
               onMouseDown={handleMouseDown}
@@ -376,7 +872,9 @@ export default function Component() {
               }
               onToggleExpand={handleToggleExpand}
               onRun={handleRun}
-              onStop={stop}
+              onStop={
+                isSweeping ? stopSweep : isComparing ? stopAllComparisons : stop
+              }
               onAddMessage={() => handleAddMessage(newMessage)}
               onFileUpload={handleFileUpload}
               onDeleteFile={handleDeleteFile}
@@ -388,11 +886,69 @@ export default function Component() {
             settings={settings}
             uiMode={uiMode}
             models={models}
+            providers={providers}
+            capabilities={capabilities}
+            serverKey={serverKey}
+            tools={playgroundTools}
             onSettingsChange={setSettings}
+            onToolsChange={setPlaygroundTools}
             onUiModeChange={(value) => setUiMode(value ? 'expert' : 'beginner')}
             onResetSettings={handleResetSettings}
+            onOpenProviders={() => setIsProvidersOpen(true)}
           />
         </SidebarProvider>
+        <PromptLibraryDialog
+          open={isPromptLibraryOpen}
+          templates={templates}
+          messages={messages}
+          onOpenChange={setIsPromptLibraryOpen}
+          onSave={handleSaveTemplate}
+          onDelete={handleDeleteTemplate}
+          onApply={handleApplyTemplate}
+        />
+        <BatchRunDialog
+          open={isBatchRunOpen}
+          messages={messages}
+          settings={chatSettings}
+          serverKeyEnabled={serverKey.enabled}
+          onOpenChange={setIsBatchRunOpen}
+        />
+        <EvalSuiteDialog
+          open={isEvalsOpen}
+          messages={messages}
+          settings={chatSettings}
+          models={models}
+          providers={providers}
+          serverKeyEnabled={serverKey.enabled}
+          onOpenChange={setIsEvalsOpen}
+        />
+        <RunHistoryDialog
+          open={isRunHistoryOpen}
+          onOpenChange={setIsRunHistoryOpen}
+        />
+        <PriceTableDialog
+          open={isPriceTableOpen}
+          models={usedModels}
+          onOpenChange={setIsPriceTableOpen}
+        />
+        <SearchPalette
+          open={isSearchOpen}
+          conversations={conversations}
+          onOpenChange={setIsSearchOpen}
+          onSelect={handleSearchSelect}
+        />
+        <CodeDialog
+          open={isCodeOpen}
+          messages={messages}
+          settings={settings}
+          tools={tools}
+          providerBaseUrl={chatSettings.provider?.baseUrl}
+          onOpenChange={setIsCodeOpen}
+        />
+        <ProvidersDialog
+          open={isProvidersOpen}
+          onOpenChange={setIsProvidersOpen}
+        />
       </div>
     </ClientOnly>
   )
@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Client view of a shared conversation.
+ * Shows the messages read-only and can fork them into the local playground.
+ */
+
+'use client'
+
+import { ClientOnly } from '@/components/client-only'
+import { MessageList } from '@/components/playground/message-list'
+import { Button } from '@/components/ui/button'
+import { conversationStore } from '@/db/conversation-store'
+import type { SharedConversation } from '@/db/share-store'
+import { useRouter } from '@/i18n/routing'
+import { activeConversationIdAtom } from '@/stores/playground'
+import { useSetAtom } from 'jotai'
+import { GitFork, Loader2 } from 'lucide-react'
+import { useFormatter, useTranslations } from 'next-intl'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+/**
+ * Handlers of the read-only message list, which never calls them
+ */
+const noop = () => {}
+
+/**
+ * Props interface for the SharedConversationView component
+ * @interface SharedConversationViewProps
+ * @property {SharedConversation} snapshot - The shared conversation
+ */
+interface SharedConversationViewProps {
+  snapshot: SharedConversation
+}
+
+/**
+ * Read-only view of a shared conversation with a fork button.
+ * Forking copies the messages into a new local conversation and opens it
+ * in the playground.
+ *
+ * @component
+ * @param {SharedConversationViewProps} props - Component props
+ * @returns {JSX.Element} Rendered view
+ */
+export function SharedConversationView({
+  snapshot,
+}: SharedConversationViewProps) {
+  const t = useTranslations('playground')
+  const format = useFormatter()
+  const router = useRouter()
+  const setActiveConversationId = useSetAtom(activeConversationIdAtom)
+  const [isForking, setIsForking] = useState(false)
+
+  const handleFork = async () => {
+    setIsForking(true)
+    try {
+      const conversation = await conversationStore.createFromMessages(
+        snapshot.title,
+        snapshot.messages
+      )
+      setActiveConversationId(conversation.id)
+      router.push('/')
+    } catch (error) {
+      toast.error(t('share.forkFailed', { error: (error as Error).message }))
+      setIsForking(false)
+    }
+  }
+
+  return (
+    <ClientOnly>
+      <div className='flex h-screen flex-col'>
+        <header className='flex items-center justify-between gap-4 border-b px-6 py-3'>
+          <div className='min-w-0'>
+            <h1 className='truncate text-lg font-semibold'>
+              {snapshot.title || t('share.untitled')}
+            </h1>
+            <p className='text-xs text-gray-500'>
+              {t('share.sharedAt', {
+                date: format.dateTime(snapshot.createdAt, {
+                  dateStyle: 'medium',
+                  timeStyle: 'short',
+                }),
+              })}
+            </p>
+          </div>
+          <Button onClick={handleFork} disabled={isForking}>
+            {isForking ? (
+              <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+            ) : (
+              <GitFork className='mr-2 h-4 w-4' />
+            )}
+            {t('share.fork')}
+          </Button>
+        </header>
+        <div className='min-h-0 flex-1'>
+          <MessageList
+            messages={snapshot.messages}
+            branches={{}}
+            generatingMessage={null}
+            isRunning={false}
+            onDragEnd={noop}
+            onEdit={noop}
+            onDelete={noop}
+            readOnly
+          />
+        </div>
+      </div>
+    </ClientOnly>
+  )
+}
@@ -0,0 +1,28 @@
+/**
+ * @fileoverview Read-only page of a shared conversation snapshot.
+ */
+
+import { shareStore } from '@/db/share-store'
+import { notFound } from 'next/navigation'
+import { SharedConversationView } from './_components/shared-conversation-view'
+
+/**
+ * Renders the snapshot with the given ID, or the not found page.
+ *
+ * @component
+ * @param {Object} props - Page props
+ * @param {Object} props.params - Route parameters with the share ID
+ * @returns {Promise<JSX.Element>} Rendered page
+ */
+export default async function SharePage({
+  params: { id },
+}: {
+  params: { id: string }
+}) {
+  const snapshot = await shareStore.get(id)
+  if (!snapshot) {
+    notFound()
+  }
+
+  return <SharedConversationView snapshot={snapshot} />
+}
@@ -0,0 +1,24 @@
+/**
+ * @fileoverview Route handler reading shared conversation snapshots.
+ */
+
+import { shareStore } from '@/db/share-store'
+
+/**
+ * Returns a conversation snapshot.
+ *
+ * @param {Request} _req - Incoming request
+ * @param {Object} context - Route context
+ * @param {Object} context.params - Route parameters with the share ID
+ * @returns {Promise<Response>} The snapshot, or 404 if it does not exist
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  const snapshot = await shareStore.get(params.id)
+  if (!snapshot) {
+    return Response.json({ error: 'Not found' }, { status: 404 })
+  }
+  return Response.json(snapshot)
+}
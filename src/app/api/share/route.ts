@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Route handler creating shared conversation snapshots.
+ */
+
+import { getQuotaClientId, UNTRUSTED_CLIENT_ID } from '@/db/quota-store'
+import { ShareError, shareStore } from '@/db/share-store'
+import { parseConversationJson } from '@/utils/conversation-file'
+import { logger } from '@/utils/logger'
+
+/**
+ * Maximum size of a shared conversation in bytes
+ * @const
+ */
+const MAX_SHARE_SIZE = 5 * 1024 * 1024
+
+/**
+ * Saves a conversation snapshot.
+ * The body is a JSON object with a `title` and a `messages` array, messages
+ * are read like an imported JSON file so only known fields and web or data
+ * file URLs are stored. Shares are rate limited per client, like chat quotas;
+ * without a per-client key only the storage limit applies, as one shared
+ * limit would let a single client block sharing for everyone.
+ *
+ * @param {Request} req - Request with the conversation as body
+ * @returns {Promise<Response>} `{ id }` of the snapshot, or `{ error }`
+ */
+export async function POST(req: Request) {
+  try {
+    const clientId = getQuotaClientId()
+    if (clientId !== UNTRUSTED_CLIENT_ID) shareStore.acquire(clientId)
+  } catch (error) {
+    if (!(error instanceof ShareError)) throw error
+    return Response.json({ error: error.message }, { status: 429 })
+  }
+
+  const text = await req.text()
+  if (text.length > MAX_SHARE_SIZE) {
+    return Response.json({ error: 'Conversation too large' }, { status: 413 })
+  }
+
+  let conversation
+  try {
+    conversation = parseConversationJson(text)
+  } catch (error) {
+    return Response.json({ error: (error as Error).message }, { status: 400 })
+  }
+  if (conversation.messages.length === 0) {
+    return Response.json({ error: 'No messages to share' }, { status: 400 })
+  }
+
+  try {
+    const { id } = await shareStore.create(
+      conversation.title ?? '',
+      conversation.messages
+    )
+    return Response.json({ id })
+  } catch (error) {
+    if (error instanceof ShareError) {
+      logger.warn('Share refused', {
+        context: { code: error.code },
+        module: 'ShareRoute',
+      })
+      return Response.json({ error: error.message }, { status: 507 })
+    }
+    logger.error('Failed to share conversation', error as Error, {
+      module: 'ShareRoute',
+    })
+    return Response.json({ error: 'Failed to save' }, { status: 500 })
+  }
+}
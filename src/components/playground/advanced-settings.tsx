@@ -0,0 +1,290 @@
+/**
+ * @fileoverview Advanced sampling settings of the settings sidebar.
+ * Stop sequences, seed, top-k, logit bias and the number of returned logprobs.
+ */
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { TooltipButton } from '@/components/ui/tooltip-button'
+import { TooltipHelpIcon } from '@/components/ui/tooltip-help-icon'
+import { PlaygroundLogitBias } from '@/stores/playground'
+import { isValidLogitBiasToken, MAX_LOGIT_BIAS } from '@/utils/logit-bias'
+import { cn } from '@/utils/tailwindcss'
+import { Plus, Trash2, X } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { useState } from 'react'
+
+/**
+ * Maximum number of stop sequences accepted by the API
+ * @const
+ */
+const MAX_STOP_SEQUENCES = 4
+
+/**
+ * Maximum number of alternatives per token accepted by the API
+ * @const
+ */
+const MAX_TOP_LOGPROBS = 20
+
+/**
+ * Settings edited by the advanced group
+ * @interface AdvancedSettingsValues
+ */
+interface AdvancedSettingsValues {
+  stopSequences?: string[]
+  seed?: number
+  topK?: number
+  logitBias?: PlaygroundLogitBias[]
+  topLogprobs?: number
+}
+
+/**
+ * Props interface for the AdvancedSettings component
+ * @interface AdvancedSettingsProps
+ * @property {AdvancedSettingsValues} settings - Current settings
+ * @property {Function} onSettingsChange - Handler receiving the changed settings
+ * @property {boolean} [supportsLogprobs] - Whether the model returns log probabilities
+ */
+interface AdvancedSettingsProps<T extends AdvancedSettingsValues> {
+  settings: T
+  onSettingsChange: (settings: T) => void
+  supportsLogprobs?: boolean
+}
+
+/**
+ * Parses an optional integer input, empty means not set.
+ */
+const parseOptionalInteger = (value: string) =>
+  value.trim() === '' ? undefined : Math.trunc(Number(value))
+
+/**
+ * Label row with a help tooltip, like the other settings.
+ */
+const SettingLabel = ({
+  label,
+  description,
+  value,
+}: {
+  label: string
+  description: string
+  value?: string | number
+}) => (
+  <div className='flex items-center justify-between'>
+    <div className='flex items-center gap-1'>
+      <Label className='text-sm font-medium text-gray-700'>{label}</Label>
+      <TooltipHelpIcon content={description} />
+    </div>
+    {value !== undefined && (
+      <span className='text-sm text-gray-500'>{value}</span>
+    )}
+  </div>
+)
+
+/**
+ * Editors of the advanced sampling settings.
+ *
+ * @component
+ * @param {AdvancedSettingsProps} props - Component props
+ * @returns {JSX.Element} Rendered settings
+ */
+export function AdvancedSettings<T extends AdvancedSettingsValues>({
+  settings,
+  onSettingsChange,
+  supportsLogprobs = true,
+}: AdvancedSettingsProps<T>) {
+  const t = useTranslations('playground')
+  const [stopInput, setStopInput] = useState('')
+
+  const stopSequences = settings.stopSequences ?? []
+  const logitBias = settings.logitBias ?? []
+  const topLogprobs = settings.topLogprobs ?? 5
+
+  const update = (changes: Partial<AdvancedSettingsValues>) =>
+    onSettingsChange({ ...settings, ...changes })
+
+  const addStopSequence = () => {
+    // Escapes let users enter line breaks, a common stop sequence
+    const sequence = stopInput.replace(/\\n/g, '\n').replace(/\\t/g, '\t')
+    if (!sequence || stopSequences.includes(sequence)) return
+    update({ stopSequences: [...stopSequences, sequence] })
+    setStopInput('')
+  }
+
+  const updateLogitBias = (index: number, entry: PlaygroundLogitBias) =>
+    update({
+      logitBias: logitBias.map((item, i) => (i === index ? entry : item)),
+    })
+
+  return (
+    <div className='space-y-6'>
+      <div>
+        <SettingLabel
+          label={t('settings.advanced.stopSequences')}
+          description={t('settings.advanced.stopSequencesDesc')}
+        />
+        {stopSequences.length > 0 && (
+          <div className='mt-2 flex flex-wrap gap-1'>
+            {stopSequences.map((sequence) => (
+              <Badge
+                key={sequence}
+                variant='secondary'
+                className='gap-1 font-mono'
+              >
+                {JSON.stringify(sequence).slice(1, -1)}
+                <button
+                  type='button'
+                  aria-label={t('settings.advanced.removeStopSequence')}
+                  onClick={() =>
+                    update({
+                      stopSequences: stopSequences.filter(
+                        (item) => item !== sequence
+                      ),
+                    })
+                  }
+                >
+                  <X className='h-3 w-3' />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <Input
+          value={stopInput}
+          disabled={stopSequences.length >= MAX_STOP_SEQUENCES}
+          onChange={(e) => setStopInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              addStopSequence()
+            }
+          }}
+          onBlur={addStopSequence}
+          placeholder={t('settings.advanced.stopSequencesPlaceholder', {
+            max: MAX_STOP_SEQUENCES,
+          })}
+          className='mt-2 font-mono'
+        />
+      </div>
+
+      <div>
+        <SettingLabel
+          label={t('settings.advanced.seed')}
+          description={t('settings.advanced.seedDesc')}
+        />
+        <Input
+          type='number'
+          step={1}
+          value={settings.seed ?? ''}
+          onChange={(e) =>
+            update({ seed: parseOptionalInteger(e.target.value) })
+          }
+          placeholder={t('settings.advanced.seedPlaceholder')}
+          className='mt-2'
+        />
+      </div>
+
+      <div>
+        <SettingLabel
+          label={t('settings.advanced.topK')}
+          description={t('settings.advanced.topKDesc')}
+        />
+        <Input
+          type='number'
+          min={1}
+          step={1}
+          value={settings.topK ?? ''}
+          onChange={(e) =>
+            update({ topK: parseOptionalInteger(e.target.value) })
+          }
+          placeholder={t('settings.advanced.topKPlaceholder')}
+          className='mt-2'
+        />
+      </div>
+
+      {supportsLogprobs && (
+        <div>
+          <SettingLabel
+            label={t('settings.advanced.topLogprobs')}
+            description={t('settings.advanced.topLogprobsDesc')}
+            value={topLogprobs}
+          />
+          <Slider
+            className='mt-2'
+            value={[topLogprobs]}
+            max={MAX_TOP_LOGPROBS}
+            min={0}
+            step={1}
+            onValueChange={(value) => update({ topLogprobs: value[0] })}
+          />
+        </div>
+      )}
+
+      <div>
+        <SettingLabel
+          label={t('settings.advanced.logitBias')}
+          description={t('settings.advanced.logitBiasDesc')}
+        />
+        <div className='mt-2 space-y-2'>
+          {logitBias.map((entry, index) => (
+            <div key={index} className='flex items-center gap-2'>
+              <Input
+                value={entry.token}
+                onChange={(e) =>
+                  updateLogitBias(index, { ...entry, token: e.target.value })
+                }
+                placeholder={t('settings.advanced.tokenId')}
+                className={cn(
+                  'h-8 flex-1 font-mono',
+                  entry.token &&
+                    !isValidLogitBiasToken(entry) &&
+                    'border-red-500'
+                )}
+              />
+              <Input
+                type='number'
+                min={-MAX_LOGIT_BIAS}
+                max={MAX_LOGIT_BIAS}
+                value={entry.bias}
+                onChange={(e) =>
+                  updateLogitBias(index, {
+                    ...entry,
+                    bias: Number(e.target.value),
+                  })
+                }
+                aria-label={t('settings.advanced.bias')}
+                className='h-8 w-20'
+              />
+              <TooltipButton
+                variant='ghost'
+                size='icon'
+                className='h-6 w-6 shrink-0'
+                onClick={() =>
+                  update({
+                    logitBias: logitBias.filter((_, i) => i !== index),
+                  })
+                }
+                tooltipContent={t('settings.advanced.removeLogitBias')}
+              >
+                <Trash2 className='h-3.5 w-3.5' />
+              </TooltipButton>
+            </div>
+          ))}
+          <Button
+            variant='outline'
+            size='sm'
+            className='w-full'
+            onClick={() =>
+              update({ logitBias: [...logitBias, { token: '', bias: 0 }] })
+            }
+          >
+            <Plus className='mr-1 h-4 w-4' />
+            {t('settings.advanced.addLogitBias')}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
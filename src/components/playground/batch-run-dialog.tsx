@@ -0,0 +1,371 @@
+/**
+ * @fileoverview Batch run dialog.
+ * Runs the current conversation once per row of an uploaded CSV or JSONL file
+ * and collects the answers in an exportable table.
+ */
+
+import { ChatSettings } from '@/actions/chat'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { BatchRunResult, useBatchRun } from '@/hooks/use-batch-run'
+import {
+  BATCH_RUN_LIMITS,
+  batchRunOptionsAtom,
+  PlaygroundMessage,
+} from '@/stores/playground'
+import { Dataset, parseDataset, toCsv } from '@/utils/dataset'
+import { formatDuration } from '@/utils/format'
+import { cn } from '@/utils/tailwindcss'
+import { extractVariables } from '@/utils/template'
+import { saveAs } from 'file-saver'
+import { useAtom } from 'jotai'
+import { Download, FileUp, Play, Square } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { useMemo, useRef, useState } from 'react'
+import { toast } from 'sonner'
+
+/**
+ * Props interface for the BatchRunDialog component
+ * @interface BatchRunDialogProps
+ * @property {boolean} open - Whether the dialog is open
+ * @property {PlaygroundMessage[]} messages - Conversation used as template
+ * @property {ChatSettings} settings - Generation settings and configuration
+ * @property {boolean} serverKeyEnabled - Whether rows may run without an own API key
+ * @property {Function} onOpenChange - Handler for opening and closing the dialog
+ */
+interface BatchRunDialogProps {
+  open: boolean
+  messages: PlaygroundMessage[]
+  settings: ChatSettings
+  serverKeyEnabled: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Text colors of the row statuses.
+ * @const
+ */
+const STATUS_CLASS_NAMES: Record<BatchRunResult['status'], string> = {
+  pending: 'text-gray-400',
+  running: 'text-blue-500',
+  done: 'text-green-600',
+  error: 'text-red-500',
+  stopped: 'text-amber-600',
+}
+
+/**
+ * Keeps a number input within bounds.
+ */
+const clamp = (value: number, { min, max }: { min: number; max: number }) =>
+  Math.min(Math.max(Number.isFinite(value) ? value : min, min), max)
+
+/**
+ * Dialog for running the conversation over a dataset.
+ * Results stay available after closing the dialog until the next run.
+ *
+ * @component
+ * @param {BatchRunDialogProps} props - Component props
+ * @returns {JSX.Element} Rendered dialog
+ */
+export function BatchRunDialog({
+  open,
+  messages,
+  settings,
+  serverKeyEnabled,
+  onOpenChange,
+}: BatchRunDialogProps) {
+  const t = useTranslations('playground')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState('')
+  const [dataset, setDataset] = useState<Dataset | null>(null)
+  const [options, setOptions] = useAtom(batchRunOptionsAtom)
+  const { results, isRunning, completed, run, stop, clear } = useBatchRun()
+
+  const variables = useMemo(
+    () => extractVariables(messages.map((msg) => msg.content)),
+    [messages]
+  )
+  const missingColumns = dataset
+    ? variables.filter((variable) => !dataset.columns.includes(variable))
+    : []
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const parsed = parseDataset(await file.text(), file.name)
+      if (parsed.rows.length === 0) {
+        toast.error(t('batchRun.emptyFile'))
+        return
+      }
+      setDataset(parsed)
+      setFileName(file.name)
+      clear()
+    } catch (error) {
+      toast.error(t('batchRun.parseError', { error: (error as Error).message }))
+    }
+  }
+
+  const handleRun = () => {
+    if (!dataset) return
+    if (!settings.apiKey && !settings.provider && !serverKeyEnabled) {
+      toast.error(t('settings.apiKeyRequired'))
+      return
+    }
+    run(messages, settings, dataset, options)
+  }
+
+  const handleExport = () => {
+    if (!dataset) return
+    const columns = [
+      ...dataset.columns,
+      'output',
+      'status',
+      'error',
+      'attempts',
+      'prompt_tokens',
+      'completion_tokens',
+      'duration_ms',
+    ]
+    const csv = toCsv(
+      columns,
+      results.map((result) => ({
+        ...result.row,
+        output: result.output,
+        status: result.status,
+        error: result.status === 'error' ? result.error : '',
+        attempts: result.attempts,
+        prompt_tokens: result.usage?.promptTokens,
+        completion_tokens: result.usage?.completionTokens,
+        duration_ms: result.duration,
+      }))
+    )
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' })
+    saveAs(blob, `batch-run-${new Date().toISOString().slice(0, 10)}.csv`)
+  }
+
+  const total = results.length || dataset?.rows.length || 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className='flex max-h-[90vh] max-w-5xl flex-col'>
+        <DialogHeader>
+          <DialogTitle>{t('batchRun.title')}</DialogTitle>
+          <DialogDescription>{t('batchRun.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className='flex flex-wrap items-end gap-4'>
+          <div className='space-y-1.5'>
+            <Label>{t('batchRun.dataset')}</Label>
+            <input
+              ref={fileInputRef}
+              type='file'
+              accept='.csv,.jsonl,.json'
+              className='hidden'
+              onChange={handleFileChange}
+            />
+            <Button
+              variant='outline'
+              disabled={isRunning}
+              onClick={() => fileInputRef.current?.click()}
+              className='flex max-w-64'
+            >
+              <FileUp className='mr-2 h-4 w-4 shrink-0' />
+              <span className='truncate'>
+                {fileName || t('batchRun.chooseFile')}
+              </span>
+            </Button>
+          </div>
+          <div className='w-28 space-y-1.5'>
+            <Label>{t('batchRun.concurrency')}</Label>
+            <Input
+              type='number'
+              min={BATCH_RUN_LIMITS.concurrency.min}
+              max={BATCH_RUN_LIMITS.concurrency.max}
+              value={options.concurrency}
+              disabled={isRunning}
+              onChange={(e) =>
+                setOptions({
+                  ...options,
+                  concurrency: clamp(
+                    Number(e.target.value),
+                    BATCH_RUN_LIMITS.concurrency
+                  ),
+                })
+              }
+            />
+          </div>
+          <div className='w-28 space-y-1.5'>
+            <Label>{t('batchRun.retries')}</Label>
+            <Input
+              type='number'
+              min={BATCH_RUN_LIMITS.retries.min}
+              max={BATCH_RUN_LIMITS.retries.max}
+              value={options.retries}
+              disabled={isRunning}
+              onChange={(e) =>
+                setOptions({
+                  ...options,
+                  retries: clamp(
+                    Number(e.target.value),
+                    BATCH_RUN_LIMITS.retries
+                  ),
+                })
+              }
+            />
+          </div>
+          <div className='ml-auto flex gap-2'>
+            {isRunning ? (
+              <Button variant='outline' onClick={stop}>
+                <Square className='mr-2 h-4 w-4' />
+                {t('batchRun.stop')}
+              </Button>
+            ) : (
+              <Button disabled={!dataset} onClick={handleRun}>
+                <Play className='mr-2 h-4 w-4' />
+                {t('batchRun.run')}
+              </Button>
+            )}
+            <Button
+              variant='outline'
+              disabled={isRunning || completed === 0}
+              onClick={handleExport}
+            >
+              <Download className='mr-2 h-4 w-4' />
+              {t('batchRun.export')}
+            </Button>
+          </div>
+        </div>
+
+        {dataset && (
+          <div className='space-y-1 text-sm text-gray-500'>
+            <p>
+              {t('batchRun.datasetInfo', {
+                rows: dataset.rows.length,
+                columns: dataset.columns.join(', '),
+              })}
+            </p>
+            {variables.length === 0 ? (
+              <p className='text-amber-600'>{t('batchRun.noVariables')}</p>
+            ) : (
+              missingColumns.length > 0 && (
+                <p className='text-amber-600'>
+                  {t('batchRun.missingColumns', {
+                    columns: missingColumns.join(', '),
+                  })}
+                </p>
+              )
+            )}
+          </div>
+        )}
+
+        {results.length > 0 && (
+          <div className='space-y-1'>
+            <div className='flex justify-between text-xs text-gray-500'>
+              <span>{t('batchRun.progress', { completed, total })}</span>
+              <span>
+                {t('batchRun.failed', {
+                  count: results.filter((r) => r.status === 'error').length,
+                })}
+              </span>
+            </div>
+            <div className='h-2 overflow-hidden rounded-full bg-gray-200'>
+              <div
+                className='h-full bg-primary transition-all'
+                style={{ width: `${(completed / total) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className='min-h-0 flex-1 overflow-auto rounded-md border border-gray-200'>
+          {results.length === 0 ? (
+            <div className='p-6 text-center text-sm text-gray-500'>
+              {t('batchRun.empty')}
+            </div>
+          ) : (
+            <table className='w-full text-left text-sm'>
+              <thead className='sticky top-0 bg-gray-50 text-xs text-gray-500'>
+                <tr>
+                  <th className='px-3 py-2'>#</th>
+                  {variables.map((variable) => (
+                    <th key={variable} className='px-3 py-2 font-mono'>
+                      {variable}
+                    </th>
+                  ))}
+                  <th className='px-3 py-2'>{t('batchRun.output')}</th>
+                  <th className='px-3 py-2'>{t('batchRun.status')}</th>
+                  <th className='px-3 py-2'>{t('batchRun.metrics')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((result) => (
+                  <tr
+                    key={result.index}
+                    className='border-t border-gray-200 align-top'
+                  >
+                    <td className='px-3 py-2 text-gray-500'>
+                      {result.index + 1}
+                    </td>
+                    {variables.map((variable) => (
+                      <td
+                        key={variable}
+                        className='max-w-48 truncate px-3 py-2'
+                        title={result.row[variable]}
+                      >
+                        {result.row[variable]}
+                      </td>
+                    ))}
+                    <td className='max-w-md whitespace-pre-wrap break-words px-3 py-2'>
+                      {result.output}
+                      {result.error && result.status === 'error' && (
+                        <span className='text-red-500'>{result.error}</span>
+                      )}
+                    </td>
+                    <td
+                      className={cn(
+                        'whitespace-nowrap px-3 py-2',
+                        STATUS_CLASS_NAMES[result.status]
+                      )}
+                    >
+                      {t(`batchRun.statuses.${result.status}`)}
+                      {result.attempts > 1 && (
+                        <span className='ml-1 text-xs text-gray-400'>
+                          {t('batchRun.attempts', { count: result.attempts })}
+                        </span>
+                      )}
+                    </td>
+                    <td className='whitespace-nowrap px-3 py-2 text-xs text-gray-500'>
+                      {result.duration !== undefined &&
+                        formatDuration(result.duration)}
+                      {result.usage && (
+                        <div>
+                          {t('comparison.tokens', {
+                            prompt: result.usage.promptTokens,
+                            completion: result.usage.completionTokens,
+                          })}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview "View code" dialog.
+ * Shows the current conversation and settings as a ready-to-run API request.
+ */
+
+import { getChatBaseUrl } from '@/actions/chat'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { MarkdownRenderer } from '@/components/ui/markdown-renderer'
+import { PlaygroundMessage } from '@/stores/playground'
+import {
+  CODE_FENCE_LANGUAGES,
+  CODE_LANGUAGES,
+  CodeLanguage,
+  CodeSnippetOptions,
+  generateCodeSnippet,
+} from '@/utils/code-snippet'
+import { cn } from '@/utils/tailwindcss'
+import { ChatTool } from '@/utils/tools'
+import { useTranslations } from 'next-intl'
+import { useEffect, useMemo, useState } from 'react'
+
+/**
+ * Props interface for the CodeDialog component
+ * @interface CodeDialogProps
+ * @property {boolean} open - Whether the dialog is open
+ * @property {PlaygroundMessage[]} messages - Messages of the active conversation
+ * @property {CodeSnippetOptions['settings']} settings - Generation settings
+ * @property {ChatTool[]} tools - Tools sent with the request
+ * @property {string} [providerBaseUrl] - Base URL of a user-configured provider, the gateway's if not set
+ * @property {Function} onOpenChange - Handler for opening and closing the dialog
+ */
+interface CodeDialogProps {
+  open: boolean
+  messages: PlaygroundMessage[]
+  settings: CodeSnippetOptions['settings']
+  tools: ChatTool[]
+  providerBaseUrl?: string
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Dialog showing the request in the selected language.
+ * The API key is read from an environment variable and never shown.
+ *
+ * @component
+ * @param {CodeDialogProps} props - Component props
+ * @returns {JSX.Element} Rendered dialog
+ */
+export function CodeDialog({
+  open,
+  messages,
+  settings,
+  tools,
+  providerBaseUrl,
+  onOpenChange,
+}: CodeDialogProps) {
+  const t = useTranslations('playground')
+  const [language, setLanguage] = useState<CodeLanguage>('curl')
+  const [gatewayBaseUrl, setGatewayBaseUrl] = useState('')
+  const baseUrl = providerBaseUrl || gatewayBaseUrl
+
+  useEffect(() => {
+    if (open && !gatewayBaseUrl) {
+      getChatBaseUrl().then(setGatewayBaseUrl)
+    }
+  }, [open, gatewayBaseUrl])
+
+  const code = useMemo(
+    () =>
+      open && baseUrl
+        ? generateCodeSnippet(language, { baseUrl, messages, settings, tools })
+        : '',
+    [open, baseUrl, language, messages, settings, tools]
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className='flex max-h-[90vh] max-w-3xl flex-col'>
+        <DialogHeader>
+          <DialogTitle>{t('code.title')}</DialogTitle>
+          <DialogDescription>{t('code.description')}</DialogDescription>
+        </DialogHeader>
+        <div className='flex gap-2'>
+          {CODE_LANGUAGES.map((item) => (
+            <Button
+              key={item}
+              size='sm'
+              variant='outline'
+              className={cn(item === language && 'bg-accent text-primary')}
+              onClick={() => setLanguage(item)}
+            >
+              {t(`code.languages.${item}`)}
+            </Button>
+          ))}
+        </div>
+        <div className='min-h-0 flex-1 overflow-auto'>
+          {code && (
+            <MarkdownRenderer>
+              {`\`\`\`${CODE_FENCE_LANGUAGES[language]}\n${code}\n\`\`\``}
+            </MarkdownRenderer>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,301 @@
+/**
+ * @fileoverview Side-by-side model comparison panel.
+ * Shows the streamed answers of several models in parallel columns with
+ * per-column stop, latency and token usage, and lets the user keep one answer.
+ */
+
+import { Button } from '@/components/ui/button'
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import { MarkdownRenderer } from '@/components/ui/markdown-renderer'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { TooltipButton } from '@/components/ui/tooltip-button'
+import { ComparisonResult } from '@/hooks/use-model-comparison'
+import { COMPARISON_MODEL_LIMITS } from '@/stores/playground'
+import { formatDuration } from '@/utils/format'
+import { OutputValidation } from './output-validation'
+import { ReasoningBlock } from './reasoning-block'
+import { ToolCallCard } from './tool-call-card'
+import { cn } from '@/utils/tailwindcss'
+import { Check, CheckCheck, Columns3, Loader2, Square, X } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { memo } from 'react'
+
+/**
+ * Props interface for the ComparisonPanel component
+ * @interface ComparisonPanelProps
+ * @property {Array<{ id: string }>} models - Models available for selection
+ * @property {string[]} selectedModels - Models selected for comparison
+ * @property {ComparisonResult[]} results - Results of the latest comparison run
+ * @property {Function} onSelectedModelsChange - Handler for changes of the selection
+ * @property {Function} onStop - Handler for stopping a single model
+ * @property {Function} onKeep - Handler for adding a model's answer to the conversation
+ * @property {Function} onClose - Handler for leaving comparison mode
+ */
+interface ComparisonPanelProps {
+  models: Array<{ id: string }>
+  selectedModels: string[]
+  results: ComparisonResult[]
+  onSelectedModelsChange: (models: string[]) => void
+  onStop: (model: string) => void
+  onKeep: (result: ComparisonResult) => void
+  onClose: () => void
+}
+
+/**
+ * A single column of the comparison panel.
+ * @component
+ */
+const ComparisonColumn = memo(function ComparisonColumn({
+  model,
+  result,
+  onStop,
+  onKeep,
+}: {
+  model: string
+  result?: ComparisonResult
+  onStop: (model: string) => void
+  onKeep: (result: ComparisonResult) => void
+}) {
+  const t = useTranslations('playground')
+  const isRunning = result?.status === 'running'
+  const canKeep =
+    !!result &&
+    (result.status === 'done' || result.status === 'stopped') &&
+    (result.message.content.length > 0 || !!result.message.toolCalls?.length)
+
+  return (
+    <div className='flex min-h-0 flex-col rounded-lg bg-background shadow-sm ring-1 ring-gray-300'>
+      <div className='flex items-center justify-between gap-2 border-b border-gray-200 px-3 py-2'>
+        <span className='truncate text-sm font-medium'>{model}</span>
+        {isRunning ? (
+          <TooltipButton
+            variant='outline'
+            size='icon'
+            className='size-6 shrink-0 p-1'
+            onClick={() => onStop(model)}
+            tooltipContent={t('message.stopTooltip')}
+          >
+            <Square className='size-4' />
+          </TooltipButton>
+        ) : (
+          canKeep && (
+            <TooltipButton
+              variant='outline'
+              size='sm'
+              className='h-6 shrink-0 px-2 text-xs'
+              onClick={() => onKeep(result)}
+              tooltipContent={t('comparison.keepTooltip')}
+            >
+              <CheckCheck className='mr-1 size-3' />
+              {t('comparison.keep')}
+            </TooltipButton>
+          )
+        )}
+      </div>
+      {result && (
+        <div className='flex flex-wrap gap-x-3 gap-y-1 border-b border-gray-200 px-3 py-1.5 text-xs text-gray-500'>
+          {result.firstTokenAt && (
+            <span>
+              {t('comparison.firstToken', {
+                value: formatDuration(result.firstTokenAt - result.startedAt),
+              })}
+            </span>
+          )}
+          {result.finishedAt && (
+            <span>
+              {t('comparison.duration', {
+                value: formatDuration(result.finishedAt - result.startedAt),
+              })}
+            </span>
+          )}
+          {result.usage && (
+            <span>
+              {t('comparison.tokens', {
+                prompt: result.usage.promptTokens,
+                completion: result.usage.completionTokens,
+              })}
+            </span>
+          )}
+          {result.status === 'stopped' && (
+            <span className='text-amber-600'>{t('comparison.stopped')}</span>
+          )}
+        </div>
+      )}
+      <div className='min-h-0 flex-1 overflow-y-auto p-3 text-sm'>
+        {!result ? (
+          <p className='text-gray-400'>{t('comparison.waiting')}</p>
+        ) : result.status === 'error' ? (
+          <p className='text-red-500'>{result.error}</p>
+        ) : isRunning &&
+          result.message.content.length === 0 &&
+          !result.message.reasoning &&
+          !result.message.toolCalls?.length ? (
+          <div className='flex items-center gap-2 text-gray-500'>
+            <Loader2 className='h-4 w-4 animate-spin' />
+            <span>{t('generating')}</span>
+          </div>
+        ) : (
+          <>
+            {result.message.reasoning && (
+              <ReasoningBlock
+                reasoning={result.message.reasoning}
+                tokens={result.usage?.reasoningTokens}
+                isStreaming={isRunning && !result.message.content}
+              />
+            )}
+            <MarkdownRenderer>{result.message.content}</MarkdownRenderer>
+            {result.message.responseFormat &&
+              result.status === 'done' &&
+              !result.message.toolCalls?.length && (
+                <OutputValidation
+                  content={result.message.content}
+                  format={result.message.responseFormat}
+                />
+              )}
+            {result.message.toolCalls?.map((toolCall) => (
+              <ToolCallCard
+                key={toolCall.toolCallId}
+                toolCall={toolCall}
+                answered={false}
+              />
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  )
+})
+
+/**
+ * Panel showing the answers of several models side by side.
+ * The columns follow the current model selection; results of a run stay
+ * visible until the next run or until one of them is kept.
+ *
+ * @component
+ * @param {ComparisonPanelProps} props - Component props
+ * @returns {JSX.Element} Rendered comparison panel
+ */
+export function ComparisonPanel({
+  models,
+  selectedModels,
+  results,
+  onSelectedModelsChange,
+  onStop,
+  onKeep,
+  onClose,
+}: ComparisonPanelProps) {
+  const t = useTranslations('playground')
+  const columns = results.length
+    ? results.map((result) => result.model)
+    : selectedModels
+
+  const toggleModel = (id: string) => {
+    if (selectedModels.includes(id)) {
+      onSelectedModelsChange(selectedModels.filter((model) => model !== id))
+    } else if (selectedModels.length < COMPARISON_MODEL_LIMITS.max) {
+      onSelectedModelsChange([...selectedModels, id])
+    }
+  }
+
+  return (
+    <div className='flex h-full flex-col border-l border-gray-200'>
+      <div className='flex items-center justify-between gap-2 px-4 py-3'>
+        <div className='flex items-center gap-2'>
+          <Columns3 className='h-4 w-4 text-gray-500' />
+          <span className='text-sm font-semibold'>{t('comparison.title')}</span>
+        </div>
+        <div className='flex items-center gap-2'>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant='outline' size='sm' role='combobox'>
+                {t('comparison.selectedModels', {
+                  count: selectedModels.length,
+                  max: COMPARISON_MODEL_LIMITS.max,
+                })}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className='w-72 p-0' side='bottom' align='end'>
+              <Command>
+                <CommandInput
+                  placeholder={t('settings.searchModelPlaceholder')}
+                  className='px-3 py-2'
+                />
+                <CommandList className='max-h-[260px] overflow-y-auto'>
+                  <CommandEmpty className='px-3 py-2'>
+                    {t('settings.noModelFound')}
+                  </CommandEmpty>
+                  <CommandGroup>
+                    {models.map((model) => (
+                      <CommandItem
+                        key={model.id}
+                        value={model.id}
+                        onSelect={() => toggleModel(model.id)}
+                        disabled={
+                          !selectedModels.includes(model.id) &&
+                          selectedModels.length >= COMPARISON_MODEL_LIMITS.max
+                        }
+                        className='px-3 py-1.5'
+                      >
+                        <Check
+                          className={cn(
+                            'mr-2 h-4 w-4',
+                            selectedModels.includes(model.id)
+                              ? 'opacity-100'
+                              : 'opacity-0'
+                          )}
+                        />
+                        {model.id}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                </CommandList>
+              </Command>
+            </PopoverContent>
+          </Popover>
+          <TooltipButton
+            variant='ghost'
+            size='icon'
+            className='h-8 w-8'
+            onClick={onClose}
+            tooltipContent={t('comparison.close')}
+          >
+            <X className='h-4 w-4' />
+          </TooltipButton>
+        </div>
+      </div>
+      {columns.length === 0 ? (
+        <div className='flex flex-1 items-center justify-center p-6 text-center text-sm text-gray-500'>
+          {t('comparison.empty', { min: COMPARISON_MODEL_LIMITS.min })}
+        </div>
+      ) : (
+        <div
+          className='grid min-h-0 flex-1 gap-3 px-4 pb-4'
+          style={{
+            gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))`,
+          }}
+        >
+          {columns.map((model) => (
+            <ComparisonColumn
+              key={model}
+              model={model}
+              result={results.find((result) => result.model === model)}
+              onStop={onStop}
+              onKeep={onKeep}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Static rendering of a conversation for HTML and PDF export.
+ * Messages are rendered with the same MarkdownRenderer as the playground.
+ */
+
+import { MarkdownRenderer } from '@/components/ui/markdown-renderer'
+import { PlaygroundMessage } from '@/stores/playground'
+import {
+  AbstractIntlMessages,
+  NextIntlClientProvider,
+  useTranslations,
+} from 'next-intl'
+import { createRoot } from 'react-dom/client'
+
+/**
+ * Time given to asynchronous rendering like code highlighting and
+ * mermaid diagrams before the markup is captured, in milliseconds
+ * @const
+ */
+const RENDER_DELAY = 1500
+
+/**
+ * Props interface for the ConversationDocument component
+ * @interface ConversationDocumentProps
+ * @property {string} title - Conversation title
+ * @property {PlaygroundMessage[]} messages - Messages to render
+ */
+interface ConversationDocumentProps {
+  title: string
+  messages: PlaygroundMessage[]
+}
+
+/**
+ * Printable view of a conversation, one section per message.
+ *
+ * @component
+ * @param {ConversationDocumentProps} props - Component props
+ * @returns {JSX.Element} Rendered conversation
+ */
+export function ConversationDocument({
+  title,
+  messages,
+}: ConversationDocumentProps) {
+  const t = useTranslations('playground')
+
+  return (
+    <main className='mx-auto max-w-3xl space-y-4 p-8'>
+      {title && <h1 className='text-2xl font-semibold'>{title}</h1>}
+      {messages.map((message) => (
+        <section
+          key={message.id}
+          className='break-inside-avoid rounded-lg p-4 ring-1 ring-gray-300'
+        >
+          <div className='mb-2 flex gap-3 text-sm text-gray-500'>
+            <span>{t(`message.${message.role}`)}</span>
+            {message.model && <span className='text-xs'>{message.model}</span>}
+          </div>
+          <div className='space-y-3'>
+            {message.content && (
+              <MarkdownRenderer>{message.content}</MarkdownRenderer>
+            )}
+            {message.toolCalls?.map((call) => (
+              <pre
+                key={call.toolCallId}
+                className='overflow-x-auto rounded-md bg-gray-50 p-3 text-xs'
+              >
+                {`${call.toolName}(${JSON.stringify(call.args, null, 2)})`}
+              </pre>
+            ))}
+            {message.files?.map((file) =>
+              file.type === 'image' ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  key={file.url}
+                  src={file.url}
+                  alt={file.name}
+                  className='max-h-80 rounded-md'
+                />
+              ) : (
+                <a
+                  key={file.url}
+                  href={file.url}
+                  className='block text-sm text-primary underline'
+                >
+                  {file.name}
+                </a>
+              )
+            )}
+          </div>
+        </section>
+      ))}
+    </main>
+  )
+}
+
+/**
+ * Renders a conversation off-screen and returns its markup.
+ *
+ * @async
+ * @function
+ * @param {Object} options - Render options
+ * @param {string} options.title - Conversation title
+ * @param {PlaygroundMessage[]} options.messages - Messages to render
+ * @param {string} options.locale - Locale of the role labels
+ * @param {AbstractIntlMessages} options.intlMessages - Translations used by the renderer
+ * @returns {Promise<string>} Rendered HTML markup
+ */
+export const renderConversationDocument = async ({
+  title,
+  messages,
+  locale,
+  intlMessages,
+}: ConversationDocumentProps & {
+  locale: string
+  intlMessages: AbstractIntlMessages
+}) => {
+  const container = document.createElement('div')
+  container.style.position = 'fixed'
+  container.style.left = '-10000px'
+  container.style.width = '800px'
+  document.body.appendChild(container)
+
+  const root = createRoot(container)
+  try {
+    root.render(
+      <NextIntlClientProvider locale={locale} messages={intlMessages}>
+        <ConversationDocument title={title} messages={messages} />
+      </NextIntlClientProvider>
+    )
+    await new Promise((resolve) => setTimeout(resolve, RENDER_DELAY))
+    return container.innerHTML
+  } finally {
+    root.unmount()
+    container.remove()
+  }
+}
@@ -0,0 +1,791 @@
+/**
+ * @fileoverview Evaluation suite dialog.
+ * Edits suites of saved test cases with their assertions, runs them through the
+ * chat action and shows the pass/fail history per case and per model.
+ */
+
+import { ModelInfo } from '@/actions/models'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { TooltipButton } from '@/components/ui/tooltip-button'
+import { GenerationSettings } from '@/hooks/use-chat-generation'
+import { useEvalSuites } from '@/hooks/use-eval-suites'
+import {
+  PlaygroundEvalCase,
+  PlaygroundEvalRun,
+  PlaygroundEvalSuite,
+  PlaygroundMessage,
+  PlaygroundProvider,
+} from '@/stores/playground'
+import {
+  createAssertion,
+  EVAL_ASSERTION_TYPES,
+  EvalAssertion,
+  EvalAssertionType,
+} from '@/utils/eval'
+import { formatDuration } from '@/utils/format'
+import { DEFAULT_PROVIDER_ID } from '@/utils/providers'
+import { cn } from '@/utils/tailwindcss'
+import {
+  Check,
+  FlaskConical,
+  MessageSquarePlus,
+  Play,
+  Plus,
+  Square,
+  Trash2,
+  X,
+} from 'lucide-react'
+import { useFormatter, useTranslations } from 'next-intl'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * Editable fields of a suite.
+ */
+type SuiteDraft = Pick<
+  PlaygroundEvalSuite,
+  'name' | 'judgeModel' | 'judgeProviderId' | 'cases'
+> & { id?: string }
+
+/**
+ * Number of runs shown in the history.
+ * @const
+ */
+const HISTORY_RUNS = 10
+
+/**
+ * Returns the last user message of a case, to tell cases apart.
+ */
+const lastUserContent = (evalCase: PlaygroundEvalCase) =>
+  evalCase.messages.findLast((msg) => msg.role === 'user')?.content
+
+/**
+ * Props interface for the EvalSuiteDialog component
+ * @interface EvalSuiteDialogProps
+ * @property {boolean} open - Whether the dialog is open
+ * @property {PlaygroundMessage[]} messages - Messages of the active conversation
+ * @property {GenerationSettings} settings - Generation settings and configuration
+ * @property {ModelInfo[]} models - Models of all providers
+ * @property {PlaygroundProvider[]} providers - Configured providers
+ * @property {boolean} serverKeyEnabled - Whether cases may run without an own API key
+ * @property {Function} onOpenChange - Handler for opening and closing the dialog
+ */
+interface EvalSuiteDialogProps {
+  open: boolean
+  messages: PlaygroundMessage[]
+  settings: GenerationSettings
+  models: ModelInfo[]
+  providers: PlaygroundProvider[]
+  serverKeyEnabled: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Select of a model of any provider.
+ * Values combine the provider and the model, as in `providerId/model`.
+ * @component
+ */
+function ModelSelect({
+  model,
+  providerId,
+  models,
+  providers,
+  placeholder,
+  onChange,
+}: {
+  model: string
+  providerId: string
+  models: ModelInfo[]
+  providers: PlaygroundProvider[]
+  placeholder?: string
+  onChange: (model: string, providerId: string) => void
+}) {
+  const t = useTranslations('playground')
+  const groups = [
+    { id: DEFAULT_PROVIDER_ID, name: t('providers.gateway') },
+    ...providers,
+  ]
+    .map((provider) => ({
+      ...provider,
+      models: models.filter((item) => item.provider === provider.id),
+    }))
+    .filter((group) => group.models.length > 0)
+  const listed = models.some(
+    (item) => item.id === model && item.provider === providerId
+  )
+
+  return (
+    <Select
+      value={model ? `${providerId}/${model}` : 'none'}
+      onValueChange={(value) => {
+        if (value === 'none') {
+          onChange('', DEFAULT_PROVIDER_ID)
+          return
+        }
+        const separator = value.indexOf('/')
+        onChange(value.slice(separator + 1), value.slice(0, separator))
+      }}
+    >
+      <SelectTrigger className='min-w-0'>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {placeholder && <SelectItem value='none'>{placeholder}</SelectItem>}
+        {model && !listed && (
+          <SelectItem value={`${providerId}/${model}`}>{model}</SelectItem>
+        )}
+        {groups.map((group) => (
+          <SelectGroup key={group.id}>
+            <SelectLabel>{group.name}</SelectLabel>
+            {group.models.map((item) => (
+              <SelectItem key={item.id} value={`${group.id}/${item.id}`}>
+                {item.id}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+/**
+ * Editor of a single assertion.
+ * @component
+ */
+function AssertionEditor({
+  assertion,
+  onChange,
+  onRemove,
+}: {
+  assertion: EvalAssertion
+  onChange: (assertion: EvalAssertion) => void
+  onRemove: () => void
+}) {
+  const t = useTranslations('playground')
+
+  return (
+    <div className='flex items-start gap-2'>
+      <Select
+        value={assertion.type}
+        onValueChange={(type) =>
+          onChange(createAssertion(assertion.id, type as EvalAssertionType))
+        }
+      >
+        <SelectTrigger className='w-40 shrink-0'>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {EVAL_ASSERTION_TYPES.map((type) => (
+            <SelectItem key={type} value={type}>
+              {t(`evals.assertions.${type}`)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {assertion.type === 'contains' && (
+        <Input
+          value={assertion.value}
+          placeholder={t('evals.containsPlaceholder')}
+          onChange={(e) => onChange({ ...assertion, value: e.target.value })}
+        />
+      )}
+      {assertion.type === 'regex' && (
+        <Input
+          className='font-mono'
+          value={assertion.pattern}
+          placeholder='/^yes/i'
+          onChange={(e) => onChange({ ...assertion, pattern: e.target.value })}
+        />
+      )}
+      {assertion.type === 'maxLength' && (
+        <Input
+          type='number'
+          min={1}
+          value={assertion.max}
+          onChange={(e) =>
+            onChange({ ...assertion, max: Math.max(1, Number(e.target.value)) })
+          }
+        />
+      )}
+      {assertion.type === 'jsonSchema' && (
+        <Textarea
+          className='min-h-[60px] font-mono text-xs'
+          value={assertion.schema}
+          placeholder='{"type": "object", "required": ["answer"]}'
+          onChange={(e) => onChange({ ...assertion, schema: e.target.value })}
+        />
+      )}
+      {assertion.type === 'judge' && (
+        <Textarea
+          className='min-h-[60px]'
+          value={assertion.rubric}
+          placeholder={t('evals.rubricPlaceholder')}
+          onChange={(e) => onChange({ ...assertion, rubric: e.target.value })}
+        />
+      )}
+      <TooltipButton
+        variant='ghost'
+        size='icon'
+        className='h-9 w-9 shrink-0'
+        onClick={onRemove}
+        tooltipContent={t('evals.removeAssertion')}
+      >
+        <X className='h-4 w-4' />
+      </TooltipButton>
+    </div>
+  )
+}
+
+/**
+ * Pass or fail mark of a case in a run.
+ * @component
+ */
+function ResultMark({ passed }: { passed?: boolean }) {
+  if (passed === undefined) {
+    return <span className='text-gray-300'>–</span>
+  }
+  return passed ? (
+    <Check className='mx-auto h-4 w-4 text-green-600' />
+  ) : (
+    <X className='mx-auto h-4 w-4 text-red-500' />
+  )
+}
+
+/**
+ * History of the runs of a suite: pass/fail per case and pass rate per model,
+ * followed by the answers of the latest run.
+ * @component
+ */
+function RunHistory({
+  suite,
+  runs,
+}: {
+  suite: PlaygroundEvalSuite
+  runs: PlaygroundEvalRun[]
+}) {
+  const t = useTranslations('playground')
+  const format = useFormatter()
+  const latest = runs[runs.length - 1]
+  const shown = runs.slice(-HISTORY_RUNS)
+  const models = Array.from(
+    new Set(runs.flatMap((run) => run.results.map((result) => result.model)))
+  )
+  const passRate = (run: PlaygroundEvalRun, model: string) => {
+    const results = run.results.filter((result) => result.model === model)
+    return results.length
+      ? `${results.filter((result) => result.passed).length}/${results.length}`
+      : '–'
+  }
+
+  return (
+    <div className='space-y-4'>
+      <div className='overflow-x-auto rounded-md border border-gray-200'>
+        <table className='w-full text-sm'>
+          <thead className='bg-gray-50 text-xs text-gray-500'>
+            <tr>
+              <th className='px-3 py-2 text-left'>{t('evals.case')}</th>
+              {shown.map((run) => (
+                <th
+                  key={run.id}
+                  className='whitespace-nowrap px-2 py-2 font-normal'
+                >
+                  {format.dateTime(new Date(run.startedAt), {
+                    dateStyle: 'short',
+                    timeStyle: 'short',
+                  })}
+                  {run.stopped && (
+                    <span className='ml-1 text-amber-600'>
+                      {t('evals.stopped')}
+                    </span>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {suite.cases.map((evalCase) => (
+              <tr key={evalCase.id} className='border-t border-gray-200'>
+                <td className='max-w-48 truncate px-3 py-1.5'>
+                  {evalCase.name || t('evals.untitledCase')}
+                </td>
+                {shown.map((run) => (
+                  <td key={run.id} className='px-2 py-1.5 text-center'>
+                    <ResultMark
+                      passed={
+                        run.results.find(
+                          (result) => result.caseId === evalCase.id
+                        )?.passed
+                      }
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {models.map((model) => (
+              <tr
+                key={model}
+                className='border-t border-gray-200 bg-gray-50 text-xs text-gray-600'
+              >
+                <td className='max-w-48 truncate px-3 py-1.5 font-mono'>
+                  {model}
+                </td>
+                {shown.map((run) => (
+                  <td key={run.id} className='px-2 py-1.5 text-center'>
+                    {passRate(run, model)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {latest && (
+        <div className='space-y-2'>
+          <Label>{t('evals.latestRun')}</Label>
+          {latest.results.map((result) => (
+            <div
+              key={result.caseId}
+              className={cn(
+                'space-y-1 rounded-md border p-2 text-sm',
+                result.passed ? 'border-green-200' : 'border-red-200'
+              )}
+            >
+              <div className='flex items-center justify-between gap-2'>
+                <span className='truncate font-medium'>
+                  {result.caseName || t('evals.untitledCase')}
+                </span>
+                <span className='shrink-0 text-xs text-gray-500'>
+                  {result.model}
+                  {result.duration !== undefined &&
+                    ` · ${formatDuration(result.duration)}`}
+                </span>
+              </div>
+              {result.error ? (
+                <p className='text-red-500'>{result.error}</p>
+              ) : (
+                <p className='line-clamp-4 whitespace-pre-wrap break-words text-gray-600'>
+                  {result.output}
+                </p>
+              )}
+              {result.assertions.map((assertion) => (
+                <p
+                  key={assertion.assertionId}
+                  className={cn(
+                    'text-xs',
+                    assertion.passed ? 'text-green-600' : 'text-red-500'
+                  )}
+                >
+                  {t(`evals.assertions.${assertion.type}`)}
+                  {assertion.detail && `: ${assertion.detail}`}
+                </p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Dialog listing the evaluation suites next to an editor for the selected one.
+ * Running a suite saves it first, the run is added to its history.
+ *
+ * @component
+ * @param {EvalSuiteDialogProps} props - Component props
+ * @returns {JSX.Element} Rendered dialog
+ */
+export function EvalSuiteDialog({
+  open,
+  messages,
+  settings,
+  models,
+  providers,
+  serverKeyEnabled,
+  onOpenChange,
+}: EvalSuiteDialogProps) {
+  const t = useTranslations('playground')
+  const { suites, runs, progress, saveSuite, deleteSuite, runSuite, stop } =
+    useEvalSuites()
+  const [draft, setDraft] = useState<SuiteDraft | null>(null)
+  const [useCurrentSystemPrompt, setUseCurrentSystemPrompt] = useState(false)
+
+  const suiteRuns = runs.filter((run) => run.suiteId === draft?.id)
+  const savedSuite = suites.find((suite) => suite.id === draft?.id)
+  const systemPrompt =
+    messages.find((msg) => msg.role === 'system')?.content ?? ''
+
+  const selectSuite = (suite: PlaygroundEvalSuite) => {
+    setDraft({
+      id: suite.id,
+      name: suite.name,
+      judgeModel: suite.judgeModel,
+      judgeProviderId: suite.judgeProviderId,
+      cases: suite.cases,
+    })
+  }
+
+  const updateCase = (id: string, update: Partial<PlaygroundEvalCase>) => {
+    if (!draft) return
+    setDraft({
+      ...draft,
+      cases: draft.cases.map((evalCase) =>
+        evalCase.id === id ? { ...evalCase, ...update } : evalCase
+      ),
+    })
+  }
+
+  // A new case answers the current conversation with the selected model
+  const addCaseFromConversation = () => {
+    if (!draft) return
+    setDraft({
+      ...draft,
+      cases: [
+        ...draft.cases,
+        {
+          id: uuidv4(),
+          name: '',
+          model: settings.model,
+          providerId: settings.providerId || DEFAULT_PROVIDER_ID,
+          messages: messages.map((msg) => ({ ...msg })),
+          assertions: [],
+        },
+      ],
+    })
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+    const saved = await saveSuite({ ...draft, name: draft.name.trim() })
+    setDraft({ ...draft, id: saved.id })
+    return saved
+  }
+
+  const handleDelete = () => {
+    if (draft?.id) {
+      deleteSuite(draft.id)
+    }
+    setDraft(null)
+  }
+
+  const handleRun = async () => {
+    // Cases without an enabled provider go through the gateway
+    const needsApiKey = draft?.cases.some(
+      (evalCase) =>
+        !providers.some(
+          (provider) => provider.id === evalCase.providerId && provider.enabled
+        )
+    )
+    if (needsApiKey && !settings.apiKey && !serverKeyEnabled) {
+      toast.error(t('settings.apiKeyRequired'))
+      return
+    }
+    const saved = await handleSave()
+    if (!saved) return
+    await runSuite(saved, settings, {
+      providers,
+      systemPrompt: useCurrentSystemPrompt ? systemPrompt : undefined,
+    })
+  }
+
+  const isRunning = !!progress
+  const canRun =
+    !!draft?.name.trim() &&
+    !!draft.cases.length &&
+    draft.cases.every((evalCase) => evalCase.model && evalCase.messages.length)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className='max-w-5xl'>
+        <DialogHeader>
+          <DialogTitle>{t('evals.title')}</DialogTitle>
+          <DialogDescription>{t('evals.description')}</DialogDescription>
+        </DialogHeader>
+        <div className='flex h-[70vh] gap-4'>
+          <div className='flex w-56 shrink-0 flex-col gap-2 border-r border-gray-200 pr-4'>
+            <Button
+              variant='outline'
+              size='sm'
+              disabled={isRunning}
+              onClick={() =>
+                setDraft({
+                  name: '',
+                  judgeModel: '',
+                  judgeProviderId: DEFAULT_PROVIDER_ID,
+                  cases: [],
+                })
+              }
+            >
+              <Plus className='mr-1 h-4 w-4' />
+              {t('evals.new')}
+            </Button>
+            <div className='min-h-0 flex-1 space-y-1 overflow-y-auto'>
+              {suites.length === 0 && (
+                <p className='px-1 py-4 text-center text-sm text-gray-500'>
+                  {t('evals.empty')}
+                </p>
+              )}
+              {suites.map((suite) => {
+                const last = runs.findLast((run) => run.suiteId === suite.id)
+                return (
+                  <div
+                    key={suite.id}
+                    className={cn(
+                      'flex cursor-pointer items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-accent',
+                      draft?.id === suite.id && 'bg-accent',
+                      isRunning && 'pointer-events-none opacity-60'
+                    )}
+                    onClick={() => selectSuite(suite)}
+                  >
+                    <FlaskConical className='h-4 w-4 shrink-0 text-gray-500' />
+                    <span className='flex-1 truncate'>
+                      {suite.name || t('evals.untitled')}
+                    </span>
+                    {last && (
+                      <span
+                        className={cn(
+                          'text-xs',
+                          last.results.every((result) => result.passed)
+                            ? 'text-green-600'
+                            : 'text-red-500'
+                        )}
+                      >
+                        {last.results.filter((result) => result.passed).length}/
+                        {last.results.length}
+                      </span>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
+          <div className='min-h-0 flex-1 overflow-y-auto pr-1'>
+            {draft ? (
+              <div className='space-y-4'>
+                <div className='flex gap-4'>
+                  <div className='flex-1 space-y-1.5'>
+                    <Label>{t('evals.name')}</Label>
+                    <Input
+                      value={draft.name}
+                      placeholder={t('evals.namePlaceholder')}
+                      onChange={(e) =>
+                        setDraft({ ...draft, name: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className='w-64 space-y-1.5'>
+                    <Label>{t('evals.judgeModel')}</Label>
+                    <ModelSelect
+                      model={draft.judgeModel}
+                      providerId={draft.judgeProviderId}
+                      models={models}
+                      providers={providers}
+                      placeholder={t('evals.judgeSameModel')}
+                      onChange={(judgeModel, judgeProviderId) =>
+                        setDraft({ ...draft, judgeModel, judgeProviderId })
+                      }
+                    />
+                  </div>
+                </div>
+
+                <div className='space-y-2'>
+                  <Label>{t('evals.cases')}</Label>
+                  {draft.cases.map((evalCase) => (
+                    <div
+                      key={evalCase.id}
+                      className='space-y-2 rounded-md border border-gray-200 p-3'
+                    >
+                      <div className='flex items-center gap-2'>
+                        <Input
+                          value={evalCase.name}
+                          placeholder={t('evals.caseNamePlaceholder')}
+                          onChange={(e) =>
+                            updateCase(evalCase.id, { name: e.target.value })
+                          }
+                        />
+                        <div className='w-64 shrink-0'>
+                          <ModelSelect
+                            model={evalCase.model}
+                            providerId={evalCase.providerId}
+                            models={models}
+                            providers={providers}
+                            onChange={(model, providerId) =>
+                              updateCase(evalCase.id, { model, providerId })
+                            }
+                          />
+                        </div>
+                        <TooltipButton
+                          variant='ghost'
+                          size='icon'
+                          className='h-9 w-9 shrink-0'
+                          onClick={() =>
+                            setDraft({
+                              ...draft,
+                              cases: draft.cases.filter(
+                                (item) => item.id !== evalCase.id
+                              ),
+                            })
+                          }
+                          tooltipContent={t('evals.removeCase')}
+                        >
+                          <Trash2 className='h-4 w-4' />
+                        </TooltipButton>
+                      </div>
+                      <div className='flex items-center justify-between gap-2 text-xs text-gray-500'>
+                        <span className='truncate'>
+                          {[
+                            t('evals.messageCount', {
+                              count: evalCase.messages.length,
+                            }),
+                            lastUserContent(evalCase),
+                          ]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </span>
+                        <Button
+                          variant='outline'
+                          size='sm'
+                          className='h-6 shrink-0 px-2 text-xs'
+                          disabled={messages.length === 0}
+                          onClick={() =>
+                            updateCase(evalCase.id, {
+                              messages: messages.map((msg) => ({ ...msg })),
+                            })
+                          }
+                        >
+                          {t('evals.replaceMessages')}
+                        </Button>
+                      </div>
+                      {evalCase.assertions.map((assertion) => (
+                        <AssertionEditor
+                          key={assertion.id}
+                          assertion={assertion}
+                          onChange={(updated) =>
+                            updateCase(evalCase.id, {
+                              assertions: evalCase.assertions.map((item) =>
+                                item.id === updated.id ? updated : item
+                              ),
+                            })
+                          }
+                          onRemove={() =>
+                            updateCase(evalCase.id, {
+                              assertions: evalCase.assertions.filter(
+                                (item) => item.id !== assertion.id
+                              ),
+                            })
+                          }
+                        />
+                      ))}
+                      <Button
+                        variant='outline'
+                        size='sm'
+                        onClick={() =>
+                          updateCase(evalCase.id, {
+                            assertions: [
+                              ...evalCase.assertions,
+                              createAssertion(uuidv4(), 'contains'),
+                            ],
+                          })
+                        }
+                      >
+                        <Plus className='mr-1 h-4 w-4' />
+                        {t('evals.addAssertion')}
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    disabled={messages.length === 0}
+                    onClick={addCaseFromConversation}
+                  >
+                    <MessageSquarePlus className='mr-1 h-4 w-4' />
+                    {t('evals.addCase')}
+                  </Button>
+                </div>
+
+                <div className='flex flex-wrap items-center justify-between gap-2'>
+                  <Button
+                    variant='outline'
+                    className='text-red-500'
+                    disabled={isRunning}
+                    onClick={handleDelete}
+                  >
+                    <Trash2 className='mr-1 h-4 w-4' />
+                    {draft.id ? t('evals.delete') : t('evals.cancel')}
+                  </Button>
+                  <div className='flex items-center gap-2'>
+                    <Switch
+                      id='eval-system-prompt'
+                      checked={useCurrentSystemPrompt}
+                      disabled={isRunning}
+                      onCheckedChange={setUseCurrentSystemPrompt}
+                    />
+                    <Label htmlFor='eval-system-prompt'>
+                      {t('evals.useCurrentSystemPrompt')}
+                    </Label>
+                  </div>
+                  <div className='flex gap-2'>
+                    <Button
+                      variant='outline'
+                      disabled={!draft.name.trim() || isRunning}
+                      onClick={handleSave}
+                    >
+                      {t('evals.save')}
+                    </Button>
+                    {isRunning ? (
+                      <Button variant='outline' onClick={stop}>
+                        <Square className='mr-2 h-4 w-4' />
+                        {t('evals.progress', {
+                          completed: progress.completed,
+                          total: progress.total,
+                        })}
+                      </Button>
+                    ) : (
+                      <Button disabled={!canRun} onClick={handleRun}>
+                        <Play className='mr-2 h-4 w-4' />
+                        {t('evals.run')}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {savedSuite && suiteRuns.length > 0 && (
+                  <RunHistory suite={savedSuite} runs={suiteRuns} />
+                )}
+              </div>
+            ) : (
+              <div className='flex h-full items-center justify-center text-sm text-gray-500'>
+                {t('evals.selectHint')}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
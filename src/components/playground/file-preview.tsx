@@ -1,11 +1,13 @@
 import { cn } from '@/utils/tailwindcss'
-import { FileIcon, X, ZoomIn } from 'lucide-react'
+import { FileIcon, FileText, X, ZoomIn } from 'lucide-react'
+import { useTranslations } from 'next-intl'
 import Image from 'next/image'
 import { useState } from 'react'
 import Lightbox from "yet-another-react-lightbox"
 import Zoom from "yet-another-react-lightbox/plugins/zoom"
 import "yet-another-react-lightbox/styles.css"
 import { Button } from '../ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../ui/tooltip'
 
 interface FilePreviewProps {
@@ -14,6 +16,8 @@ interface FilePreviewProps {
     type: 'image' | 'file'
     name: string
     size: number
+    text?: string
+    pages?: number
   }[]
   canDelete?: boolean
   onDelete?: (index: number) => void
@@ -21,7 +25,10 @@ interface FilePreviewProps {
 }
 
 export function FilePreview({ files, canDelete, onDelete, className }: FilePreviewProps) {
+  const t = useTranslations('playground')
   const [selectedImage, setSelectedImage] = useState<string | null>(null)
+  // Document whose extracted text is shown
+  const [openedFile, setOpenedFile] = useState<FilePreviewProps['files'][number] | null>(null)
 
   if (!files?.length) return null
 
@@ -56,20 +63,37 @@ export function FilePreview({ files, canDelete, onDelete, className }: FilePrevi
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger asChild>
-                    <div className="relative w-20 h-20 rounded-md overflow-hidden border border-border bg-muted/30 flex flex-col items-center justify-center p-2 transition-all duration-200 hover:shadow-md">
-                      <FileIcon className="w-6 h-6 mb-1 text-muted-foreground" />
+                    <div
+                      className={cn(
+                        "relative w-20 h-20 rounded-md overflow-hidden border border-border bg-muted/30 flex flex-col items-center justify-center p-2 transition-all duration-200 hover:shadow-md",
+                        file.text !== undefined && "cursor-pointer"
+                      )}
+                      onClick={() => file.text !== undefined && setOpenedFile(file)}
+                    >
+                      {file.text !== undefined ? (
+                        <FileText className="w-6 h-6 mb-1 text-muted-foreground" />
+                      ) : (
+                        <FileIcon className="w-6 h-6 mb-1 text-muted-foreground" />
+                      )}
                       <div className="text-center">
                         <div className="text-xs font-medium truncate max-w-[70px]">
                           {file.name}
                         </div>
                         <div className="text-[10px] text-muted-foreground">
-                          {(file.size / 1024).toFixed(1)} KB
+                          {file.pages
+                            ? t('files.pages', { count: file.pages })
+                            : `${(file.size / 1024).toFixed(1)} KB`}
                         </div>
                       </div>
                     </div>
                   </TooltipTrigger>
                   <TooltipContent>
                     <p>{file.name}</p>
+                    {file.text !== undefined && (
+                      <p className="text-xs text-muted-foreground">
+                        {t('files.extracted', { count: file.text.length })}
+                      </p>
+                    )}
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
@@ -88,6 +112,28 @@ export function FilePreview({ files, canDelete, onDelete, className }: FilePrevi
         ))}
       </div>
 
+      <Dialog open={openedFile !== null} onOpenChange={(open) => !open && setOpenedFile(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="truncate">{openedFile?.name}</DialogTitle>
+            <DialogDescription>
+              {openedFile?.pages
+                ? t('files.pages', { count: openedFile.pages })
+                : `${((openedFile?.size ?? 0) / 1024).toFixed(1)} KB`}
+              {' · '}
+              {t('files.extracted', { count: openedFile?.text?.length ?? 0 })}
+            </DialogDescription>
+          </DialogHeader>
+          {openedFile?.text ? (
+            <pre className="max-h-[60vh] overflow-auto whitespace-pre-wrap rounded-md bg-muted/40 p-3 text-xs">
+              {openedFile.text}
+            </pre>
+          ) : (
+            <p className="text-sm text-muted-foreground">{t('files.noText')}</p>
+          )}
+        </DialogContent>
+      </Dialog>
+
       <Lightbox
         open={selectedImage !== null}
         close={() => setSelectedImage(null)}
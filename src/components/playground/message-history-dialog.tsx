@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Message version history dialog.
+ * Compares any two versions of a message word by word and restores an earlier
+ * version with one click.
+ */
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { messageStore } from '@/db/message-store'
+import {
+  PlaygroundMessage,
+  PlaygroundMessageRevision,
+} from '@/stores/playground'
+import { diffWordsWithSpace } from 'diff'
+import { RotateCcw } from 'lucide-react'
+import { useFormatter, useTranslations } from 'next-intl'
+import { useEffect, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+
+/**
+ * ID of the current content in the version selects.
+ * @const
+ */
+const CURRENT = 'current'
+
+/**
+ * Props interface for the MessageHistoryDialog component
+ * @interface MessageHistoryDialogProps
+ * @property {boolean} open - Whether the dialog is open
+ * @property {PlaygroundMessage} message - Message whose versions are shown
+ * @property {boolean} isLast - Whether the message ends the conversation
+ * @property {Function} onOpenChange - Handler for opening and closing the dialog
+ */
+interface MessageHistoryDialogProps {
+  open: boolean
+  message: PlaygroundMessage
+  isLast: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Dialog listing the earlier versions of a message.
+ * The last message is restored in place; earlier messages are restored as a
+ * new branch, so the replies to the current version stay available.
+ *
+ * @component
+ * @param {MessageHistoryDialogProps} props - Component props
+ * @returns {JSX.Element} Rendered dialog
+ */
+export function MessageHistoryDialog({
+  open,
+  message,
+  isLast,
+  onOpenChange,
+}: MessageHistoryDialogProps) {
+  const t = useTranslations('playground')
+  const format = useFormatter()
+  const [revisions, setRevisions] = useState<PlaygroundMessageRevision[]>([])
+  const [fromId, setFromId] = useState<string>(CURRENT)
+  const [toId, setToId] = useState<string>(CURRENT)
+
+  // Reload the versions whenever the dialog opens or the message changes
+  useEffect(() => {
+    if (!open) return
+    messageStore.getRevisions(message.id).then((revisions) => {
+      setRevisions(revisions)
+      setFromId(revisions[0]?.id ?? CURRENT)
+      setToId(CURRENT)
+    })
+  }, [open, message.id, message.content])
+
+  const contentOf = (id: string) =>
+    id === CURRENT
+      ? message.content
+      : (revisions.find((revision) => revision.id === id)?.content ?? '')
+  const from = contentOf(fromId)
+  const to = contentOf(toId)
+  const changes = useMemo(() => diffWordsWithSpace(from, to), [from, to])
+
+  const versionLabel = (revision: PlaygroundMessageRevision) =>
+    format.dateTime(new Date(revision.createdAt), {
+      dateStyle: 'short',
+      timeStyle: 'medium',
+    })
+
+  const handleRestore = async () => {
+    const revision = revisions.find((item) => item.id === fromId)
+    if (!revision) return
+    if (isLast) {
+      await messageStore.restoreRevision(message.id, revision)
+    } else {
+      await messageStore.branchMessage(message.id, revision.content)
+    }
+    toast.success(t('history.restored'))
+    onOpenChange(false)
+  }
+
+  const versionSelect = (value: string, onChange: (id: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className='w-56'>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={CURRENT}>{t('history.current')}</SelectItem>
+        {revisions.map((revision) => (
+          <SelectItem key={revision.id} value={revision.id}>
+            {versionLabel(revision)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className='flex max-h-[85vh] max-w-4xl flex-col'>
+        <DialogHeader>
+          <DialogTitle>{t('history.title')}</DialogTitle>
+          <DialogDescription>{t('history.description')}</DialogDescription>
+        </DialogHeader>
+        {revisions.length === 0 ? (
+          <p className='py-8 text-center text-sm text-gray-500'>
+            {t('history.empty')}
+          </p>
+        ) : (
+          <>
+            <div className='flex flex-wrap items-center gap-2 text-sm'>
+              {versionSelect(fromId, setFromId)}
+              <span className='text-gray-500'>→</span>
+              {versionSelect(toId, setToId)}
+              <Button
+                variant='outline'
+                className='ml-auto'
+                disabled={fromId === CURRENT || from === message.content}
+                onClick={handleRestore}
+              >
+                <RotateCcw className='mr-2 h-4 w-4' />
+                {isLast ? t('history.restore') : t('history.restoreBranch')}
+              </Button>
+            </div>
+            <div className='min-h-0 flex-1 overflow-y-auto whitespace-pre-wrap break-words rounded-md border border-gray-200 p-3 font-mono text-sm'>
+              {from === to ? (
+                <span className='text-gray-500'>{t('history.identical')}</span>
+              ) : (
+                changes.map((change, index) => (
+                  <span
+                    key={index}
+                    className={
+                      change.added
+                        ? 'bg-green-100 text-green-800'
+                        : change.removed
+                          ? 'bg-red-100 text-red-800 line-through'
+                          : undefined
+                    }
+                  >
+                    {change.value}
+                  </span>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -3,9 +3,16 @@
  * in the playground. Includes drag-and-drop functionality, auto-scrolling, and message regeneration.
  */
 
-import { messageStore } from '@/db/message-store'
-import { useChatGeneration } from '@/hooks/use-chat-generation'
-import { PlaygroundMessage, playgroundSettiongsAtom } from '@/stores/playground'
+import { MessageBranch, messageStore } from '@/db/message-store'
+import {
+  GenerationSettings,
+  useChatGeneration,
+} from '@/hooks/use-chat-generation'
+import {
+  chatToolsAtom,
+  PlaygroundMessage,
+  PlaygroundToolCall,
+} from '@/stores/playground'
 import {
   closestCenter,
   DndContext,
@@ -21,8 +28,9 @@ import {
   sortableKeyboardCoordinates,
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable'
-import { useAtom } from 'jotai'
+import { useAtomValue } from 'jotai'
 import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { v4 as uuidv4 } from 'uuid'
 import { SortableMessage } from './sortable-message'
 
 const MemoizedSortableMessage = memo(SortableMessage)
@@ -31,19 +39,29 @@ const MemoizedSortableMessage = memo(SortableMessage)
  * Props interface for the MessageList component
  * @interface MessageListProps
  * @property {PlaygroundMessage[]} messages - Array of messages to display
+ * @property {Record<string, MessageBranch>} branches - Position of each message among its sibling branches
  * @property {PlaygroundMessage | null} generatingMessage - Currently generating message, if any
  * @property {boolean} isRunning - Whether message generation is in progress
+ * @property {GenerationSettings} [chatSettings] - Settings of regenerations with the selected provider, required unless read-only
+ * @property {Function} [generate] - Generates an answer with the generation of the playground, so it can be stopped there; required unless read-only
  * @property {Function} onDragEnd - Handler for when drag-and-drop operation ends
  * @property {Function} onEdit - Handler for editing a message
  * @property {Function} onDelete - Handler for deleting a message
+ * @property {boolean} [readOnly] - Whether the messages can only be viewed and copied
+ * @property {string | null} [highlightedId] - Message to scroll to and mark
  */
 interface MessageListProps {
   messages: PlaygroundMessage[]
+  branches: Record<string, MessageBranch>
   generatingMessage: PlaygroundMessage | null
   isRunning: boolean
+  chatSettings?: GenerationSettings
+  generate?: ReturnType<typeof useChatGeneration>['generate']
   onDragEnd: (event: DragEndEvent) => void
   onEdit: (id: string, message: PlaygroundMessage) => void
   onDelete: (id: string) => void
+  readOnly?: boolean
+  highlightedId?: string | null
 }
 
 /**
@@ -56,11 +74,16 @@ interface MessageListProps {
  */
 export const MessageList = memo(function MessageList({
   messages,
+  branches,
   generatingMessage,
   isRunning,
+  chatSettings,
+  generate,
   onDragEnd,
   onEdit,
   onDelete,
+  readOnly = false,
+  highlightedId,
 }: MessageListProps) {
   /**
    * Sensors for drag-and-drop functionality
@@ -147,46 +170,173 @@ export const MessageList = memo(function MessageList({
     }
   }, [messages, generatingMessage, updateScroll])
 
-  const [settings] = useAtom(playgroundSettiongsAtom)
+  // Scroll to the highlighted message, after the scroll update above
+  useEffect(() => {
+    if (!highlightedId) return
+    requestAnimationFrame(() => {
+      containerRef.current
+        ?.querySelector(`[data-message-id="${highlightedId}"]`)
+        ?.scrollIntoView({ block: 'center' })
+    })
+  }, [highlightedId, messages])
 
-  const {
-    generate,
-    isRunning: isRegenerating,
-    generatingMessage: regeneratingMessage,
-  } = useChatGeneration()
+  const tools = useAtomValue(chatToolsAtom)
+
+  // Index of the message being regenerated, later messages are hidden meanwhile
+  const [regenerateIndex, setRegenerateIndex] = useState<number | null>(null)
 
   /**
-   * Regenerates a message at the specified index
+   * Regenerates a message at the specified index.
+   * The new answer is added as a sibling branch, the old one is kept.
    * @param {string} id - ID of the message to regenerate
    */
   const handleRegenerate = useCallback(
     async (id: string) => {
       const currentIndex = messages.findIndex((msg) => msg.id === id)
-      if (currentIndex === -1) return
+      if (currentIndex === -1 || !chatSettings || !generate || isRunning) {
+        return
+      }
 
       const messageHistory = messages.slice(0, currentIndex)
-      await messageStore.deleteMessagesFrom(id)
-      const result = await generate(messageHistory, settings)
+      const parentId = messages[currentIndex].parentId ?? null
+      const conversationId = messageStore.getConversationId()
+      setRegenerateIndex(currentIndex)
+      try {
+        const result = await generate(messageHistory, {
+          ...chatSettings,
+          tools,
+        })
+        if (!result) return
+
+        const {
+          id,
+          content,
+          reasoning,
+          logprobs,
+          toolCalls,
+          responseFormat,
+          usage,
+          model,
+          metrics,
+          truncated,
+        } = result
+        await messageStore.addMessage(
+          {
+            id,
+            role: 'assistant',
+            content,
+            reasoning,
+            logprobs,
+            toolCalls,
+            responseFormat,
+            usage,
+            model,
+            metrics,
+            truncated,
+          },
+          parentId,
+          conversationId
+        )
+      } finally {
+        setRegenerateIndex(null)
+      }
+    },
+    [messages, generate, isRunning, chatSettings, tools]
+  )
 
+  /**
+   * IDs of all tool calls that already have a result message
+   */
+  const answeredToolCallIds = useMemo(
+    () =>
+      new Set(
+        messages
+          .filter((msg) => msg.role === 'tool' && msg.toolCallId)
+          .map((msg) => msg.toolCallId!)
+      ),
+    [messages]
+  )
+
+  /**
+   * Adds the result of a tool call to the conversation.
+   * Once every call of the assistant message is answered, the generation
+   * continues so the model can use the results.
+   * @param {PlaygroundMessage} message - Assistant message containing the call
+   * @param {PlaygroundToolCall} toolCall - The answered tool call
+   * @param {string} content - Result of the call
+   */
+  const handleToolResult = useCallback(
+    async (
+      message: PlaygroundMessage,
+      toolCall: PlaygroundToolCall,
+      content: string
+    ) => {
+      if (!chatSettings || !generate) return
+      await messageStore.addMessage({
+        id: uuidv4(),
+        role: 'tool',
+        content,
+        toolCallId: toolCall.toolCallId,
+        toolName: toolCall.toolName,
+      })
+
+      // Read the stored messages, the props may not include the new result yet
+      const messageHistory = await messageStore.getAllMessages()
+      const conversationId = messageStore.getConversationId()
+      const parentId = messageHistory[messageHistory.length - 1]?.id ?? null
+      const answered = new Set(
+        messageHistory.map((msg) => msg.role === 'tool' && msg.toolCallId)
+      )
+      if (!message.toolCalls?.every((call) => answered.has(call.toolCallId))) {
+        return
+      }
+
+      const result = await generate(messageHistory, {
+        ...chatSettings,
+        tools,
+      })
       if (result) {
-        const { id, content, logprobs } = result
-        await messageStore.addMessage({
+        const {
           id,
-          role: 'assistant',
           content,
+          reasoning,
           logprobs,
-        })
+          toolCalls,
+          responseFormat,
+          usage,
+          model,
+          metrics,
+          truncated,
+        } = result
+        await messageStore.addMessage(
+          {
+            id,
+            role: 'assistant',
+            content,
+            reasoning,
+            logprobs,
+            toolCalls,
+            responseFormat,
+            usage,
+            model,
+            metrics,
+            truncated,
+          },
+          parentId,
+          conversationId
+        )
       }
     },
-    [messages, generate, settings]
+    [generate, chatSettings, tools]
   )
 
   /**
    * Merges the original messages with the generating message, if any
    */
   const allMessages = useMemo(() => {
-    const result = [...messages]
-    const generatingMsg = (isRunning && generatingMessage) || (isRegenerating && regeneratingMessage)
+    const result =
+      regenerateIndex === null ? [...messages] : messages.slice(0, regenerateIndex)
+    const generatingMsg = isRunning && generatingMessage
     
     if (generatingMsg) {
       const existingIndex = result.findIndex(msg => msg.id === generatingMsg.id)
@@ -198,7 +348,7 @@ export const MessageList = memo(function MessageList({
     }
     
     return result
-  }, [messages, generatingMessage, regeneratingMessage, isRunning, isRegenerating])
+  }, [messages, generatingMessage, isRunning, regenerateIndex])
 
   return (
     <div className='flex h-full w-full flex-col'>
@@ -229,10 +379,16 @@ export const MessageList = memo(function MessageList({
                   message={message}
                   handleEdit={onEdit}
                   handleDelete={onDelete}
-                  handleRegenerate={handleRegenerate}
-                  isRunning={
-                    message.id === (generatingMessage?.id || regeneratingMessage?.id)
-                  }
+                  handleRegenerate={readOnly ? undefined : handleRegenerate}
+                  branch={branches[message.id]}
+                  isLast={message.id === messages[messages.length - 1]?.id}
+                  answeredToolCallIds={message.toolCalls
+                    ?.filter((call) => answeredToolCallIds.has(call.toolCallId))
+                    .map((call) => call.toolCallId)}
+                  handleToolResult={readOnly ? undefined : handleToolResult}
+                  readOnly={readOnly}
+                  isHighlighted={message.id === highlightedId}
+                  isRunning={message.id === generatingMessage?.id}
                 />
               ))}
             </SortableContext>
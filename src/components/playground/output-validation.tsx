@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Inline validation result for structured output.
+ * Checks a model answer against the requested JSON format and lists the errors.
+ */
+
+import { PlaygroundResponseFormat } from '@/stores/playground'
+import { validateOutput } from '@/utils/json-schema'
+import { cn } from '@/utils/tailwindcss'
+import { CircleAlert, CircleCheck } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { memo, useMemo } from 'react'
+
+/**
+ * Props interface for the OutputValidation component
+ * @interface OutputValidationProps
+ * @property {string} content - Model answer to validate
+ * @property {PlaygroundResponseFormat} format - Requested response format
+ * @property {string} [className] - Optional class name of the container
+ */
+interface OutputValidationProps {
+  content: string
+  format: PlaygroundResponseFormat
+  className?: string
+}
+
+/**
+ * Shows whether a model answer is valid JSON and matches the requested schema.
+ *
+ * @component
+ * @param {OutputValidationProps} props - Component props
+ * @returns {JSX.Element} Rendered validation result
+ */
+export const OutputValidation = memo(function OutputValidation({
+  content,
+  format,
+  className,
+}: OutputValidationProps) {
+  const t = useTranslations('playground')
+  const { valid, errors } = useMemo(
+    () => validateOutput(content, format),
+    [content, format]
+  )
+
+  return (
+    <div
+      className={cn(
+        'mt-2 rounded-md border px-3 py-2 text-xs',
+        valid
+          ? 'border-green-200 bg-green-50 text-green-700'
+          : 'border-red-200 bg-red-50 text-red-700',
+        className
+      )}
+    >
+      <div className='flex items-center gap-1.5 font-medium'>
+        {valid ? (
+          <CircleCheck className='h-3.5 w-3.5' />
+        ) : (
+          <CircleAlert className='h-3.5 w-3.5' />
+        )}
+        {valid
+          ? format.type === 'json_schema'
+            ? t('responseFormat.matchesSchema')
+            : t('responseFormat.validJson')
+          : t('responseFormat.invalid', { count: errors.length })}
+      </div>
+      {!valid && (
+        <ul className='mt-1 list-inside list-disc space-y-0.5 font-mono'>
+          {errors.map((error, index) => (
+            <li key={index}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+})
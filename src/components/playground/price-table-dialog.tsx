@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Editable per-model price table.
+ * Prices are used to show the cost of messages and conversations.
+ */
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { TooltipButton } from '@/components/ui/tooltip-button'
+import { ModelPrice, modelPricesAtom } from '@/stores/playground'
+import { getModelCapabilities, getModelPrice } from '@/utils/model-capabilities'
+import { useAtom } from 'jotai'
+import { Plus, Trash2 } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { useMemo, useState } from 'react'
+
+/**
+ * Props interface for the PriceTableDialog component
+ * @interface PriceTableDialogProps
+ * @property {boolean} open - Whether the dialog is open
+ * @property {string[]} models - Models to list even without a price, e.g. models used in the conversation
+ * @property {Function} onOpenChange - Handler for opening and closing the dialog
+ */
+interface PriceTableDialogProps {
+  open: boolean
+  models: string[]
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Dialog with a table of input and output prices per million tokens.
+ * Changes are saved as they are typed.
+ *
+ * @component
+ * @param {PriceTableDialogProps} props - Component props
+ * @returns {JSX.Element} Rendered dialog
+ */
+export function PriceTableDialog({
+  open,
+  models,
+  onOpenChange,
+}: PriceTableDialogProps) {
+  const t = useTranslations('playground')
+  const [prices, setPrices] = useAtom(modelPricesAtom)
+  const [newModel, setNewModel] = useState('')
+
+  const rows = useMemo(
+    () =>
+      Array.from(new Set([...models, ...Object.keys(prices)]))
+        .filter(Boolean)
+        .sort(),
+    [models, prices]
+  )
+
+  const updatePrice = (model: string, key: keyof ModelPrice, value: string) => {
+    const price = getModelPrice(model, prices) ?? { input: 0, output: 0 }
+    setPrices({
+      ...prices,
+      [model]: { ...price, [key]: Math.max(Number(value) || 0, 0) },
+    })
+  }
+
+  const removePrice = (model: string) => {
+    setPrices(
+      Object.fromEntries(
+        Object.entries(prices).filter(([name]) => name !== model)
+      )
+    )
+  }
+
+  const addModel = () => {
+    const model = newModel.trim()
+    if (!model || prices[model]) return
+    setPrices({ ...prices, [model]: { input: 0, output: 0 } })
+    setNewModel('')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className='max-w-2xl'>
+        <DialogHeader>
+          <DialogTitle>{t('usage.priceTable')}</DialogTitle>
+          <DialogDescription>{t('usage.priceTableDesc')}</DialogDescription>
+        </DialogHeader>
+        <div className='max-h-[50vh] overflow-y-auto'>
+          <table className='w-full text-left text-sm'>
+            <thead className='text-xs text-gray-500'>
+              <tr>
+                <th className='py-2 pr-2'>{t('settings.model')}</th>
+                <th className='w-32 px-2 py-2'>{t('usage.inputPrice')}</th>
+                <th className='w-32 px-2 py-2'>{t('usage.outputPrice')}</th>
+                <th className='w-10' />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((model) => (
+                <tr key={model} className='border-t border-gray-200'>
+                  <td className='truncate py-2 pr-2 font-mono text-xs'>
+                    {model}
+                  </td>
+                  <td className='px-2 py-2'>
+                    <Input
+                      type='number'
+                      min={0}
+                      step='0.01'
+                      placeholder={String(
+                        getModelCapabilities(model).price?.input ?? 0
+                      )}
+                      value={prices[model]?.input ?? ''}
+                      onChange={(e) =>
+                        updatePrice(model, 'input', e.target.value)
+                      }
+                    />
+                  </td>
+                  <td className='px-2 py-2'>
+                    <Input
+                      type='number'
+                      min={0}
+                      step='0.01'
+                      placeholder={String(
+                        getModelCapabilities(model).price?.output ?? 0
+                      )}
+                      value={prices[model]?.output ?? ''}
+                      onChange={(e) =>
+                        updatePrice(model, 'output', e.target.value)
+                      }
+                    />
+                  </td>
+                  <td className='py-2'>
+                    {prices[model] && (
+                      <TooltipButton
+                        variant='ghost'
+                        size='icon'
+                        className='h-8 w-8'
+                        onClick={() => removePrice(model)}
+                        tooltipContent={t('usage.removePrice')}
+                      >
+                        <Trash2 className='h-4 w-4' />
+                      </TooltipButton>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className='flex gap-2'>
+          <Input
+            value={newModel}
+            placeholder={t('usage.addModelPlaceholder')}
+            onChange={(e) => setNewModel(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addModel()
+            }}
+          />
+          <Button variant='outline' onClick={addModel}>
+            <Plus className='mr-1 h-4 w-4' />
+            {t('usage.addModel')}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,388 @@
+/**
+ * @fileoverview Prompt library dialog.
+ * Lists saved prompt templates, edits them, and fills in their `{{variables}}`
+ * before adding the messages to the conversation.
+ */
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { TooltipButton } from '@/components/ui/tooltip-button'
+import { PlaygroundMessage, PlaygroundTemplate } from '@/stores/playground'
+import { cn } from '@/utils/tailwindcss'
+import { extractTemplateVariables } from '@/utils/template'
+import { BookOpen, MessageSquarePlus, Plus, Trash2, X } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { useMemo, useState } from 'react'
+
+/**
+ * Editable fields of a template.
+ */
+type TemplateDraft = Pick<
+  PlaygroundTemplate,
+  'name' | 'systemMessage' | 'messages'
+> & { id?: string }
+
+/**
+ * Props interface for the PromptLibraryDialog component
+ * @interface PromptLibraryDialogProps
+ * @property {boolean} open - Whether the dialog is open
+ * @property {PlaygroundTemplate[]} templates - Saved templates
+ * @property {PlaygroundMessage[]} messages - Messages of the active conversation
+ * @property {Function} onOpenChange - Handler for opening and closing the dialog
+ * @property {Function} onSave - Handler for saving a template
+ * @property {Function} onDelete - Handler for deleting a template
+ * @property {Function} onApply - Handler for applying a template with variable values
+ */
+interface PromptLibraryDialogProps {
+  open: boolean
+  templates: PlaygroundTemplate[]
+  messages: PlaygroundMessage[]
+  onOpenChange: (open: boolean) => void
+  onSave: (template: TemplateDraft) => Promise<PlaygroundTemplate>
+  onDelete: (id: string) => void
+  onApply: (
+    template: PlaygroundTemplate,
+    values: Record<string, string>,
+    replace: boolean
+  ) => Promise<void>
+}
+
+/**
+ * Creates a template draft from the messages of a conversation.
+ * The first system message becomes the template's system message.
+ */
+const draftFromMessages = (
+  name: string,
+  messages: PlaygroundMessage[]
+): TemplateDraft => ({
+  name,
+  systemMessage: messages.find((msg) => msg.role === 'system')?.content ?? '',
+  messages: messages.flatMap((msg) =>
+    msg.role === 'user' || msg.role === 'assistant'
+      ? [{ role: msg.role, content: msg.content }]
+      : []
+  ),
+})
+
+/**
+ * Dialog listing the saved templates next to an editor for the selected one.
+ * Applying a template opens a form for its variables.
+ *
+ * @component
+ * @param {PromptLibraryDialogProps} props - Component props
+ * @returns {JSX.Element} Rendered dialog
+ */
+export function PromptLibraryDialog({
+  open,
+  templates,
+  messages,
+  onOpenChange,
+  onSave,
+  onDelete,
+  onApply,
+}: PromptLibraryDialogProps) {
+  const t = useTranslations('playground')
+  const [draft, setDraft] = useState<TemplateDraft | null>(null)
+  const [applying, setApplying] = useState<PlaygroundTemplate | null>(null)
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [replace, setReplace] = useState(true)
+
+  const variables = useMemo(
+    () => (applying ? extractTemplateVariables(applying) : []),
+    [applying]
+  )
+
+  const selectTemplate = (template: PlaygroundTemplate) => {
+    setApplying(null)
+    setDraft({
+      id: template.id,
+      name: template.name,
+      systemMessage: template.systemMessage,
+      messages: template.messages.map((msg) => ({ ...msg })),
+    })
+  }
+
+  const startApply = (template: PlaygroundTemplate) => {
+    setDraft(null)
+    setApplying(template)
+    setValues({})
+  }
+
+  const updateSeedMessage = (
+    index: number,
+    update: Partial<TemplateDraft['messages'][number]>
+  ) => {
+    if (!draft) return
+    setDraft({
+      ...draft,
+      messages: draft.messages.map((msg, i) =>
+        i === index ? { ...msg, ...update } : msg
+      ),
+    })
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+    const saved = await onSave({ ...draft, name: draft.name.trim() })
+    setDraft({ ...draft, id: saved.id })
+  }
+
+  const handleDelete = () => {
+    if (draft?.id) {
+      onDelete(draft.id)
+    }
+    setDraft(null)
+  }
+
+  const handleApply = async () => {
+    if (!applying) return
+    await onApply(applying, values, replace)
+    setApplying(null)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className='max-w-4xl'>
+        <DialogHeader>
+          <DialogTitle>{t('templates.title')}</DialogTitle>
+          <DialogDescription>{t('templates.description')}</DialogDescription>
+        </DialogHeader>
+        <div className='flex h-[60vh] gap-4'>
+          <div className='flex w-64 shrink-0 flex-col gap-2 border-r border-gray-200 pr-4'>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={() => {
+                setApplying(null)
+                setDraft({ name: '', systemMessage: '', messages: [] })
+              }}
+            >
+              <Plus className='mr-1 h-4 w-4' />
+              {t('templates.new')}
+            </Button>
+            <Button
+              variant='outline'
+              size='sm'
+              disabled={messages.length === 0}
+              onClick={() => {
+                setApplying(null)
+                setDraft(draftFromMessages('', messages))
+              }}
+            >
+              <MessageSquarePlus className='mr-1 h-4 w-4' />
+              {t('templates.fromConversation')}
+            </Button>
+            <div className='min-h-0 flex-1 space-y-1 overflow-y-auto'>
+              {templates.length === 0 && (
+                <p className='px-1 py-4 text-center text-sm text-gray-500'>
+                  {t('templates.empty')}
+                </p>
+              )}
+              {templates.map((template) => (
+                <div
+                  key={template.id}
+                  className={cn(
+                    'group flex cursor-pointer items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-accent',
+                    (draft?.id === template.id ||
+                      applying?.id === template.id) &&
+                      'bg-accent'
+                  )}
+                  onClick={() => selectTemplate(template)}
+                >
+                  <BookOpen className='h-4 w-4 shrink-0 text-gray-500' />
+                  <span className='flex-1 truncate'>
+                    {template.name || t('templates.untitled')}
+                  </span>
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    className='h-6 px-2 text-xs'
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      startApply(template)
+                    }}
+                  >
+                    {t('templates.apply')}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className='min-h-0 flex-1 overflow-y-auto pr-1'>
+            {applying ? (
+              <div className='space-y-4'>
+                <h3 className='font-medium'>
+                  {t('templates.applyTitle', {
+                    name: applying.name || t('templates.untitled'),
+                  })}
+                </h3>
+                {variables.length === 0 ? (
+                  <p className='text-sm text-gray-500'>
+                    {t('templates.noVariables')}
+                  </p>
+                ) : (
+                  variables.map((variable) => (
+                    <div key={variable} className='space-y-1.5'>
+                      <Label className='font-mono'>{variable}</Label>
+                      <Textarea
+                        className='min-h-[40px]'
+                        value={values[variable] ?? ''}
+                        onChange={(e) =>
+                          setValues({ ...values, [variable]: e.target.value })
+                        }
+                      />
+                    </div>
+                  ))
+                )}
+                <div className='flex items-center gap-2'>
+                  <Switch
+                    id='template-replace'
+                    checked={replace}
+                    onCheckedChange={setReplace}
+                  />
+                  <Label htmlFor='template-replace'>
+                    {t('templates.replaceMessages')}
+                  </Label>
+                </div>
+                <div className='flex justify-end gap-2'>
+                  <Button variant='outline' onClick={() => setApplying(null)}>
+                    {t('templates.cancel')}
+                  </Button>
+                  <Button
+                    disabled={variables.some((v) => !values[v]?.trim())}
+                    onClick={handleApply}
+                  >
+                    {t('templates.apply')}
+                  </Button>
+                </div>
+              </div>
+            ) : draft ? (
+              <div className='space-y-4'>
+                <div className='space-y-1.5'>
+                  <Label>{t('templates.name')}</Label>
+                  <Input
+                    value={draft.name}
+                    placeholder={t('templates.namePlaceholder')}
+                    onChange={(e) =>
+                      setDraft({ ...draft, name: e.target.value })
+                    }
+                  />
+                </div>
+                <div className='space-y-1.5'>
+                  <Label>{t('templates.systemMessage')}</Label>
+                  <Textarea
+                    value={draft.systemMessage}
+                    placeholder={t('templates.variableHint')}
+                    onChange={(e) =>
+                      setDraft({ ...draft, systemMessage: e.target.value })
+                    }
+                  />
+                </div>
+                <div className='space-y-2'>
+                  <Label>{t('templates.seedMessages')}</Label>
+                  {draft.messages.map((message, index) => (
+                    <div key={index} className='flex items-start gap-2'>
+                      <Select
+                        value={message.role}
+                        onValueChange={(role: 'user' | 'assistant') =>
+                          updateSeedMessage(index, { role })
+                        }
+                      >
+                        <SelectTrigger className='w-32 shrink-0'>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value='user'>
+                            {t('message.user')}
+                          </SelectItem>
+                          <SelectItem value='assistant'>
+                            {t('message.assistant')}
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Textarea
+                        className='min-h-[40px] flex-1'
+                        value={message.content}
+                        onChange={(e) =>
+                          updateSeedMessage(index, { content: e.target.value })
+                        }
+                      />
+                      <TooltipButton
+                        variant='ghost'
+                        size='icon'
+                        className='h-9 w-9 shrink-0'
+                        onClick={() =>
+                          setDraft({
+                            ...draft,
+                            messages: draft.messages.filter(
+                              (_, i) => i !== index
+                            ),
+                          })
+                        }
+                        tooltipContent={t('templates.removeMessage')}
+                      >
+                        <X className='h-4 w-4' />
+                      </TooltipButton>
+                    </div>
+                  ))}
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    onClick={() =>
+                      setDraft({
+                        ...draft,
+                        messages: [
+                          ...draft.messages,
+                          { role: 'user', content: '' },
+                        ],
+                      })
+                    }
+                  >
+                    <Plus className='mr-1 h-4 w-4' />
+                    {t('templates.addMessage')}
+                  </Button>
+                </div>
+                <div className='flex justify-between gap-2'>
+                  <Button
+                    variant='outline'
+                    className='text-red-500'
+                    onClick={handleDelete}
+                  >
+                    <Trash2 className='mr-1 h-4 w-4' />
+                    {draft.id ? t('templates.delete') : t('templates.cancel')}
+                  </Button>
+                  <Button disabled={!draft.name.trim()} onClick={handleSave}>
+                    {t('templates.save')}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className='flex h-full items-center justify-center text-sm text-gray-500'>
+                {t('templates.selectHint')}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,285 @@
+/**
+ * @fileoverview Management of user-configured provider backends.
+ * Each provider keeps its own base URL, API key and hand-added models.
+ */
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  PlaygroundProvider,
+  playgroundProvidersAtom,
+} from '@/stores/playground'
+import {
+  DEFAULT_BASE_URLS,
+  parseModelList,
+  PROVIDER_TYPES,
+  ProviderType,
+} from '@/utils/providers'
+import { cn } from '@/utils/tailwindcss'
+import { useAtom } from 'jotai'
+import { Plus, Trash2 } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * Base URL examples of the types without a default.
+ * @const
+ */
+const BASE_URL_EXAMPLES: Record<ProviderType, string> = {
+  ...DEFAULT_BASE_URLS,
+  'openai-compatible': 'http://localhost:8000/v1',
+  azure: 'https://{resource}.openai.azure.com/openai/deployments',
+}
+
+/**
+ * Provider being edited, with the models as text.
+ */
+type ProviderDraft = Omit<PlaygroundProvider, 'models'> & { models: string }
+
+/**
+ * Returns an empty draft for a new provider.
+ */
+const newDraft = (): ProviderDraft => ({
+  id: uuidv4(),
+  name: '',
+  type: 'openai-compatible',
+  baseUrl: '',
+  apiKey: '',
+  models: '',
+  enabled: true,
+})
+
+/**
+ * Props interface for the ProvidersDialog component
+ * @interface ProvidersDialogProps
+ * @property {boolean} open - Whether the dialog is open
+ * @property {Function} onOpenChange - Handler for opening and closing the dialog
+ */
+interface ProvidersDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Dialog listing the configured providers next to an editor for the selected one.
+ * Changes are saved with the save button, so models are not reloaded on every keystroke.
+ *
+ * @component
+ * @param {ProvidersDialogProps} props - Component props
+ * @returns {JSX.Element} Rendered dialog
+ */
+export function ProvidersDialog({ open, onOpenChange }: ProvidersDialogProps) {
+  const t = useTranslations('playground')
+  const [providers, setProviders] = useAtom(playgroundProvidersAtom)
+  const [draft, setDraft] = useState<ProviderDraft | null>(null)
+
+  const select = (provider: PlaygroundProvider) =>
+    setDraft({ ...provider, models: provider.models.join('\n') })
+
+  // Start with the first provider, or a new one if there is none
+  useEffect(() => {
+    if (!open) return
+    if (providers.length) {
+      select(providers[0])
+    } else {
+      setDraft(newDraft())
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  const update = (changes: Partial<ProviderDraft>) =>
+    setDraft((prev) => prev && { ...prev, ...changes })
+
+  const handleSave = () => {
+    if (!draft) return
+    const name = draft.name.trim()
+    if (!name) {
+      toast.error(t('providers.nameRequired'))
+      return
+    }
+    if (!draft.baseUrl.trim() && !DEFAULT_BASE_URLS[draft.type]) {
+      toast.error(t('providers.baseUrlRequired'))
+      return
+    }
+
+    const provider: PlaygroundProvider = {
+      ...draft,
+      name,
+      baseUrl: draft.baseUrl.trim(),
+      models: parseModelList(draft.models),
+    }
+    setProviders(
+      providers.some((item) => item.id === provider.id)
+        ? providers.map((item) => (item.id === provider.id ? provider : item))
+        : [...providers, provider]
+    )
+    select(provider)
+    toast.success(t('providers.saved'))
+  }
+
+  const handleDelete = () => {
+    if (!draft) return
+    const rest = providers.filter((item) => item.id !== draft.id)
+    setProviders(rest)
+    if (rest.length) {
+      select(rest[0])
+    } else {
+      setDraft(newDraft())
+    }
+  }
+
+  const isSaved = !!draft && providers.some((item) => item.id === draft.id)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className='max-w-3xl'>
+        <DialogHeader>
+          <DialogTitle>{t('providers.title')}</DialogTitle>
+          <DialogDescription>{t('providers.description')}</DialogDescription>
+        </DialogHeader>
+        <div className='flex gap-4'>
+          <div className='flex w-48 shrink-0 flex-col gap-1'>
+            {providers.map((provider) => (
+              <Button
+                key={provider.id}
+                variant='ghost'
+                className={cn(
+                  'justify-start truncate',
+                  draft?.id === provider.id && 'bg-accent',
+                  !provider.enabled && 'text-gray-400'
+                )}
+                onClick={() => select(provider)}
+              >
+                {provider.name}
+              </Button>
+            ))}
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={() => setDraft(newDraft())}
+            >
+              <Plus className='mr-1 h-4 w-4' />
+              {t('providers.add')}
+            </Button>
+          </div>
+
+          {draft && (
+            <div className='max-h-[60vh] flex-1 space-y-4 overflow-y-auto px-1'>
+              <div className='flex gap-2'>
+                <div className='flex-1 space-y-1.5'>
+                  <Label>{t('providers.name')}</Label>
+                  <Input
+                    value={draft.name}
+                    placeholder={t('providers.namePlaceholder')}
+                    onChange={(e) => update({ name: e.target.value })}
+                  />
+                </div>
+                <div className='w-48 space-y-1.5'>
+                  <Label>{t('providers.type')}</Label>
+                  <Select
+                    value={draft.type}
+                    onValueChange={(type) =>
+                      update({ type: type as ProviderType })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROVIDER_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {t(`providers.types.${type}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className='space-y-1.5'>
+                <Label>{t('providers.baseUrl')}</Label>
+                <Input
+                  value={draft.baseUrl}
+                  placeholder={BASE_URL_EXAMPLES[draft.type]}
+                  onChange={(e) => update({ baseUrl: e.target.value })}
+                />
+              </div>
+              <div className='space-y-1.5'>
+                <Label>{t('providers.apiKey')}</Label>
+                <Input
+                  type='password'
+                  value={draft.apiKey}
+                  placeholder={
+                    draft.type === 'ollama' ||
+                    draft.type === 'openai-compatible'
+                      ? t('providers.apiKeyOptional')
+                      : undefined
+                  }
+                  onChange={(e) => update({ apiKey: e.target.value })}
+                />
+              </div>
+              {draft.type === 'azure' && (
+                <div className='space-y-1.5'>
+                  <Label>{t('providers.apiVersion')}</Label>
+                  <Input
+                    value={draft.apiVersion ?? ''}
+                    placeholder='2024-10-01-preview'
+                    onChange={(e) => update({ apiVersion: e.target.value })}
+                  />
+                </div>
+              )}
+              <div className='space-y-1.5'>
+                <Label>{t('providers.models')}</Label>
+                <Textarea
+                  value={draft.models}
+                  placeholder={
+                    draft.type === 'azure'
+                      ? t('providers.deploymentsPlaceholder')
+                      : t('providers.modelsPlaceholder')
+                  }
+                  className='min-h-[80px] font-mono text-xs md:text-xs'
+                  onChange={(e) => update({ models: e.target.value })}
+                />
+              </div>
+              <div className='flex items-center gap-2'>
+                <Switch
+                  checked={draft.enabled}
+                  onCheckedChange={(enabled) => update({ enabled })}
+                />
+                <Label>{t('providers.enabled')}</Label>
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          {isSaved && (
+            <Button variant='outline' onClick={handleDelete}>
+              <Trash2 className='mr-1 h-4 w-4' />
+              {t('providers.delete')}
+            </Button>
+          )}
+          <Button onClick={handleSave}>{t('providers.save')}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
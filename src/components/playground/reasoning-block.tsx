@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Collapsible "thinking" block with the reasoning of a model answer.
+ */
+
+import { cn } from '@/utils/tailwindcss'
+import { Brain, ChevronDown, ChevronRight } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { memo, useState } from 'react'
+
+/**
+ * Rough number of characters per token, used when no count was reported.
+ * @const
+ */
+const CHARS_PER_TOKEN = 4
+
+/**
+ * Props interface for the ReasoningBlock component
+ * @interface ReasoningBlockProps
+ * @property {string} reasoning - Reasoning text of the model
+ * @property {number} [tokens] - Reasoning tokens reported by the provider
+ * @property {boolean} [isStreaming] - Whether the reasoning is still being streamed
+ * @property {string} [className] - Optional class name of the container
+ */
+interface ReasoningBlockProps {
+  reasoning: string
+  tokens?: number
+  isStreaming?: boolean
+  className?: string
+}
+
+/**
+ * Shows the reasoning of a model, collapsed by default.
+ * The token count is the reported one, or an estimate marked with `~`.
+ *
+ * @component
+ * @param {ReasoningBlockProps} props - Component props
+ * @returns {JSX.Element} Rendered reasoning block
+ */
+export const ReasoningBlock = memo(function ReasoningBlock({
+  reasoning,
+  tokens,
+  isStreaming,
+  className,
+}: ReasoningBlockProps) {
+  const t = useTranslations('playground')
+  const [isOpen, setIsOpen] = useState(false)
+  const count =
+    tokens !== undefined
+      ? tokens.toLocaleString()
+      : `~${Math.ceil(reasoning.length / CHARS_PER_TOKEN).toLocaleString()}`
+  const Chevron = isOpen ? ChevronDown : ChevronRight
+
+  return (
+    <div
+      className={cn(
+        'mb-2 rounded-md border border-dashed bg-muted/40 text-xs',
+        className
+      )}
+    >
+      <button
+        type='button'
+        className='flex w-full items-center gap-1.5 px-3 py-1.5 text-left text-muted-foreground hover:text-foreground'
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        <Chevron className='h-3.5 w-3.5' />
+        <Brain className={cn('h-3.5 w-3.5', isStreaming && 'animate-pulse')} />
+        <span className='font-medium'>
+          {isStreaming ? t('reasoning.thinking') : t('reasoning.title')}
+        </span>
+        <span className='ml-auto'>{t('reasoning.tokens', { count })}</span>
+      </button>
+      {isOpen && (
+        <div className='max-h-80 overflow-y-auto whitespace-pre-wrap border-t px-3 py-2 text-muted-foreground'>
+          {reasoning}
+        </div>
+      )}
+    </div>
+  )
+})
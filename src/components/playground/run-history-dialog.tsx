@@ -0,0 +1,291 @@
+/**
+ * @fileoverview Run history dialog.
+ * Lists the recorded generation requests and shows the exact messages and
+ * settings sent with what came back, so any run can be inspected and replayed.
+ */
+
+import { Button } from '@/components/ui/button'
+import { CopyButton } from '@/components/ui/copy-button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { useRunHistory } from '@/hooks/use-run-history'
+import {
+  playgroundSettiongsAtom,
+  PlaygroundRunRecord,
+} from '@/stores/playground'
+import { formatDuration } from '@/utils/format'
+import { cn } from '@/utils/tailwindcss'
+import { useSetAtom } from 'jotai'
+import { RotateCcw, ScrollText, SlidersHorizontal, Trash2 } from 'lucide-react'
+import { useFormatter, useTranslations } from 'next-intl'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { TokenProbabilities } from './token-probabilities'
+
+/**
+ * Text colors of the run statuses.
+ * @const
+ */
+const STATUS_CLASS_NAMES: Record<PlaygroundRunRecord['status'], string> = {
+  done: 'text-green-600',
+  stopped: 'text-amber-600',
+  error: 'text-red-500',
+}
+
+/**
+ * Props interface for the RunHistoryDialog component
+ * @interface RunHistoryDialogProps
+ * @property {boolean} open - Whether the dialog is open
+ * @property {Function} onOpenChange - Handler for opening and closing the dialog
+ */
+interface RunHistoryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * A titled block of the run details.
+ * @component
+ */
+function Section({
+  title,
+  children,
+}: {
+  title: string
+  children: React.ReactNode
+}) {
+  return (
+    <div className='space-y-1.5'>
+      <Label>{title}</Label>
+      {children}
+    </div>
+  )
+}
+
+/**
+ * Details of a single run.
+ * @component
+ */
+function RunDetails({ run }: { run: PlaygroundRunRecord }) {
+  const t = useTranslations('playground')
+
+  return (
+    <div className='space-y-4 text-sm'>
+      <div className='flex flex-wrap gap-x-3 text-xs text-gray-500'>
+        <span className={STATUS_CLASS_NAMES[run.status]}>
+          {t(`runHistory.statuses.${run.status}`)}
+        </span>
+        <span>{run.model}</span>
+        {run.firstTokenAt !== undefined && (
+          <span>
+            {t('metrics.firstToken', {
+              value: formatDuration(run.firstTokenAt - run.startedAt),
+            })}
+          </span>
+        )}
+        <span>
+          {t('metrics.duration', {
+            value: formatDuration(run.finishedAt - run.startedAt),
+          })}
+        </span>
+        {run.usage && (
+          <span>
+            {t('usage.message', {
+              prompt: run.usage.promptTokens,
+              completion: run.usage.completionTokens,
+            })}
+          </span>
+        )}
+      </div>
+
+      {run.error && <p className='text-red-500'>{run.error}</p>}
+
+      <Section title={t('runHistory.messages')}>
+        {run.messages.map((message, index) => (
+          <div key={index} className='rounded-md border border-gray-200 p-2'>
+            <div className='mb-1 text-xs text-gray-500'>
+              {t(`message.${message.role}`)}
+              {message.files?.map((file) => (
+                <span key={file.url} className='ml-2'>
+                  {file.name}
+                </span>
+              ))}
+            </div>
+            <p className='whitespace-pre-wrap break-words'>{message.content}</p>
+          </div>
+        ))}
+      </Section>
+
+      <Section title={t('runHistory.settings')}>
+        <pre className='overflow-x-auto rounded-md bg-gray-50 p-2 text-xs'>
+          {JSON.stringify(run.settings, null, 2)}
+        </pre>
+      </Section>
+
+      {run.reasoning && (
+        <Section title={t('reasoning.title')}>
+          <p className='whitespace-pre-wrap break-words text-gray-600'>
+            {run.reasoning}
+          </p>
+        </Section>
+      )}
+
+      <Section title={t('runHistory.output')}>
+        {run.logprobs?.length ? (
+          <TokenProbabilities logprobs={run.logprobs} />
+        ) : (
+          <pre className='whitespace-pre-wrap break-words rounded-md bg-gray-50 p-2 text-xs'>
+            {run.output || t('runHistory.noOutput')}
+          </pre>
+        )}
+      </Section>
+
+      {run.toolCalls && (
+        <Section title={t('runHistory.toolCalls')}>
+          <pre className='overflow-x-auto rounded-md bg-gray-50 p-2 text-xs'>
+            {JSON.stringify(run.toolCalls, null, 2)}
+          </pre>
+        </Section>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Dialog listing the recorded runs next to the details of the selected one.
+ * Replaying adds the run's messages and answer to the conversation as a new
+ * branch; its settings can be applied separately.
+ *
+ * @component
+ * @param {RunHistoryDialogProps} props - Component props
+ * @returns {JSX.Element} Rendered dialog
+ */
+export function RunHistoryDialog({
+  open,
+  onOpenChange,
+}: RunHistoryDialogProps) {
+  const t = useTranslations('playground')
+  const format = useFormatter()
+  const { runs, handleDelete, handleClear, handleReplay } = useRunHistory()
+  const setSettings = useSetAtom(playgroundSettiongsAtom)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const selected = runs.find((run) => run.id === selectedId) ?? runs[0]
+
+  const replay = async () => {
+    if (!selected) return
+    await handleReplay(selected)
+    toast.success(t('runHistory.replayed'))
+    onOpenChange(false)
+  }
+
+  // Only known settings are applied, the API key is never recorded
+  const applySettings = () => {
+    if (!selected) return
+    setSettings((prev) => ({
+      ...prev,
+      ...Object.fromEntries(
+        Object.entries(selected.settings).filter(
+          ([key]) => key in prev && key !== 'apiKey'
+        )
+      ),
+    }))
+    toast.success(t('runHistory.settingsApplied'))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className='max-w-5xl'>
+        <DialogHeader>
+          <DialogTitle>{t('runHistory.title')}</DialogTitle>
+          <DialogDescription>{t('runHistory.description')}</DialogDescription>
+        </DialogHeader>
+        <div className='flex h-[70vh] gap-4'>
+          <div className='flex w-64 shrink-0 flex-col gap-2 border-r border-gray-200 pr-4'>
+            <Button
+              variant='outline'
+              size='sm'
+              className='text-red-500'
+              disabled={runs.length === 0}
+              onClick={handleClear}
+            >
+              <Trash2 className='mr-1 h-4 w-4' />
+              {t('runHistory.clear')}
+            </Button>
+            <div className='min-h-0 flex-1 space-y-1 overflow-y-auto'>
+              {runs.length === 0 && (
+                <p className='px-1 py-4 text-center text-sm text-gray-500'>
+                  {t('runHistory.empty')}
+                </p>
+              )}
+              {runs.map((run) => (
+                <div
+                  key={run.id}
+                  className={cn(
+                    'cursor-pointer rounded-md px-2 py-1.5 text-sm hover:bg-accent',
+                    selected?.id === run.id && 'bg-accent'
+                  )}
+                  onClick={() => setSelectedId(run.id)}
+                >
+                  <div className='flex items-center justify-between gap-2 text-xs'>
+                    <span className='truncate font-medium'>{run.model}</span>
+                    <span className={STATUS_CLASS_NAMES[run.status]}>
+                      {format.dateTime(new Date(run.startedAt), {
+                        dateStyle: 'short',
+                        timeStyle: 'short',
+                      })}
+                    </span>
+                  </div>
+                  <p className='truncate text-xs text-gray-500'>
+                    {run.error || run.output || t('runHistory.noOutput')}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className='min-h-0 flex-1 overflow-y-auto pr-1'>
+            {selected ? (
+              <div className='space-y-4'>
+                <div className='flex flex-wrap justify-end gap-2'>
+                  <CopyButton
+                    content={JSON.stringify(selected, null, 2)}
+                    copyMessage={t('copiedSuccess')}
+                  />
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    className='text-red-500'
+                    onClick={() => handleDelete(selected.id)}
+                  >
+                    <Trash2 className='mr-1 h-4 w-4' />
+                    {t('runHistory.delete')}
+                  </Button>
+                  <Button variant='outline' size='sm' onClick={applySettings}>
+                    <SlidersHorizontal className='mr-1 h-4 w-4' />
+                    {t('runHistory.applySettings')}
+                  </Button>
+                  <Button size='sm' onClick={replay}>
+                    <RotateCcw className='mr-1 h-4 w-4' />
+                    {t('runHistory.replay')}
+                  </Button>
+                </div>
+                <RunDetails run={selected} />
+              </div>
+            ) : (
+              <div className='flex h-full flex-col items-center justify-center gap-2 text-sm text-gray-500'>
+                <ScrollText className='h-6 w-6' />
+                {t('runHistory.empty')}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Search palette for finding messages across all conversations.
+ * Filters by role, model and date range; selecting a result opens the message.
+ */
+
+import {
+  Command,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { getMessageModels, searchMessages } from '@/db/message-search'
+import { PlaygroundConversation, PlaygroundMessage } from '@/stores/playground'
+import { getExcerpt } from '@/utils/search'
+import { useFormatter, useTranslations } from 'next-intl'
+import { useEffect, useMemo, useState } from 'react'
+
+/**
+ * Delay between the last keystroke and the search, in milliseconds
+ * @const
+ */
+const SEARCH_DELAY = 200
+
+/**
+ * Roles offered in the role filter
+ * @const
+ */
+const ROLES = ['system', 'user', 'assistant', 'tool'] as const
+
+/**
+ * Props interface for the SearchPalette component
+ * @interface SearchPaletteProps
+ * @property {boolean} open - Whether the palette is open
+ * @property {PlaygroundConversation[]} conversations - Conversations, for the result titles
+ * @property {Function} onOpenChange - Handler for opening and closing the palette
+ * @property {Function} onSelect - Handler for choosing a result
+ */
+interface SearchPaletteProps {
+  open: boolean
+  conversations: PlaygroundConversation[]
+  onOpenChange: (open: boolean) => void
+  onSelect: (message: PlaygroundMessage) => void
+}
+
+/**
+ * Parses the value of a date input as local midnight.
+ */
+const parseDate = (value: string) =>
+  value ? new Date(`${value}T00:00`).getTime() : undefined
+
+/**
+ * Renders text with every occurrence of the query marked.
+ */
+const Highlighted = ({ text, query }: { text: string; query: string }) => {
+  if (!query) return <>{text}</>
+  const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return (
+    <>
+      {text.split(new RegExp(`(${escaped})`, 'gi')).map((part, index) =>
+        index % 2 ? (
+          <mark key={index} className='rounded-sm bg-primary/20 text-inherit'>
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  )
+}
+
+/**
+ * Command palette searching the content of all stored messages.
+ *
+ * @component
+ * @param {SearchPaletteProps} props - Component props
+ * @returns {JSX.Element} Rendered palette
+ */
+export function SearchPalette({
+  open,
+  conversations,
+  onOpenChange,
+  onSelect,
+}: SearchPaletteProps) {
+  const t = useTranslations('playground')
+  const format = useFormatter()
+  const [text, setText] = useState('')
+  const [role, setRole] = useState('all')
+  const [model, setModel] = useState('all')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [models, setModels] = useState<string[]>([])
+  const [results, setResults] = useState<PlaygroundMessage[]>([])
+
+  useEffect(() => {
+    if (open) {
+      getMessageModels().then(setModels)
+    }
+  }, [open])
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const toDate = parseDate(to)
+      const messages = await searchMessages({
+        text,
+        role: role === 'all' ? undefined : (role as PlaygroundMessage['role']),
+        model: model === 'all' ? undefined : model,
+        from: parseDate(from),
+        // The end date is inclusive
+        to: toDate === undefined ? undefined : toDate + 24 * 60 * 60 * 1000,
+      })
+      if (!cancelled) setResults(messages)
+    }, SEARCH_DELAY)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [open, text, role, model, from, to])
+
+  const titles = useMemo(
+    () => new Map(conversations.map((c) => [c.id, c.title])),
+    [conversations]
+  )
+
+  const query = text.trim()
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className='max-w-2xl overflow-hidden p-0'>
+        <DialogTitle className='sr-only'>{t('search.title')}</DialogTitle>
+        <Command shouldFilter={false}>
+          <CommandInput
+            value={text}
+            onValueChange={setText}
+            placeholder={t('search.placeholder')}
+          />
+          <div className='flex flex-wrap items-center gap-2 border-b px-3 py-2'>
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger className='h-8 w-[130px]'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value='all'>{t('search.allRoles')}</SelectItem>
+                {ROLES.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {t(`message.${item}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={model} onValueChange={setModel}>
+              <SelectTrigger className='h-8 w-[180px]'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value='all'>{t('search.allModels')}</SelectItem>
+                {models.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {item}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type='date'
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              className='h-8 w-[150px]'
+              aria-label={t('search.from')}
+            />
+            <span className='text-sm text-muted-foreground'>–</span>
+            <Input
+              type='date'
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              className='h-8 w-[150px]'
+              aria-label={t('search.to')}
+            />
+          </div>
+          <CommandList className='max-h-[420px]'>
+            <CommandEmpty>{t('search.empty')}</CommandEmpty>
+            {results.map((message) => (
+              <CommandItem
+                key={message.id}
+                value={message.id}
+                onSelect={() => onSelect(message)}
+                className='flex-col items-start gap-1'
+              >
+                <div className='flex w-full justify-between gap-2 text-xs text-muted-foreground'>
+                  <span className='truncate'>
+                    {t(`message.${message.role}`)}
+                    {' · '}
+                    {(message.conversationId &&
+                      titles.get(message.conversationId)) ||
+                      t('conversation.untitled')}
+                    {message.model && ` · ${message.model}`}
+                  </span>
+                  {message.timestamp && (
+                    <span className='shrink-0'>
+                      {format.dateTime(message.timestamp, {
+                        dateStyle: 'medium',
+                        timeStyle: 'short',
+                      })}
+                    </span>
+                  )}
+                </div>
+                <p className='line-clamp-2 text-sm'>
+                  <Highlighted
+                    text={getExcerpt(message.content, query)}
+                    query={query}
+                  />
+                </p>
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  )
+}
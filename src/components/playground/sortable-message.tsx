@@ -19,22 +19,35 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip'
-import { messageStore } from '@/db/message-store'
+import { MessageBranch, messageStore } from '@/db/message-store'
 import { useCopyToClipboard } from '@/hooks/use-copy-to-clipboard'
 import { useFileUpload } from '@/hooks/use-file-upload'
 import { useMessages } from '@/hooks/use-messages'
-import { PlaygroundMessage, uiModeAtom } from '@/stores/playground'
+import {
+  modelPricesAtom,
+  PlaygroundMessage,
+  PlaygroundToolCall,
+  playgroundToolsAtom,
+  uiModeAtom,
+} from '@/stores/playground'
+import { ATTACHMENT_ACCEPT } from '@/utils/file-extraction'
+import { formatCost, formatDuration } from '@/utils/format'
 import { cn } from '@/utils/tailwindcss'
+import { getModelPrice } from '@/utils/model-capabilities'
+import { calculateCost } from '@/utils/usage'
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
-import { useAtom } from 'jotai'
+import { useAtom, useAtomValue } from 'jotai'
 import {
   BarChart2,
   Check,
+  ChevronLeft,
+  ChevronRight,
   Copy,
   Edit2,
   Eye,
   GripVertical,
+  History,
   ImagePlus,
   Loader2,
   RefreshCw,
@@ -46,7 +59,11 @@ import { toast } from 'sonner'
 import { useDebounceCallback } from 'usehooks-ts'
 import { FilePreview } from './file-preview'
 import { MarkdownEditor } from './markdown-editor'
+import { MessageHistoryDialog } from './message-history-dialog'
+import { OutputValidation } from './output-validation'
+import { ReasoningBlock } from './reasoning-block'
 import { TokenProbabilities } from './token-probabilities'
+import { ToolCallCard } from './tool-call-card'
 
 /**
  * Props interface for the SortableMessage component
@@ -56,6 +73,12 @@ import { TokenProbabilities } from './token-probabilities'
  * @property {Function} handleEdit - Callback for editing the message
  * @property {Function} handleDelete - Callback for deleting the message
  * @property {Function} [handleRegenerate] - Optional callback for regenerating the message
+ * @property {string[]} [answeredToolCallIds] - IDs of the message's tool calls that already have a result
+ * @property {Function} [handleToolResult] - Optional callback for submitting the result of a tool call
+ * @property {MessageBranch} [branch] - Position of the message among its sibling branches
+ * @property {boolean} [isLast] - Whether the message ends the conversation; edits of earlier messages create a new branch
+ * @property {boolean} [readOnly] - Whether editing, deleting and reordering are disabled
+ * @property {boolean} [isHighlighted] - Whether the message is marked, e.g. as a search result
  */
 interface SortableMessageProps {
   message: PlaygroundMessage
@@ -63,6 +86,16 @@ interface SortableMessageProps {
   handleEdit: (id: string, message: PlaygroundMessage) => void
   handleDelete: (id: string) => void
   handleRegenerate?: (id: string) => void
+  answeredToolCallIds?: string[]
+  handleToolResult?: (
+    message: PlaygroundMessage,
+    toolCall: PlaygroundToolCall,
+    result: string
+  ) => void
+  branch?: MessageBranch
+  isLast?: boolean
+  readOnly?: boolean
+  isHighlighted?: boolean
 }
 
 /**
@@ -93,6 +126,12 @@ export const SortableMessage = memo(
     message,
     handleDelete,
     handleRegenerate,
+    answeredToolCallIds,
+    handleToolResult,
+    branch,
+    isLast = true,
+    readOnly = false,
+    isHighlighted = false,
     isRunning = false,
   }: SortableMessageProps) {
     const t = useTranslations('playground')
@@ -120,7 +159,10 @@ export const SortableMessage = memo(
     const [isFocused, setIsFocused] = useState(false)
     const [isInCard, setIsInCard] = useState(false)
     const [isEditing, setIsEditing] = useState(false)
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false)
     const [showProbabilities, setShowProbabilities] = useState(false)
+    // Unsaved edit of a message that already has replies
+    const [draft, setDraft] = useState<string | null>(null)
 
     // Handle array or string content
     const content = Array.isArray(message.content)
@@ -148,6 +190,30 @@ export const SortableMessage = memo(
       [message]
     )
 
+    /**
+     * Saves edits of the last message in place. Edits of earlier messages are
+     * kept as a draft and saved as a new branch when editing ends, so the
+     * replies to the original stay available.
+     */
+    const handleContentChange = useCallback(
+      (newContent: string) => {
+        if (isLast) {
+          handleMessageEdit(newContent)
+        } else {
+          setDraft(newContent)
+        }
+      },
+      [isLast, handleMessageEdit]
+    )
+
+    const handleToggleEditing = useCallback(async () => {
+      setIsEditing(!isEditing)
+      setDraft(null)
+      if (isEditing && draft !== null && draft !== content) {
+        await messageStore.branchMessage(message.id!, draft)
+      }
+    }, [isEditing, draft, content, message.id])
+
     const { handleEdit } = useMessages()
 
     const handleFileDelete = useCallback(
@@ -186,6 +252,19 @@ export const SortableMessage = memo(
     )
 
     const [uiMode] = useAtom(uiModeAtom)
+    const tools = useAtomValue(playgroundToolsAtom)
+    const modelPrices = useAtomValue(modelPricesAtom)
+    const cost =
+      message.usage && message.model
+        ? calculateCost(message.usage, getModelPrice(message.model, modelPrices))
+        : undefined
+
+    const handleSubmitToolResult = useCallback(
+      (toolCall: PlaygroundToolCall, result: string) => {
+        handleToolResult?.(message, toolCall, result)
+      },
+      [message, handleToolResult]
+    )
 
     const { upload, isUploading } = useFileUpload()
     const fileInputRef = useRef<HTMLInputElement>(null)
@@ -221,6 +300,7 @@ export const SortableMessage = memo(
         ref={setNodeRef}
         style={style}
         {...attributes}
+        data-message-id={message.id}
         onMouseEnter={() => setIsInCard(true)}
         onMouseLeave={() => setIsInCard(false)}
         className={cn(
@@ -228,12 +308,20 @@ export const SortableMessage = memo(
           'hover:ring-primary/95',
           'focus-within:ring-primary',
           'focus-within:hover:ring-primary',
-          isFocused && 'ring-primary hover:ring-primary'
+          isFocused && 'ring-primary hover:ring-primary',
+          isHighlighted && 'ring-2 ring-primary'
         )}
       >
         <div className='flex items-center justify-between gap-2 text-sm text-gray-500'>
-          <div>
-            {uiMode === 'expert' ? (
+          <div className='flex items-center gap-3'>
+            {message.role === 'tool' ? (
+              <span>
+                {t('message.tool')}
+                {message.toolName && (
+                  <span className='ml-1 font-mono'>{message.toolName}</span>
+                )}
+              </span>
+            ) : uiMode === 'expert' && !readOnly ? (
               <Select
                 value={currentRole}
                 onValueChange={handleRoleChange}
@@ -261,6 +349,71 @@ export const SortableMessage = memo(
             ) : (
               <span>{t(`message.${currentRole}`)}</span>
             )}
+            {branch && branch.count > 1 && (
+              <span className='flex items-center text-xs'>
+                <Button
+                  variant='ghost'
+                  size='icon'
+                  className='size-5'
+                  disabled={branch.index === 0}
+                  onClick={() => messageStore.switchBranch(message.id, -1)}
+                  aria-label={t('message.previousBranch')}
+                >
+                  <ChevronLeft className='size-4' />
+                </Button>
+                {branch.index + 1}/{branch.count}
+                <Button
+                  variant='ghost'
+                  size='icon'
+                  className='size-5'
+                  disabled={branch.index === branch.count - 1}
+                  onClick={() => messageStore.switchBranch(message.id, 1)}
+                  aria-label={t('message.nextBranch')}
+                >
+                  <ChevronRight className='size-4' />
+                </Button>
+              </span>
+            )}
+            {message.usage && (
+              <span className='text-xs text-gray-400'>
+                {message.model && <span className='mr-2'>{message.model}</span>}
+                {t('usage.message', {
+                  prompt: message.usage.promptTokens,
+                  completion: message.usage.completionTokens,
+                })}
+                {cost !== undefined && (
+                  <span className='ml-2'>{formatCost(cost)}</span>
+                )}
+              </span>
+            )}
+            {message.metrics && (
+              <span className='flex gap-2 text-xs text-gray-400'>
+                {message.metrics.firstTokenTime !== undefined && (
+                  <span>
+                    {t('metrics.firstToken', {
+                      value: formatDuration(message.metrics.firstTokenTime),
+                    })}
+                  </span>
+                )}
+                <span>
+                  {t('metrics.duration', {
+                    value: formatDuration(message.metrics.duration),
+                  })}
+                </span>
+                {message.metrics.tokensPerSecond !== undefined && (
+                  <span>
+                    {t('metrics.tokensPerSecond', {
+                      value: message.metrics.tokensPerSecond.toFixed(1),
+                    })}
+                  </span>
+                )}
+              </span>
+            )}
+            {message.truncated && (
+              <span className='text-xs text-amber-600'>
+                {t('message.truncated')}
+              </span>
+            )}
           </div>
           <div
             className={cn(
@@ -299,9 +452,9 @@ export const SortableMessage = memo(
                     size='icon'
                     className={cn(
                       'size-6 p-1',
-                      uiMode !== 'expert' && 'hidden'
+                      (uiMode !== 'expert' || readOnly) && 'hidden'
                     )}
-                    onClick={() => setIsEditing(!isEditing)}
+                    onClick={handleToggleEditing}
                   >
                     {isEditing ? (
                       <Eye className='size-4' />
@@ -316,12 +469,37 @@ export const SortableMessage = memo(
                 >
                   <p>
                     {isEditing
-                      ? t('message.viewTooltip')
+                      ? draft !== null && draft !== content
+                        ? t('message.saveBranchTooltip')
+                        : t('message.viewTooltip')
                       : t('message.editTooltip')}
                   </p>
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
+            <TooltipProvider delayDuration={0}>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant='outline'
+                    size='icon'
+                    className={cn(
+                      'size-6 p-1',
+                      (uiMode !== 'expert' || readOnly) && 'hidden'
+                    )}
+                    onClick={() => setIsHistoryOpen(true)}
+                  >
+                    <History className='size-4' />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent
+                  sideOffset={4}
+                  className='max-w-xs select-text break-words rounded-md bg-gray-900 px-3 py-2 text-sm text-gray-50'
+                >
+                  <p>{t('history.tooltip')}</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
             <TooltipProvider delayDuration={0}>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -352,7 +530,7 @@ export const SortableMessage = memo(
                   <Button
                     variant='outline'
                     size='icon'
-                    className={cn('size-6 p-1')}
+                    className={cn('size-6 p-1', readOnly && 'hidden')}
                     onClick={() => handleDelete(message.id)}
                   >
                     <Trash2 className='size-4' />
@@ -397,7 +575,7 @@ export const SortableMessage = memo(
                     size='icon'
                     className={cn(
                       'size-6 p-1',
-                      uiMode !== 'expert' && 'hidden'
+                      (uiMode !== 'expert' || readOnly) && 'hidden'
                     )}
                   >
                     <GripVertical className='size-4 cursor-move' />
@@ -414,7 +592,10 @@ export const SortableMessage = memo(
           </div>
         </div>
         <div className='mt-2 text-sm'>
-          {isRunning && message.content.length === 0 ? (
+          {isRunning &&
+          message.content.length === 0 &&
+          !message.reasoning &&
+          !message.toolCalls?.length ? (
             <LoadingIndicator />
           ) : (
             <div className='flex flex-col flex-1'>
@@ -422,11 +603,47 @@ export const SortableMessage = memo(
                 <TokenProbabilities logprobs={message.logprobs} />
               ) : (
                 <>
-                  <MarkdownEditor
-                    content={content}
-                    isEditing={isEditing}
-                    onChange={handleMessageEdit}
-                  />
+                  {message.reasoning && (
+                    <ReasoningBlock
+                      reasoning={message.reasoning}
+                      tokens={message.usage?.reasoningTokens}
+                      isStreaming={isRunning && !content}
+                    />
+                  )}
+                  {(content || isEditing || !message.toolCalls?.length) && (
+                    <MarkdownEditor
+                      content={draft ?? content}
+                      isEditing={isEditing}
+                      onChange={handleContentChange}
+                    />
+                  )}
+                  {message.role === 'assistant' &&
+                    message.responseFormat &&
+                    !isRunning &&
+                    !message.toolCalls?.length && (
+                      <OutputValidation
+                        content={content}
+                        format={message.responseFormat}
+                      />
+                    )}
+                  {message.toolCalls?.map((toolCall) => (
+                    <ToolCallCard
+                      key={toolCall.toolCallId}
+                      toolCall={toolCall}
+                      answered={
+                        !!answeredToolCallIds?.includes(toolCall.toolCallId)
+                      }
+                      mockResult={
+                        tools.find((tool) => tool.name === toolCall.toolName)
+                          ?.mockResult || undefined
+                      }
+                      onSubmitResult={
+                        isRunning || !handleToolResult
+                          ? undefined
+                          : handleSubmitToolResult
+                      }
+                    />
+                  ))}
                   {message.role === 'user' && (
                     <div className='flex items-center gap-2'>
                       {message.files && (
@@ -445,7 +662,7 @@ export const SortableMessage = memo(
                             multiple
                             className="hidden"
                             onChange={handleFileUpload}
-                            accept="image/*"
+                            accept={ATTACHMENT_ACCEPT}
                           />
                           <TooltipProvider delayDuration={0}>
                             <Tooltip>
@@ -478,6 +695,14 @@ export const SortableMessage = memo(
             </div>
           )}
         </div>
+        {!readOnly && (
+          <MessageHistoryDialog
+            open={isHistoryOpen}
+            message={message}
+            isLast={isLast}
+            onOpenChange={setIsHistoryOpen}
+          />
+        )}
       </div>
     )
   },
@@ -485,8 +710,20 @@ export const SortableMessage = memo(
     return (
       prevProps.message.id === nextProps.message.id &&
       prevProps.message.content === nextProps.message.content &&
+      prevProps.message.reasoning === nextProps.message.reasoning &&
       prevProps.message.role === nextProps.message.role &&
       prevProps.message.files === nextProps.message.files &&
+      prevProps.message.toolCalls === nextProps.message.toolCalls &&
+      prevProps.message.usage === nextProps.message.usage &&
+      prevProps.message.metrics === nextProps.message.metrics &&
+      prevProps.message.truncated === nextProps.message.truncated &&
+      prevProps.answeredToolCallIds?.join() ===
+        nextProps.answeredToolCallIds?.join() &&
+      prevProps.branch?.index === nextProps.branch?.index &&
+      prevProps.branch?.count === nextProps.branch?.count &&
+      prevProps.isLast === nextProps.isLast &&
+      prevProps.readOnly === nextProps.readOnly &&
+      prevProps.isHighlighted === nextProps.isHighlighted &&
       prevProps.isRunning === nextProps.isRunning
     )
   }
@@ -0,0 +1,375 @@
+/**
+ * @fileoverview Parameter sweep panel.
+ * Edits the setting values to sweep over and shows the streamed answer of every
+ * combination in a matrix, with latency and token usage per cell.
+ */
+
+import { Input } from '@/components/ui/input'
+import { MarkdownRenderer } from '@/components/ui/markdown-renderer'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { TooltipButton } from '@/components/ui/tooltip-button'
+import { SweepResult } from '@/hooks/use-parameter-sweep'
+import { formatDuration } from '@/utils/format'
+import {
+  formatSweepValues,
+  getSweepCells,
+  parseSweepValues,
+  SWEEP_CELL_LIMIT,
+  SWEEP_PARAMETERS,
+  SweepAxis,
+  SweepConfig,
+  SweepParameter,
+} from '@/utils/sweep'
+import { cn } from '@/utils/tailwindcss'
+import { CheckCheck, Grid3x3, Loader2, Square, X } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { memo, useEffect, useState } from 'react'
+import { OutputValidation } from './output-validation'
+import { ReasoningBlock } from './reasoning-block'
+import { ToolCallCard } from './tool-call-card'
+
+/**
+ * Sweep parameters, in display order.
+ * @const
+ */
+const PARAMETERS = Object.keys(SWEEP_PARAMETERS) as SweepParameter[]
+
+/**
+ * Props interface for the SweepPanel component
+ * @interface SweepPanelProps
+ * @property {SweepConfig} config - Axes of the sweep
+ * @property {SweepResult[]} results - Results of the latest sweep
+ * @property {SweepConfig | null} runConfig - Axes of the latest sweep
+ * @property {Function} onConfigChange - Handler for changes of the axes
+ * @property {Function} onStop - Handler for stopping a single cell
+ * @property {Function} onKeep - Handler for adding a cell's answer to the conversation
+ * @property {Function} onClose - Handler for leaving sweep mode
+ */
+interface SweepPanelProps {
+  config: SweepConfig
+  results: SweepResult[]
+  runConfig: SweepConfig | null
+  onConfigChange: (config: SweepConfig) => void
+  onStop: (key: string) => void
+  onKeep: (result: SweepResult) => void
+  onClose: () => void
+}
+
+/**
+ * Editor of one axis: the parameter and its values.
+ * Values are parsed when the input loses focus.
+ * @component
+ */
+function AxisEditor({
+  label,
+  axis,
+  disabledParameter,
+  optional,
+  onChange,
+}: {
+  label: string
+  axis: SweepAxis | null
+  disabledParameter?: SweepParameter
+  optional?: boolean
+  onChange: (axis: SweepAxis | null) => void
+}) {
+  const t = useTranslations('playground')
+  const [text, setText] = useState(formatSweepValues(axis?.values ?? []))
+
+  useEffect(() => {
+    setText(formatSweepValues(axis?.values ?? []))
+  }, [axis?.values])
+
+  return (
+    <div className='flex min-w-0 flex-1 items-center gap-2'>
+      <span className='shrink-0 text-xs font-medium text-gray-500'>
+        {label}
+      </span>
+      <Select
+        value={axis?.parameter ?? 'none'}
+        onValueChange={(value) =>
+          onChange(
+            value === 'none'
+              ? null
+              : {
+                  parameter: value as SweepParameter,
+                  values: parseSweepValues(text, value as SweepParameter),
+                }
+          )
+        }
+      >
+        <SelectTrigger className='h-8 w-36 shrink-0 text-xs'>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && (
+            <SelectItem value='none'>{t('sweep.noColumns')}</SelectItem>
+          )}
+          {PARAMETERS.map((parameter) => (
+            <SelectItem
+              key={parameter}
+              value={parameter}
+              disabled={parameter === disabledParameter}
+            >
+              {t(`sweep.parameters.${parameter}`)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {axis && (
+        <Input
+          value={text}
+          placeholder={t('sweep.valuesPlaceholder')}
+          className='h-8 min-w-0 flex-1 font-mono text-xs md:text-xs'
+          onChange={(e) => setText(e.target.value)}
+          onBlur={() => {
+            const values = parseSweepValues(text, axis.parameter)
+            if (values.length) {
+              onChange({ ...axis, values })
+            } else {
+              setText(formatSweepValues(axis.values))
+            }
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+/**
+ * A single cell of the sweep matrix.
+ * @component
+ */
+const SweepCellView = memo(function SweepCellView({
+  result,
+  onStop,
+  onKeep,
+}: {
+  result?: SweepResult
+  onStop: (key: string) => void
+  onKeep: (result: SweepResult) => void
+}) {
+  const t = useTranslations('playground')
+  const isRunning = result?.status === 'running'
+  const canKeep =
+    !!result &&
+    (result.status === 'done' || result.status === 'stopped') &&
+    (result.message.content.length > 0 || !!result.message.toolCalls?.length)
+
+  return (
+    <div className='flex min-h-[8rem] min-w-0 flex-col rounded-lg bg-background shadow-sm ring-1 ring-gray-300'>
+      {result && (
+        <div className='flex items-center justify-between gap-2 border-b border-gray-200 px-2 py-1 text-xs text-gray-500'>
+          <div className='flex min-w-0 flex-wrap gap-x-2'>
+            {result.startedAt && result.firstTokenAt && (
+              <span>
+                {t('comparison.firstToken', {
+                  value: formatDuration(result.firstTokenAt - result.startedAt),
+                })}
+              </span>
+            )}
+            {result.startedAt && result.finishedAt && (
+              <span>
+                {t('comparison.duration', {
+                  value: formatDuration(result.finishedAt - result.startedAt),
+                })}
+              </span>
+            )}
+            {result.usage && (
+              <span>
+                {t('comparison.tokens', {
+                  prompt: result.usage.promptTokens,
+                  completion: result.usage.completionTokens,
+                })}
+              </span>
+            )}
+            {result.status === 'stopped' && (
+              <span className='text-amber-600'>{t('comparison.stopped')}</span>
+            )}
+          </div>
+          {isRunning || result.status === 'pending' ? (
+            <TooltipButton
+              variant='outline'
+              size='icon'
+              className='size-5 shrink-0 p-0.5'
+              onClick={() => onStop(result.cell.key)}
+              tooltipContent={t('message.stopTooltip')}
+            >
+              <Square className='size-3' />
+            </TooltipButton>
+          ) : (
+            canKeep && (
+              <TooltipButton
+                variant='outline'
+                size='sm'
+                className='h-5 shrink-0 px-1.5 text-xs'
+                onClick={() => onKeep(result)}
+                tooltipContent={t('comparison.keepTooltip')}
+              >
+                <CheckCheck className='size-3' />
+              </TooltipButton>
+            )
+          )}
+        </div>
+      )}
+      <div className='max-h-72 min-h-0 flex-1 overflow-y-auto p-2 text-sm'>
+        {!result ? (
+          <p className='text-xs text-gray-400'>{t('comparison.waiting')}</p>
+        ) : result.status === 'error' ? (
+          <p className='text-red-500'>{result.error}</p>
+        ) : result.status === 'pending' ? (
+          <p className='text-xs text-gray-400'>{t('sweep.queued')}</p>
+        ) : isRunning &&
+          result.message.content.length === 0 &&
+          !result.message.reasoning &&
+          !result.message.toolCalls?.length ? (
+          <div className='flex items-center gap-2 text-gray-500'>
+            <Loader2 className='h-4 w-4 animate-spin' />
+            <span>{t('generating')}</span>
+          </div>
+        ) : (
+          <>
+            {result.message.reasoning && (
+              <ReasoningBlock
+                reasoning={result.message.reasoning}
+                tokens={result.usage?.reasoningTokens}
+                isStreaming={isRunning && !result.message.content}
+              />
+            )}
+            <MarkdownRenderer>{result.message.content}</MarkdownRenderer>
+            {result.message.responseFormat &&
+              result.status === 'done' &&
+              !result.message.toolCalls?.length && (
+                <OutputValidation
+                  content={result.message.content}
+                  format={result.message.responseFormat}
+                />
+              )}
+            {result.message.toolCalls?.map((toolCall) => (
+              <ToolCallCard
+                key={toolCall.toolCallId}
+                toolCall={toolCall}
+                answered={false}
+              />
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  )
+})
+
+/**
+ * Panel running the conversation over a grid of setting values.
+ * The matrix follows the edited axes until a sweep runs; its results stay
+ * visible until the next run or until one of them is kept.
+ *
+ * @component
+ * @param {SweepPanelProps} props - Component props
+ * @returns {JSX.Element} Rendered sweep panel
+ */
+export function SweepPanel({
+  config,
+  results,
+  runConfig,
+  onConfigChange,
+  onStop,
+  onKeep,
+  onClose,
+}: SweepPanelProps) {
+  const t = useTranslations('playground')
+  const cellCount = getSweepCells(config).length
+  // Results keep the axes they were run with
+  const { rows, columns } = (results.length && runConfig) || config
+  const columnValues = columns ? columns.values : [undefined]
+  const label = (axis: SweepAxis | null, value?: number) =>
+    axis ? `${t(`sweep.parameters.${axis.parameter}`)} = ${value}` : ''
+
+  return (
+    <div className='flex h-full flex-col border-l border-gray-200'>
+      <div className='flex items-center justify-between gap-2 px-4 py-3'>
+        <div className='flex items-center gap-2'>
+          <Grid3x3 className='h-4 w-4 text-gray-500' />
+          <span className='text-sm font-semibold'>{t('sweep.title')}</span>
+          <span
+            className={cn(
+              'text-xs text-gray-500',
+              cellCount > SWEEP_CELL_LIMIT && 'text-red-500'
+            )}
+          >
+            {t('sweep.cellCount', {
+              count: cellCount,
+              max: SWEEP_CELL_LIMIT,
+            })}
+          </span>
+        </div>
+        <TooltipButton
+          variant='ghost'
+          size='icon'
+          className='h-8 w-8'
+          onClick={onClose}
+          tooltipContent={t('sweep.close')}
+        >
+          <X className='h-4 w-4' />
+        </TooltipButton>
+      </div>
+      <div className='flex flex-col gap-2 px-4 pb-3'>
+        <AxisEditor
+          label={t('sweep.rows')}
+          axis={config.rows}
+          disabledParameter={config.columns?.parameter}
+          onChange={(rows) => rows && onConfigChange({ ...config, rows })}
+        />
+        <AxisEditor
+          label={t('sweep.columns')}
+          axis={config.columns}
+          disabledParameter={config.rows.parameter}
+          optional
+          onChange={(columns) => onConfigChange({ ...config, columns })}
+        />
+      </div>
+      <div className='min-h-0 flex-1 overflow-auto px-4 pb-4'>
+        <div
+          className='grid gap-2'
+          style={{
+            gridTemplateColumns: `auto repeat(${columnValues.length}, minmax(12rem, 1fr))`,
+          }}
+        >
+          <div />
+          {columnValues.map((value, column) => (
+            <div
+              key={column}
+              className='truncate text-center text-xs font-medium text-gray-600'
+            >
+              {label(columns, value)}
+            </div>
+          ))}
+          {rows.values.map((value, row) => [
+            <div
+              key={`label-${row}`}
+              className='whitespace-nowrap pt-2 text-xs font-medium text-gray-600'
+            >
+              {label(rows, value)}
+            </div>,
+            ...columnValues.map((_, column) => (
+              <SweepCellView
+                key={`${row}:${column}`}
+                result={results.find(
+                  (result) => result.cell.key === `${row}:${column}`
+                )}
+                onStop={onStop}
+                onKeep={onKeep}
+              />
+            )),
+          ])}
+        </div>
+      </div>
+    </div>
+  )
+}
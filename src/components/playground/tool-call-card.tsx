@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Card showing a tool call requested by the model.
+ * Lets the user type a result or return the tool's mocked result to continue the loop.
+ */
+
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { PlaygroundToolCall } from '@/stores/playground'
+import { Wrench } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { memo, useState } from 'react'
+
+/**
+ * Props interface for the ToolCallCard component
+ * @interface ToolCallCardProps
+ * @property {PlaygroundToolCall} toolCall - The tool call to display
+ * @property {boolean} answered - Whether a result for the call is already in the conversation
+ * @property {string} [mockResult] - Mocked result of the called tool, if defined
+ * @property {Function} [onSubmitResult] - Handler for submitting the result of the call
+ */
+interface ToolCallCardProps {
+  toolCall: PlaygroundToolCall
+  answered: boolean
+  mockResult?: string
+  onSubmitResult?: (toolCall: PlaygroundToolCall, result: string) => void
+}
+
+/**
+ * Displays the name and arguments of a tool call.
+ * Unanswered calls show a form for entering the result.
+ *
+ * @component
+ * @param {ToolCallCardProps} props - Component props
+ * @returns {JSX.Element} Rendered tool call
+ */
+export const ToolCallCard = memo(function ToolCallCard({
+  toolCall,
+  answered,
+  mockResult,
+  onSubmitResult,
+}: ToolCallCardProps) {
+  const t = useTranslations('playground')
+  const [result, setResult] = useState('')
+
+  return (
+    <div className='mt-2 rounded-md border border-gray-200 bg-gray-50 p-3'>
+      <div className='flex items-center justify-between gap-2 text-xs text-gray-600'>
+        <div className='flex items-center gap-1.5 font-medium'>
+          <Wrench className='h-3.5 w-3.5' />
+          {t('tools.callTitle', { name: toolCall.toolName })}
+        </div>
+        <span className='truncate font-mono text-gray-400'>
+          {toolCall.toolCallId}
+        </span>
+      </div>
+      <pre className='mt-2 overflow-x-auto rounded bg-background p-2 font-mono text-xs'>
+        {JSON.stringify(toolCall.args, null, 2)}
+      </pre>
+      {!answered && onSubmitResult && (
+        <div className='mt-2 space-y-2'>
+          <Textarea
+            className='min-h-[60px] bg-background font-mono text-xs md:text-xs'
+            placeholder={t('tools.resultPlaceholder')}
+            value={result}
+            onChange={(e) => setResult(e.target.value)}
+          />
+          <div className='flex justify-end gap-2'>
+            {mockResult !== undefined && (
+              <Button
+                variant='outline'
+                size='sm'
+                onClick={() => onSubmitResult(toolCall, mockResult)}
+              >
+                {t('tools.useMock')}
+              </Button>
+            )}
+            <Button
+              size='sm'
+              disabled={!result.trim()}
+              onClick={() => onSubmitResult(toolCall, result)}
+            >
+              {t('tools.submitResult')}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+})
@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Dialog for defining a tool the model may call.
+ * Edits the function name, description, JSON Schema of the arguments and a mocked result.
+ */
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { PlaygroundTool } from '@/stores/playground'
+import { isValidToolName, parseToolParameters } from '@/utils/tools'
+import { useTranslations } from 'next-intl'
+import { useEffect, useState } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * Schema used for new tools.
+ * @const
+ */
+const DEFAULT_PARAMETERS = JSON.stringify(
+  {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Search query' },
+    },
+    required: ['query'],
+  },
+  null,
+  2
+)
+
+/**
+ * Props interface for the ToolEditorDialog component
+ * @interface ToolEditorDialogProps
+ * @property {boolean} open - Whether the dialog is open
+ * @property {PlaygroundTool | null} tool - Tool to edit, or null to create a new one
+ * @property {Function} onOpenChange - Handler for opening and closing the dialog
+ * @property {Function} onSave - Handler for saving the edited tool
+ */
+interface ToolEditorDialogProps {
+  open: boolean
+  tool: PlaygroundTool | null
+  onOpenChange: (open: boolean) => void
+  onSave: (tool: PlaygroundTool) => void
+}
+
+/**
+ * Dialog with a form and JSON Schema editor for a tool definition.
+ * The schema is validated while typing; invalid tools cannot be saved.
+ *
+ * @component
+ * @param {ToolEditorDialogProps} props - Component props
+ * @returns {JSX.Element} Rendered dialog
+ */
+export function ToolEditorDialog({
+  open,
+  tool,
+  onOpenChange,
+  onSave,
+}: ToolEditorDialogProps) {
+  const t = useTranslations('playground')
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [parameters, setParameters] = useState(DEFAULT_PARAMETERS)
+  const [mockResult, setMockResult] = useState('')
+
+  // Reset the form whenever the dialog is opened
+  useEffect(() => {
+    if (!open) return
+    setName(tool?.name ?? '')
+    setDescription(tool?.description ?? '')
+    setParameters(tool?.parameters ?? DEFAULT_PARAMETERS)
+    setMockResult(tool?.mockResult ?? '')
+  }, [open, tool])
+
+  const nameError = name && !isValidToolName(name) ? t('tools.nameInvalid') : ''
+  const { error: parametersError } = parseToolParameters(parameters)
+
+  const handleSave = () => {
+    onSave({
+      id: tool?.id ?? uuidv4(),
+      enabled: tool?.enabled ?? true,
+      name,
+      description,
+      parameters,
+      mockResult,
+    })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className='max-w-2xl'>
+        <DialogHeader>
+          <DialogTitle>
+            {tool ? t('tools.editTitle') : t('tools.addTitle')}
+          </DialogTitle>
+          <DialogDescription>{t('tools.editorDesc')}</DialogDescription>
+        </DialogHeader>
+        <div className='space-y-4'>
+          <div className='space-y-1.5'>
+            <Label>{t('tools.name')}</Label>
+            <Input
+              value={name}
+              placeholder='search_web'
+              onChange={(e) => setName(e.target.value)}
+              className='font-mono'
+            />
+            {nameError && <p className='text-xs text-red-500'>{nameError}</p>}
+          </div>
+          <div className='space-y-1.5'>
+            <Label>{t('tools.description')}</Label>
+            <Input
+              value={description}
+              placeholder={t('tools.descriptionPlaceholder')}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className='space-y-1.5'>
+            <Label>{t('tools.parameters')}</Label>
+            <Textarea
+              value={parameters}
+              onChange={(e) => setParameters(e.target.value)}
+              className='min-h-[180px] font-mono text-xs md:text-xs'
+              spellCheck={false}
+            />
+            {parametersError && (
+              <p className='text-xs text-red-500'>{parametersError}</p>
+            )}
+          </div>
+          <div className='space-y-1.5'>
+            <Label>{t('tools.mockResult')}</Label>
+            <Textarea
+              value={mockResult}
+              placeholder='{"results": []}'
+              onChange={(e) => setMockResult(e.target.value)}
+              className='min-h-[80px] font-mono text-xs md:text-xs'
+              spellCheck={false}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant='outline' onClick={() => onOpenChange(false)}>
+            {t('tools.cancel')}
+          </Button>
+          <Button
+            disabled={!name || !!nameError || !!parametersError}
+            onClick={handleSave}
+          >
+            {t('tools.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
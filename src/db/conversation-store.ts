@@ -0,0 +1,250 @@
+/**
+ * @fileoverview Conversation store implementation for managing saved playground sessions.
+ * Provides create, import, rename, duplicate and delete operations backed by IndexedDB.
+ */
+
+import {
+  DEFAULT_CONVERSATION_ID,
+  PlaygroundConversation,
+  PlaygroundMessage,
+} from '@/stores/playground'
+import type { ImportedMessage } from '@/utils/conversation-file'
+import { logger } from '@/utils/logger'
+import { v4 as uuidv4 } from 'uuid'
+import { db } from '.'
+
+/**
+ * Callback type for conversation list changes.
+ * @callback Listener
+ * @param {PlaygroundConversation[]} conversations - Updated conversation list
+ */
+type Listener = (conversations: PlaygroundConversation[]) => void
+
+/**
+ * Manages the list of conversations and their persistence.
+ * Conversations are kept sorted by last update, most recent first.
+ *
+ * @class
+ */
+class ConversationStore {
+  private listeners: Set<Listener> = new Set()
+  private conversations: PlaygroundConversation[] = []
+
+  /**
+   * Subscribes a listener to conversation list changes.
+   * @param {Listener} listener - Callback function to be called on state changes
+   * @returns {Function} Unsubscribe function
+   */
+  subscribe(listener: Listener) {
+    this.listeners.add(listener)
+    listener(this.conversations)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Sorts the cached conversations and notifies all listeners.
+   * @private
+   */
+  private notify() {
+    this.conversations.sort((a, b) => b.updatedAt - a.updatedAt)
+    const conversationsCopy = this.conversations.map((c) => ({ ...c }))
+    this.listeners.forEach((listener) => listener(conversationsCopy))
+  }
+
+  /**
+   * Loads conversations from IndexedDB.
+   * Creates the default conversation when the database has none.
+   * @async
+   */
+  async init() {
+    const conversations = await db.conversations.toArray()
+    if (conversations.length === 0) {
+      const now = Date.now()
+      const conversation = {
+        id: DEFAULT_CONVERSATION_ID,
+        title: '',
+        createdAt: now,
+        updatedAt: now,
+      }
+      await db.conversations.put(conversation)
+      conversations.push(conversation)
+    }
+    this.conversations = conversations
+    this.notify()
+  }
+
+  /**
+   * Creates a new empty conversation.
+   * @async
+   * @param {string} [title] - Optional conversation title
+   * @returns {Promise<PlaygroundConversation>} The created conversation
+   */
+  async create(title = '') {
+    const now = Date.now()
+    const conversation = { id: uuidv4(), title, createdAt: now, updatedAt: now }
+
+    await db.conversations.add(conversation)
+    this.conversations = [...this.conversations, conversation]
+    this.notify()
+
+    logger.info('Conversation created', {
+      context: { conversationId: conversation.id },
+      module: 'ConversationStore',
+    })
+    return conversation
+  }
+
+  /**
+   * Renames a conversation.
+   * @async
+   * @param {string} id - ID of the conversation to rename
+   * @param {string} title - New title
+   */
+  async rename(id: string, title: string) {
+    await db.conversations.update(id, { title, updatedAt: Date.now() })
+    this.conversations = this.conversations.map((c) =>
+      c.id === id ? { ...c, title, updatedAt: Date.now() } : c
+    )
+    this.notify()
+  }
+
+  /**
+   * Marks a conversation as recently updated.
+   * @async
+   * @param {string} id - ID of the conversation
+   */
+  async touch(id: string) {
+    const updatedAt = Date.now()
+    await db.conversations.update(id, { updatedAt })
+    this.conversations = this.conversations.map((c) =>
+      c.id === id ? { ...c, updatedAt } : c
+    )
+    this.notify()
+  }
+
+  /**
+   * Copies a conversation together with all of its messages.
+   * @async
+   * @param {string} id - ID of the conversation to copy
+   * @param {string} title - Title of the copy
+   * @returns {Promise<PlaygroundConversation | undefined>} The copy, if the source exists
+   */
+  async duplicate(id: string, title: string) {
+    const source = this.conversations.find((c) => c.id === id)
+    if (!source) return
+
+    const now = Date.now()
+    const conversation = { id: uuidv4(), title, createdAt: now, updatedAt: now }
+    const messages = await db.messages
+      .where('conversationId')
+      .equals(id)
+      .toArray()
+
+    // New IDs for the copies, parent links are remapped to keep the branch tree
+    const ids = new Map(messages.map((msg) => [msg.id, uuidv4()]))
+
+    await db.transaction('rw', db.conversations, db.messages, async () => {
+      await db.conversations.add(conversation)
+      await db.messages.bulkAdd(
+        messages.map((msg) => ({
+          ...msg,
+          id: ids.get(msg.id)!,
+          parentId: msg.parentId ? ids.get(msg.parentId) ?? null : null,
+          conversationId: conversation.id,
+        }))
+      )
+    })
+
+    this.conversations = [...this.conversations, conversation]
+    this.notify()
+
+    logger.info('Conversation duplicated', {
+      context: { sourceId: id, conversationId: conversation.id },
+      module: 'ConversationStore',
+    })
+    return conversation
+  }
+
+  /**
+   * Creates a conversation from imported messages.
+   * The messages are linked in the given order as a single branch.
+   * @async
+   * @param {string} title - Conversation title
+   * @param {ImportedMessage[]} messages - Messages in conversation order
+   * @returns {Promise<PlaygroundConversation>} The created conversation
+   */
+  async createFromMessages(title: string, messages: ImportedMessage[]) {
+    const now = Date.now()
+    const conversation = { id: uuidv4(), title, createdAt: now, updatedAt: now }
+
+    let parentId: string | null = null
+    const records = messages.map((msg, index) => {
+      const record: PlaygroundMessage = {
+        ...msg,
+        id: uuidv4(),
+        conversationId: conversation.id,
+        parentId,
+        timestamp: now + index,
+        activeAt: now + index,
+      }
+      parentId = record.id
+      return record
+    })
+
+    await db.transaction('rw', db.conversations, db.messages, async () => {
+      await db.conversations.add(conversation)
+      await db.messages.bulkAdd(records)
+    })
+
+    this.conversations = [...this.conversations, conversation]
+    this.notify()
+
+    logger.info('Conversation imported', {
+      context: { conversationId: conversation.id, messages: records.length },
+      module: 'ConversationStore',
+    })
+    return conversation
+  }
+
+  /**
+   * Deletes a conversation and all of its messages and their revisions.
+   * A new empty conversation is created when the last one is deleted.
+   * @async
+   * @param {string} id - ID of the conversation to delete
+   * @returns {Promise<PlaygroundConversation[]>} Remaining conversations
+   */
+  async delete(id: string) {
+    await db.transaction(
+      'rw',
+      [db.conversations, db.messages, db.messageRevisions],
+      async () => {
+        await db.messages.where('conversationId').equals(id).delete()
+        await db.messageRevisions.where('conversationId').equals(id).delete()
+        await db.conversations.delete(id)
+      }
+    )
+
+    this.conversations = this.conversations.filter((c) => c.id !== id)
+    if (this.conversations.length === 0) {
+      await this.create()
+    } else {
+      this.notify()
+    }
+
+    logger.info('Conversation deleted', {
+      context: { conversationId: id },
+      module: 'ConversationStore',
+    })
+    return [...this.conversations]
+  }
+}
+
+/**
+ * Singleton instance of ConversationStore.
+ * Use this instance for all conversation operations.
+ * @constant
+ * @type {ConversationStore}
+ */
+export const conversationStore = new ConversationStore()
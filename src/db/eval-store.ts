@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Evaluation store implementation for prompt test suites.
+ * Provides save and delete operations for suites and keeps the history of
+ * their runs, backed by IndexedDB.
+ */
+
+import { PlaygroundEvalRun, PlaygroundEvalSuite } from '@/stores/playground'
+import { logger } from '@/utils/logger'
+import { v4 as uuidv4 } from 'uuid'
+import { db } from '.'
+
+/**
+ * Number of runs kept per suite, older runs are deleted.
+ * @const
+ */
+const MAX_RUNS_PER_SUITE = 50
+
+/**
+ * Callback type for suite and run changes.
+ * @callback Listener
+ * @param {PlaygroundEvalSuite[]} suites - Updated suite list
+ * @param {PlaygroundEvalRun[]} runs - Updated runs of all suites, oldest first
+ */
+type Listener = (
+  suites: PlaygroundEvalSuite[],
+  runs: PlaygroundEvalRun[]
+) => void
+
+/**
+ * Manages the evaluation suites, their run history and their persistence.
+ * Suites are kept sorted by last update, most recent first.
+ *
+ * @class
+ */
+class EvalStore {
+  private listeners: Set<Listener> = new Set()
+  private suites: PlaygroundEvalSuite[] = []
+  private runs: PlaygroundEvalRun[] = []
+
+  /**
+   * Subscribes a listener to suite and run changes.
+   * @param {Listener} listener - Callback function to be called on state changes
+   * @returns {Function} Unsubscribe function
+   */
+  subscribe(listener: Listener) {
+    this.listeners.add(listener)
+    listener(this.suites, this.runs)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Sorts the cached suites and runs and notifies all listeners.
+   * @private
+   */
+  private notify() {
+    this.suites.sort((a, b) => b.updatedAt - a.updatedAt)
+    this.runs.sort((a, b) => a.startedAt - b.startedAt)
+    const suitesCopy = this.suites.map((suite) => ({ ...suite }))
+    const runsCopy = this.runs.map((run) => ({ ...run }))
+    this.listeners.forEach((listener) => listener(suitesCopy, runsCopy))
+  }
+
+  /**
+   * Loads suites and runs from IndexedDB.
+   * @async
+   */
+  async init() {
+    const [suites, runs] = await Promise.all([
+      db.evalSuites.toArray(),
+      db.evalRuns.toArray(),
+    ])
+    this.suites = suites
+    this.runs = runs
+    this.notify()
+  }
+
+  /**
+   * Creates a suite or updates an existing one.
+   * @async
+   * @param {Object} suite - Suite to save, without an id for new suites
+   * @returns {Promise<PlaygroundEvalSuite>} The saved suite
+   */
+  async saveSuite(
+    suite: Omit<PlaygroundEvalSuite, 'id' | 'createdAt' | 'updatedAt'> & {
+      id?: string
+    }
+  ) {
+    const now = Date.now()
+    const existing = this.suites.find((s) => s.id === suite.id)
+    const saved: PlaygroundEvalSuite = {
+      ...suite,
+      id: existing?.id ?? uuidv4(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    }
+
+    await db.evalSuites.put(saved)
+    this.suites = existing
+      ? this.suites.map((s) => (s.id === saved.id ? saved : s))
+      : [...this.suites, saved]
+    this.notify()
+
+    logger.info('Eval suite saved', {
+      context: { suiteId: saved.id, cases: saved.cases.length },
+      module: 'EvalStore',
+    })
+    return saved
+  }
+
+  /**
+   * Deletes a suite and its runs.
+   * @async
+   * @param {string} id - ID of the suite to delete
+   */
+  async deleteSuite(id: string) {
+    await db.transaction('rw', db.evalSuites, db.evalRuns, async () => {
+      await db.evalSuites.delete(id)
+      await db.evalRuns.where('suiteId').equals(id).delete()
+    })
+    this.suites = this.suites.filter((s) => s.id !== id)
+    this.runs = this.runs.filter((run) => run.suiteId !== id)
+    this.notify()
+
+    logger.info('Eval suite deleted', {
+      context: { suiteId: id },
+      module: 'EvalStore',
+    })
+  }
+
+  /**
+   * Saves a finished run, deleting the oldest runs of its suite beyond the limit.
+   * @async
+   * @param {Omit<PlaygroundEvalRun, 'id'>} run - Run to save
+   * @returns {Promise<PlaygroundEvalRun>} The saved run
+   */
+  async addRun(run: Omit<PlaygroundEvalRun, 'id'>) {
+    const saved: PlaygroundEvalRun = { ...run, id: uuidv4() }
+    const suiteRuns = [
+      ...this.runs.filter((r) => r.suiteId === run.suiteId),
+      saved,
+    ].sort((a, b) => a.startedAt - b.startedAt)
+    const expired = suiteRuns
+      .slice(0, Math.max(0, suiteRuns.length - MAX_RUNS_PER_SUITE))
+      .map((r) => r.id)
+
+    await db.transaction('rw', db.evalRuns, async () => {
+      await db.evalRuns.add(saved)
+      await db.evalRuns.bulkDelete(expired)
+    })
+    this.runs = [...this.runs, saved].filter((r) => !expired.includes(r.id))
+    this.notify()
+
+    logger.info('Eval run saved', {
+      context: {
+        suiteId: run.suiteId,
+        passed: run.results.filter((result) => result.passed).length,
+        total: run.results.length,
+      },
+      module: 'EvalStore',
+    })
+    return saved
+  }
+}
+
+/**
+ * Singleton instance of EvalStore.
+ * Use this instance for all evaluation suite operations.
+ * @constant
+ * @type {EvalStore}
+ */
+export const evalStore = new EvalStore()
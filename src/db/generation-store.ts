@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Server-side registry of running generations.
+ * Keeps an abort controller per request so a generation can be stopped from a
+ * later server action. Kept in memory, so it is per server process.
+ */
+
+import { logger } from '@/utils/logger'
+
+/**
+ * Tracks the running generations by request ID.
+ *
+ * @class
+ */
+class GenerationStore {
+  private controllers = new Map<string, AbortController>()
+
+  /**
+   * Registers a generation and returns the signal that aborts it.
+   * A running generation with the same ID is aborted first.
+   * @param {string} requestId - ID chosen by the client for the request
+   * @returns {AbortSignal} Signal passed to the upstream request
+   */
+  start(requestId: string) {
+    this.controllers.get(requestId)?.abort()
+    const controller = new AbortController()
+    this.controllers.set(requestId, controller)
+    return controller.signal
+  }
+
+  /**
+   * Aborts a running generation.
+   * @param {string} requestId - ID of the request to abort
+   * @returns {boolean} Whether a running generation was found
+   */
+  abort(requestId: string) {
+    const controller = this.controllers.get(requestId)
+    if (!controller) return false
+
+    controller.abort()
+    this.controllers.delete(requestId)
+    logger.info('Generation aborted', {
+      context: { requestId },
+      module: 'GenerationStore',
+    })
+    return true
+  }
+
+  /**
+   * Removes a generation that ended.
+   * @param {string} requestId - ID of the finished request
+   * @param {AbortSignal} signal - Signal returned by `start`, so a newer request with the same ID is kept
+   */
+  finish(requestId: string, signal: AbortSignal) {
+    if (this.controllers.get(requestId)?.signal === signal) {
+      this.controllers.delete(requestId)
+    }
+  }
+}
+
+/**
+ * Singleton instance of GenerationStore.
+ * Use this instance for all generation abort operations.
+ * @constant
+ * @type {GenerationStore}
+ */
+export const generationStore = new GenerationStore()
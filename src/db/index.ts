@@ -4,35 +4,168 @@
  * @created 2024-11-20
  */
 
-import { PlaygroundMessage } from '@/stores/playground'
+import {
+  DEFAULT_CONVERSATION_ID,
+  PlaygroundConversation,
+  PlaygroundEvalRun,
+  PlaygroundEvalSuite,
+  PlaygroundMessage,
+  PlaygroundMessageRevision,
+  PlaygroundRunRecord,
+  PlaygroundTemplate,
+} from '@/stores/playground'
+import { toSearchWords } from '@/utils/search'
 import Dexie, { Table } from 'dexie'
 
 /**
  * PlaygroundDB class extends Dexie to provide IndexedDB functionality.
- * Manages message storage for the playground feature.
- * 
+ * Manages message and conversation storage for the playground feature.
+ *
  * @class
  * @extends {Dexie}
  * @property {Table<PlaygroundMessage>} messages - Table for storing playground messages
+ * @property {Table<PlaygroundConversation>} conversations - Table for storing conversations
+ * @property {Table<PlaygroundTemplate>} templates - Table for storing prompt templates
+ * @property {Table<PlaygroundEvalSuite>} evalSuites - Table for storing evaluation suites
+ * @property {Table<PlaygroundEvalRun>} evalRuns - Table for storing evaluation suite runs
+ * @property {Table<PlaygroundMessageRevision>} messageRevisions - Table for storing earlier message contents
+ * @property {Table<PlaygroundRunRecord>} runs - Table for storing the records of generation requests
  */
 export class PlaygroundDB extends Dexie {
   messages!: Table<PlaygroundMessage>
+  conversations!: Table<PlaygroundConversation>
+  templates!: Table<PlaygroundTemplate>
+  evalSuites!: Table<PlaygroundEvalSuite>
+  evalRuns!: Table<PlaygroundEvalRun>
+  messageRevisions!: Table<PlaygroundMessageRevision>
+  runs!: Table<PlaygroundRunRecord>
 
   /**
    * Initializes the PlaygroundDB database.
-   * Creates database schema with version 1.
-   * 
+   *
    * @constructor
    * @description Sets up the database with a 'messages' table containing:
    *   - id (auto-incrementing primary key)
    *   - role (indexed)
    *   - timestamp (indexed)
+   *   - conversationId (indexed, since version 3)
+   * and a 'conversations' table keyed by id and indexed by updatedAt.
+   * Version 3 moves all existing messages into the default conversation.
+   * Version 4 adds a 'templates' table keyed by id and indexed by updatedAt.
+   * Version 5 links the messages of each conversation into a tree by parentId,
+   * in timestamp order.
+   * Version 6 indexes messages by model and by the words of their content.
+   * The words are added to copies of written messages by a middleware, so
+   * objects passed to the table are never changed, and stripped when reading.
+   * Version 7 adds an 'evalSuites' table keyed by id and indexed by updatedAt,
+   * and an 'evalRuns' table keyed by id and indexed by suiteId and startedAt.
+   * Version 8 adds a 'messageRevisions' table keyed by id and indexed by
+   * messageId and conversationId.
+   * Version 9 adds a 'runs' table keyed by id and indexed by startedAt.
    */
   constructor() {
     super('PlaygroundDB')
-    
+
     this.version(2).stores({
-      messages: '++id, role, timestamp'
+      messages: '++id, role, timestamp',
+    })
+
+    this.version(3)
+      .stores({
+        messages: '++id, role, timestamp, conversationId',
+        conversations: 'id, updatedAt',
+      })
+      .upgrade(async (tx) => {
+        const now = Date.now()
+        await tx.table('conversations').add({
+          id: DEFAULT_CONVERSATION_ID,
+          title: '',
+          createdAt: now,
+          updatedAt: now,
+        })
+        await tx
+          .table('messages')
+          .toCollection()
+          .modify({ conversationId: DEFAULT_CONVERSATION_ID })
+      })
+
+    this.version(4).stores({
+      templates: 'id, updatedAt',
+    })
+
+    this.version(5)
+      .stores({})
+      .upgrade(async (tx) => {
+        const messages: PlaygroundMessage[] = await tx
+          .table('messages')
+          .toArray()
+        const lastIds = new Map<string | undefined, string>()
+        const linked = messages
+          .sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0))
+          .map((msg) => {
+            const parentId = lastIds.get(msg.conversationId) ?? null
+            lastIds.set(msg.conversationId, msg.id)
+            return { ...msg, parentId, activeAt: msg.timestamp }
+          })
+        await tx.table('messages').bulkPut(linked)
+      })
+
+    this.version(6)
+      .stores({
+        messages: '++id, role, timestamp, conversationId, model, *words',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table('messages')
+          .toCollection()
+          .modify((msg) => {
+            msg.words = toSearchWords(msg.content)
+          })
+      })
+
+    this.version(7).stores({
+      evalSuites: 'id, updatedAt',
+      evalRuns: 'id, suiteId, startedAt',
+    })
+
+    this.version(8).stores({
+      messageRevisions: 'id, messageId, conversationId',
+    })
+
+    this.version(9).stores({
+      runs: 'id, startedAt',
+    })
+
+    this.use({
+      stack: 'dbcore',
+      name: 'messageSearchWords',
+      create: (down) => ({
+        ...down,
+        table: (name) => {
+          const table = down.table(name)
+          if (name !== 'messages') return table
+          return {
+            ...table,
+            mutate: (req) =>
+              table.mutate(
+                req.type === 'add' || req.type === 'put'
+                  ? {
+                      ...req,
+                      values: req.values.map((msg: PlaygroundMessage) => ({
+                        ...msg,
+                        words: toSearchWords(msg.content),
+                      })),
+                    }
+                  : req
+              ),
+          }
+        },
+      }),
+    })
+    this.messages.hook('reading', (msg) => {
+      const message = { ...msg }
+      delete (message as { words?: string[] }).words
+      return message
     })
   }
 }
@@ -40,8 +173,8 @@ export class PlaygroundDB extends Dexie {
 /**
  * Singleton instance of PlaygroundDB.
  * Use this instance for all database operations.
- * 
+ *
  * @constant
  * @type {PlaygroundDB}
  */
-export const db = new PlaygroundDB()
\ No newline at end of file
+export const db = new PlaygroundDB()
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Full-text search over the messages of all conversations.
+ * Candidates are looked up in the word index of IndexedDB and then matched
+ * against the whole query and the filters. The query matches from the start of
+ * a word, with or without the index.
+ */
+
+import { PlaygroundMessage } from '@/stores/playground'
+import { findWordStart, getLookupWord } from '@/utils/search'
+import { db } from '.'
+
+/**
+ * Maximum number of results returned by a search
+ * @const
+ */
+const MAX_RESULTS = 50
+
+/**
+ * Search query with optional filters.
+ *
+ * @interface MessageSearchQuery
+ * @property {string} text - Text the content must contain from the start of a word, case-insensitive
+ * @property {PlaygroundMessage['role']} [role] - Only messages of this role
+ * @property {string} [model] - Only messages generated by this model
+ * @property {number} [from] - Only messages created at or after this time
+ * @property {number} [to] - Only messages created before this time
+ */
+export type MessageSearchQuery = {
+  text: string
+  role?: PlaygroundMessage['role']
+  model?: string
+  from?: number
+  to?: number
+}
+
+/**
+ * Searches the messages of all conversations, on every branch.
+ *
+ * @async
+ * @function
+ * @param {MessageSearchQuery} query - Search text and filters
+ * @returns {Promise<PlaygroundMessage[]>} Matching messages, most recent first
+ *
+ * @example
+ * ```typescript
+ * const results = await searchMessages({ text: 'sort an array', role: 'user' })
+ * ```
+ */
+export const searchMessages = async ({
+  text,
+  role,
+  model,
+  from,
+  to,
+}: MessageSearchQuery) => {
+  const needle = text.trim().toLowerCase()
+  const matches = (msg: PlaygroundMessage) =>
+    (!role || msg.role === role) &&
+    (!model || msg.model === model) &&
+    (from === undefined || (msg.timestamp ?? 0) >= from) &&
+    (to === undefined || (msg.timestamp ?? 0) < to) &&
+    findWordStart(msg.content, needle) !== -1
+
+  const word = getLookupWord(needle)
+  if (!word) {
+    return db.messages
+      .orderBy('timestamp')
+      .reverse()
+      .filter(matches)
+      .limit(MAX_RESULTS)
+      .toArray()
+  }
+
+  const results = await db.messages
+    .where('words')
+    .startsWith(word)
+    .distinct()
+    .filter(matches)
+    .toArray()
+  return results
+    .sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0))
+    .slice(0, MAX_RESULTS)
+}
+
+/**
+ * Lists the models that generated stored messages.
+ *
+ * @async
+ * @function
+ * @returns {Promise<string[]>} Model names in alphabetical order
+ */
+export const getMessageModels = async () =>
+  (await db.messages.orderBy('model').uniqueKeys()).map(String)
@@ -1,32 +1,124 @@
 /**
  * @fileoverview Message store implementation for managing playground messages.
  * Provides functionality for CRUD operations on messages with IndexedDB storage.
+ * Messages form a tree by parent ID; regenerated and edited messages become
+ * sibling branches, and listeners receive the active path through the tree.
+ * Replaced contents are kept as revisions of their message.
  * @author zpl
  * @created 2024-11-20
  */
 
-import { PlaygroundMessage } from '@/stores/playground'
+import {
+  DEFAULT_CONVERSATION_ID,
+  PlaygroundMessage,
+  PlaygroundMessageRevision,
+} from '@/stores/playground'
 import { arrayMove } from '@dnd-kit/sortable'
 import { db } from '.'
+import { conversationStore } from './conversation-store'
 import { logger } from '@/utils/logger'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * Edits within this time of the last revision of a message are not recorded
+ * again, so typing does not create a revision per keystroke.
+ * @const
+ */
+const REVISION_INTERVAL = 60_000
+
+/**
+ * Number of revisions kept per message, older revisions are deleted.
+ * @const
+ */
+const MAX_REVISIONS = 50
+
+/**
+ * Position of a message among its siblings.
+ *
+ * @interface MessageBranch
+ * @property {number} index - Zero-based index among the siblings, in creation order
+ * @property {number} count - Number of siblings, including the message itself
+ */
+export type MessageBranch = {
+  index: number
+  count: number
+}
 
 /**
  * Callback type for message state changes.
  * @callback Listener
- * @param {PlaygroundMessage[]} messages - Updated array of messages
+ * @param {PlaygroundMessage[]} messages - Updated array of messages on the active path
+ * @param {Record<string, MessageBranch>} branches - Branch position by message ID
+ */
+type Listener = (
+  messages: PlaygroundMessage[],
+  branches: Record<string, MessageBranch>
+) => void
+
+/**
+ * Groups messages by parent ID, siblings ordered by creation time.
+ * Messages whose parent no longer exists are treated as first messages.
+ *
+ * @param {PlaygroundMessage[]} nodes - All messages of a conversation
+ * @returns {Map<string | null, PlaygroundMessage[]>} Children by parent ID
+ */
+const groupByParent = (nodes: PlaygroundMessage[]) => {
+  const ids = new Set(nodes.map(msg => msg.id))
+  const children = new Map<string | null, PlaygroundMessage[]>()
+  for (const msg of nodes) {
+    const parentId = msg.parentId && ids.has(msg.parentId) ? msg.parentId : null
+    children.set(parentId, [...(children.get(parentId) || []), msg])
+  }
+  children.forEach(siblings =>
+    siblings.sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0))
+  )
+  return children
+}
+
+/**
+ * Resolves the active path through a message tree.
+ * At every level the most recently selected sibling is followed.
+ *
+ * @param {PlaygroundMessage[]} nodes - All messages of a conversation
+ * @returns {{messages: PlaygroundMessage[], branches: Record<string, MessageBranch>}} Active path and branch positions
  */
-type Listener = (messages: PlaygroundMessage[]) => void
+const resolveActivePath = (nodes: PlaygroundMessage[]) => {
+  const children = groupByParent(nodes)
+  const messages: PlaygroundMessage[] = []
+  const branches: Record<string, MessageBranch> = {}
+
+  let siblings = children.get(null)
+  while (siblings?.length) {
+    const active = siblings.reduce((a, b) =>
+      (b.activeAt ?? b.timestamp ?? 0) >= (a.activeAt ?? a.timestamp ?? 0) ? b : a
+    )
+    // Guard against cycles in corrupted data
+    if (branches[active.id]) break
+    messages.push(active)
+    branches[active.id] = {
+      index: siblings.indexOf(active),
+      count: siblings.length,
+    }
+    siblings = children.get(active.id)
+  }
+  return { messages, branches }
+}
 
 /**
  * Manages the state and persistence of playground messages.
  * Implements observer pattern for state updates and handles concurrent operations.
+ * Only the messages of the active conversation are kept in memory.
  * 
  * @class
  */
 class MessageStore {
   private listeners: Set<Listener> = new Set()
+  private nodes: PlaygroundMessage[] = []
   private messages: PlaygroundMessage[] = []
+  private branches: Record<string, MessageBranch> = {}
+  private conversationId: string = DEFAULT_CONVERSATION_ID
   private editOperations = new Map<string, Promise<void>>()
+  private revisedAt = new Map<string, number>()
   private isSavingReorder = false
 
   /**
@@ -36,7 +128,7 @@ class MessageStore {
    */
   subscribe(listener: Listener) {
     this.listeners.add(listener)
-    listener(this.messages)
+    listener(this.messages, this.branches)
     return () => {
       this.listeners.delete(listener)
     }
@@ -49,46 +141,148 @@ class MessageStore {
    */
   private notify() {
     const messagesCopy = this.messages.map(msg => ({...msg}))
-    this.listeners.forEach(listener => listener(messagesCopy))
+    this.listeners.forEach(listener => listener(messagesCopy, this.branches))
+  }
+
+  /**
+   * Replaces the message tree and resolves its active path.
+   * @private
+   * @param {PlaygroundMessage[]} nodes - All messages of the active conversation
+   */
+  private setNodes(nodes: PlaygroundMessage[]) {
+    const { messages, branches } = resolveActivePath(nodes)
+    this.nodes = nodes
+    this.messages = messages
+    this.branches = branches
+  }
+
+  /**
+   * Loads all messages of a conversation, on every branch, from IndexedDB.
+   * @private
+   * @async
+   * @param {string} conversationId - ID of the conversation to load
+   * @returns {Promise<PlaygroundMessage[]>} Messages ordered by timestamp
+   */
+  private async load(conversationId: string) {
+    return db.messages
+      .where('conversationId')
+      .equals(conversationId)
+      .sortBy('timestamp')
   }
 
   /**
    * Initializes the message store by loading messages from IndexedDB.
+   * Switches the store to another conversation when an ID is given.
    * @async
+   * @param {string} [conversationId] - ID of the conversation to activate
    */
-  async init() {
-    const messages = await db.messages.orderBy('timestamp').toArray()
-    this.messages = messages
+  async init(conversationId: string = this.conversationId) {
+    if (conversationId !== this.conversationId) {
+      for (const operation of this.editOperations.values()) {
+        await operation
+      }
+      this.conversationId = conversationId
+      this.setNodes([])
+    }
+
+    const nodes = await this.load(conversationId)
+    // Ignore results of a conversation that was switched away from meanwhile
+    if (conversationId !== this.conversationId) return
+    this.setNodes(nodes)
     this.notify()
   }
 
   /**
-   * Adds a new message to the store.
+   * Gets the ID of the conversation the store is working on.
+   * @returns {string} Active conversation ID
+   */
+  getConversationId() {
+    return this.conversationId
+  }
+
+  /**
+   * Adds a new message to the store and makes it the active branch.
+   * A message for another conversation than the active one is only stored,
+   * so an answer that finishes after switching conversations stays where it
+   * was requested.
    * @async
    * @param {Omit<PlaygroundMessage, 'timestamp'>} message - Message to add
+   * @param {string | null} [parentId] - Message to answer, defaults to the end of the active path
+   * @param {string} [conversationId] - Conversation to add to, defaults to the active one
    */
-  async addMessage(message: Omit<PlaygroundMessage, 'timestamp'>) {
-    const timestamp = Date.now()
-    const newMessage = { ...message, timestamp }
+  async addMessage(
+    message: Omit<PlaygroundMessage, 'timestamp'>,
+    parentId: string | null = this.messages[this.messages.length - 1]?.id ?? null,
+    conversationId: string = this.conversationId
+  ) {
+    const isActive = conversationId === this.conversationId
+    // Keep timestamps increasing so messages added in one go stay in order
+    const lastTimestamp = isActive
+      ? Math.max(0, ...this.nodes.map(msg => msg.timestamp ?? 0))
+      : 0
+    const timestamp = Math.max(Date.now(), lastTimestamp + 1)
+    const newMessage = {
+      ...message,
+      conversationId,
+      parentId,
+      timestamp,
+      activeAt: timestamp,
+    }
     
     logger.debug('Adding new message', { 
-      context: { messageId: message.id, role: message.role },
+      context: { messageId: message.id, role: message.role, parentId, conversationId },
       module: 'MessageStore'
     })
     
-    const updatedMessages = [...this.messages, newMessage]
-    this.messages = updatedMessages
-    this.notify()
+    if (isActive) {
+      this.setNodes([...this.nodes, newMessage])
+      this.notify()
+    }
 
     await db.messages.add(newMessage)
+    await conversationStore.touch(conversationId)
     logger.info('Message added successfully', { 
       context: { messageId: message.id },
       module: 'MessageStore'
     })
   }
 
+  /**
+   * Records the content of a message before it is replaced.
+   * Skipped while the message was revised within the revision interval.
+   * @private
+   * @async
+   * @param {PlaygroundMessage} message - Message before the edit
+   * @param {boolean} [force] - Record even within the revision interval
+   */
+  private async saveRevision(message: PlaygroundMessage, force = false) {
+    const now = Date.now()
+    const last = this.revisedAt.get(message.id)
+    if (!message.content || (!force && last && now - last < REVISION_INTERVAL)) return
+    this.revisedAt.set(message.id, now)
+
+    const revisions = await db.messageRevisions
+      .where('messageId')
+      .equals(message.id)
+      .sortBy('createdAt')
+    const expired = revisions
+      .slice(0, Math.max(0, revisions.length + 1 - MAX_REVISIONS))
+      .map(revision => revision.id)
+    await db.transaction('rw', db.messageRevisions, async () => {
+      await db.messageRevisions.add({
+        id: uuidv4(),
+        messageId: message.id,
+        conversationId: message.conversationId ?? this.conversationId,
+        content: message.content,
+        createdAt: now,
+      })
+      await db.messageRevisions.bulkDelete(expired)
+    })
+  }
+
   /**
    * Updates an existing message.
+   * The replaced content is kept as a revision.
    * Handles concurrent edits using a promise-based queue.
    * @async
    * @param {string} id - ID of the message to edit
@@ -105,17 +299,20 @@ class MessageStore {
         const message = await db.messages.get(id)
         if (!message) return
 
-        const currentMessage = this.messages.find(msg => msg.id === id)
+        const currentMessage = this.nodes.find(msg => msg.id === id)
         if (!currentMessage) return
 
         const updatedMessage = typeof update === 'string' 
           ? { ...currentMessage, content: update }
           : { ...currentMessage, ...update }
 
+        if (updatedMessage.content !== currentMessage.content) {
+          await this.saveRevision(currentMessage)
+        }
         await db.messages.put(updatedMessage)
-        this.messages = this.messages.map(msg => 
+        this.setNodes(this.nodes.map(msg => 
           msg.id === id ? updatedMessage : msg
-        )
+        ))
         this.notify()
       } finally {
         this.editOperations.delete(id)
@@ -127,7 +324,124 @@ class MessageStore {
   }
 
   /**
-   * Deletes a message by ID.
+   * Gets the earlier contents of a message, most recent first.
+   * @async
+   * @param {string} id - ID of the message
+   * @returns {Promise<PlaygroundMessageRevision[]>} Revisions of the message
+   */
+  async getRevisions(id: string) {
+    const revisions = await db.messageRevisions
+      .where('messageId')
+      .equals(id)
+      .sortBy('createdAt')
+    return revisions.reverse()
+  }
+
+  /**
+   * Restores an earlier content of a message in place.
+   * The current content is kept as a revision, so the restore can be undone.
+   * @async
+   * @param {string} id - ID of the message
+   * @param {PlaygroundMessageRevision} revision - Revision to restore
+   */
+  async restoreRevision(id: string, revision: PlaygroundMessageRevision) {
+    const message = this.nodes.find(msg => msg.id === id)
+    if (!message || message.content === revision.content) return
+
+    await this.saveRevision(message, true)
+    await this.editMessage(id, revision.content)
+    logger.info('Message revision restored', {
+      context: { messageId: id, revisionId: revision.id },
+      module: 'MessageStore'
+    })
+  }
+
+  /**
+   * Adds an edited copy of a message as a new sibling branch.
+   * The original message and everything that followed it are kept.
+   * The branch inherits the revisions of the original, with the original
+   * content as the most recent one.
+   * @async
+   * @param {string} id - ID of the message to branch from
+   * @param {string} content - Content of the new branch
+   * @returns {Promise<string | undefined>} ID of the new message
+   */
+  async branchMessage(id: string, content: string) {
+    const message = this.nodes.find(msg => msg.id === id)
+    if (!message) return
+
+    // Usage and probabilities belong to the generated content, not the edit
+    const branch = {
+      ...message,
+      id: uuidv4(),
+      content,
+      logprobs: undefined,
+      usage: undefined,
+      metrics: undefined,
+    }
+    await this.addMessage(branch, message.parentId ?? null)
+
+    const revisions = await db.messageRevisions.where('messageId').equals(id).toArray()
+    await db.messageRevisions.bulkAdd(
+      revisions.map(revision => ({ ...revision, id: uuidv4(), messageId: branch.id }))
+    )
+    await this.saveRevision({ ...message, id: branch.id }, true)
+    return branch.id
+  }
+
+  /**
+   * Switches to the previous or next sibling of a message.
+   * The selected sibling and its most recent continuation become the active path.
+   * @async
+   * @param {string} id - ID of a message on the active path
+   * @param {number} offset - -1 for the previous sibling, 1 for the next one
+   */
+  async switchBranch(id: string, offset: number) {
+    const message = this.nodes.find(msg => msg.id === id)
+    if (!message) return
+
+    const siblings = groupByParent(this.nodes).get(message.parentId ?? null) || []
+    const target = siblings[siblings.indexOf(message) + offset]
+    if (!target) return
+
+    const selected = { ...target, activeAt: Date.now() }
+    this.setNodes(this.nodes.map(msg => msg.id === target.id ? selected : msg))
+    this.notify()
+    await db.messages.put(selected)
+  }
+
+  /**
+   * Makes a message and all of its ancestors the active path of its conversation,
+   * so the message is shown when the conversation is opened.
+   * @async
+   * @param {string} id - ID of the message to show, in any conversation
+   */
+  async activateMessage(id: string) {
+    const message = await db.messages.get(id)
+    if (!message?.conversationId) return
+
+    const isActive = message.conversationId === this.conversationId
+    const nodes = isActive ? this.nodes : await this.load(message.conversationId)
+    const byId = new Map(nodes.map(msg => [msg.id, msg]))
+
+    const activeAt = Date.now()
+    const path = new Map<string, PlaygroundMessage>()
+    let current = byId.get(id)
+    while (current && !path.has(current.id)) {
+      path.set(current.id, { ...current, activeAt })
+      current = current.parentId ? byId.get(current.parentId) : undefined
+    }
+
+    await db.messages.bulkPut(Array.from(path.values()))
+    if (isActive && message.conversationId === this.conversationId) {
+      this.setNodes(this.nodes.map(msg => path.get(msg.id) ?? msg))
+      this.notify()
+    }
+  }
+
+  /**
+   * Deletes a message by ID, together with its revisions.
+   * Its replies are attached to its parent so the rest of the conversation is kept.
    * Waits for any pending edit operations before deletion.
    * @async
    * @param {string} id - ID of the message to delete
@@ -142,9 +456,33 @@ class MessageStore {
     if (currentOperation) {
       await currentOperation
     }
-    
-    await db.messages.delete(id)
-    this.messages = this.messages.filter(msg => msg.id !== id)
+
+    const message = this.nodes.find(msg => msg.id === id)
+    if (!message) return
+
+    // Keep following the active path if the deleted message was on it
+    const index = this.messages.findIndex(msg => msg.id === id)
+    const next = index === -1 ? undefined : this.messages[index + 1]
+    const now = Date.now()
+    const children = this.nodes
+      .filter(msg => msg.parentId === id)
+      .map(msg => ({
+        ...msg,
+        parentId: message.parentId ?? null,
+        activeAt: msg.id === next?.id ? now : msg.activeAt,
+      }))
+    const updated = new Map(children.map(msg => [msg.id, msg]))
+
+    await db.transaction('rw', db.messages, db.messageRevisions, async () => {
+      await db.messages.bulkPut(children)
+      await db.messages.delete(id)
+      await db.messageRevisions.where('messageId').equals(id).delete()
+    })
+    this.setNodes(
+      this.nodes
+        .filter(msg => msg.id !== id)
+        .map(msg => updated.get(msg.id) ?? msg)
+    )
     this.notify()
     
     logger.info('Message deleted successfully', { 
@@ -154,8 +492,9 @@ class MessageStore {
   }
 
   /**
-   * Reorders messages using drag-and-drop functionality.
-   * Updates timestamps to maintain order in IndexedDB.
+   * Reorders messages of the active path using drag-and-drop functionality.
+   * Relinks the path in its new order and updates timestamps to maintain
+   * order in IndexedDB. Other branches stay attached to their parents.
    * @async
    * @param {string} activeId - ID of the message being moved
    * @param {string} overId - ID of the target position
@@ -186,12 +525,15 @@ class MessageStore {
 
       const updatedMessages = newMessages.map((msg, index) => ({
         ...msg,
-        timestamp: Date.now() + index
+        parentId: index === 0 ? null : newMessages[index - 1].id,
+        timestamp: Date.now() + index,
+        activeAt: Date.now() + index,
       }))
 
       await Promise.all(updatedMessages.map(msg => db.messages.put(msg)))
 
-      this.messages = updatedMessages
+      const updated = new Map(updatedMessages.map(msg => [msg.id, msg]))
+      this.setNodes(this.nodes.map(msg => updated.get(msg.id) ?? msg))
       this.notify()
       
       logger.info('Messages reordered successfully', { 
@@ -210,7 +552,7 @@ class MessageStore {
   }
 
   /**
-   * Deletes all messages from a specified message onwards.
+   * Deletes a message together with every branch that follows it.
    * @async
    * @param {string} id - ID of the first message to delete
    */
@@ -219,37 +561,62 @@ class MessageStore {
       await operation
     }
 
-    const index = this.messages.findIndex(msg => msg.id === id)
-    if (index === -1) return
+    if (!this.nodes.some(msg => msg.id === id)) return
 
-    const messagesToDelete = this.messages.slice(index).map(msg => msg.id!)
-    await db.messages.bulkDelete(messagesToDelete)
+    const children = groupByParent(this.nodes)
+    const messagesToDelete = new Set<string>()
+    const queue = [id]
+    while (queue.length) {
+      const current = queue.pop()!
+      if (messagesToDelete.has(current)) continue
+      messagesToDelete.add(current)
+      queue.push(...(children.get(current) || []).map(msg => msg.id))
+    }
+    await db.transaction('rw', db.messages, db.messageRevisions, async () => {
+      await db.messages.bulkDelete(Array.from(messagesToDelete))
+      await db.messageRevisions
+        .where('messageId')
+        .anyOf(Array.from(messagesToDelete))
+        .delete()
+    })
     
-    this.messages = this.messages.slice(0, index)
+    this.setNodes(this.nodes.filter(msg => !messagesToDelete.has(msg.id)))
     this.notify()
   }
 
   /**
-   * Clears all messages from the store.
+   * Clears all messages of the active conversation.
    * @async
    */
   async clear() {
-    logger.info('Clearing all messages', { module: 'MessageStore' })
+    logger.info('Clearing all messages', { 
+      context: { conversationId: this.conversationId },
+      module: 'MessageStore'
+    })
     
     for (const operation of this.editOperations.values()) {
       await operation
     }
 
-    await db.messages.clear()
+    await db.transaction('rw', db.messages, db.messageRevisions, async () => {
+      await db.messages
+        .where('conversationId')
+        .equals(this.conversationId)
+        .delete()
+      await db.messageRevisions
+        .where('conversationId')
+        .equals(this.conversationId)
+        .delete()
+    })
     
-    this.messages = []
+    this.setNodes([])
     
     this.notify()
     logger.info('All messages cleared successfully', { module: 'MessageStore' })
   }
 
   /**
-   * Retrieves all messages from the store.
+   * Retrieves the messages on the active path of the active conversation.
    * Returns cached messages if available, otherwise loads from IndexedDB.
    * @async
    * @returns {Promise<PlaygroundMessage[]>} Array of all messages
@@ -259,8 +626,7 @@ class MessageStore {
       return [...this.messages]
     }
     
-    const messages = await db.messages.orderBy('timestamp').toArray()
-    return messages
+    return resolveActivePath(await this.load(this.conversationId)).messages
   }
 }
 
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Server-side cache of the 302.AI gateway models.
+ * The model list is fetched at most once per cache period and shared by the
+ * model list shown to users and the capability checks of `chat()`, so both
+ * resolve capabilities the same way. Kept in memory, so it is per server process.
+ */
+
+import type { GetModelResponse, ModelInfo } from '@/actions/models'
+import { env } from '@/env'
+import { normalizeUrl } from '@/utils/api'
+import { logger } from '@/utils/logger'
+import {
+  getModelCapabilities,
+  readApiCapabilities,
+} from '@/utils/model-capabilities'
+import { DEFAULT_PROVIDER_ID } from '@/utils/providers'
+import ky from 'ky'
+
+/**
+ * Time the model list is reused, in milliseconds.
+ * @const
+ */
+const CACHE_TTL = 10 * 60_000
+
+/**
+ * Caches the gateway model list.
+ *
+ * @class
+ */
+class ModelStore {
+  private models: Promise<ModelInfo[]> | null = null
+  private fetchedAt = 0
+
+  /**
+   * Fetches the model list from the gateway.
+   * The capabilities reported by the API are merged with the capability registry.
+   * @private
+   * @async
+   * @returns {Promise<ModelInfo[]>} Gateway models
+   */
+  private async fetch() {
+    logger.info('Fetching available models', { module: 'ModelStore' })
+    const baseUrl = normalizeUrl(env.AI_302_API_URL)
+
+    // Fetch models with LLM filter and authentication
+    const model = await ky
+      .get(`${baseUrl}/v1/models?llm=1`, {
+        headers: {
+          Authorization: `Bearer ${env.AI_302_API_KEY}`,
+        },
+      })
+      .json<GetModelResponse>()
+
+    logger.info('Successfully fetched models', {
+      context: { modelCount: model.data.length },
+      module: 'ModelStore',
+    })
+    return model.data.map(
+      (item): ModelInfo => ({
+        id: item.id,
+        object: item.object,
+        provider: DEFAULT_PROVIDER_ID,
+        capabilities: getModelCapabilities(item.id, readApiCapabilities(item)),
+      })
+    )
+  }
+
+  /**
+   * Returns the gateway models, fetching them once the cache has expired.
+   * A failed fetch is not cached.
+   * @async
+   * @returns {Promise<ModelInfo[]>} Gateway models
+   * @throws {Error} If the API request fails
+   */
+  list() {
+    const now = Date.now()
+    if (!this.models || now - this.fetchedAt > CACHE_TTL) {
+      this.fetchedAt = now
+      const models = this.fetch()
+      this.models = models
+      models.catch(() => {
+        if (this.models === models) this.models = null
+      })
+    }
+    return this.models
+  }
+
+  /**
+   * Resolves the capabilities of a gateway model like the model list does:
+   * the API metadata merged with the registry, or the registry alone if the
+   * model is not listed or the list cannot be fetched.
+   * @async
+   * @param {string} modelId - Model ID
+   * @returns {Promise<ModelCapabilities>} Capabilities of the model
+   */
+  async getCapabilities(modelId: string) {
+    try {
+      const models = await this.list()
+      const model = models.find((item) => item.id === modelId)
+      if (model) return model.capabilities
+    } catch (error) {
+      logger.warn('Model list unavailable, using the capability registry', {
+        context: { modelId, error: (error as Error).message },
+        module: 'ModelStore',
+      })
+    }
+    return getModelCapabilities(modelId)
+  }
+}
+
+/**
+ * Singleton instance of ModelStore.
+ * Use this instance for all gateway model lookups.
+ * @constant
+ * @type {ModelStore}
+ */
+export const modelStore = new ModelStore()
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Server-side rate limits and daily token quotas of the server API key.
+ * Usage is kept in memory, so it is per server process and reset on restart.
+ */
+
+import { env } from '@/env'
+import { logger } from '@/utils/logger'
+import { randomUUID } from 'crypto'
+import { cookies, headers } from 'next/headers'
+
+/**
+ * Cookie identifying a browser session when quotas are kept per session.
+ * @const
+ */
+const SESSION_COOKIE = 'playground-session'
+
+/**
+ * Client key shared by all clients when IP addresses cannot be trusted.
+ * @const
+ */
+export const UNTRUSTED_CLIENT_ID = 'ip:untrusted'
+
+/**
+ * Length of the rate limit window, in milliseconds.
+ * @const
+ */
+const RATE_WINDOW = 60_000
+
+/**
+ * Reasons a request is refused.
+ */
+export type QuotaErrorCode = 'rateLimited' | 'quotaExceeded'
+
+/**
+ * Error thrown when a client is over its rate limit or daily quota.
+ *
+ * @class
+ * @extends Error
+ * @property {QuotaErrorCode} code - Which limit was reached
+ */
+export class QuotaError extends Error {
+  constructor(public code: QuotaErrorCode) {
+    super(
+      code === 'rateLimited'
+        ? 'Too many requests, try again in a minute'
+        : 'Daily token quota exceeded'
+    )
+    this.name = 'QuotaError'
+  }
+}
+
+/**
+ * Usage of the server key by a client.
+ *
+ * @interface QuotaUsage
+ * @property {number} usedTokens - Tokens used today
+ * @property {number} dailyTokenQuota - Tokens allowed per day, 0 means unlimited
+ */
+export type QuotaUsage = {
+  usedTokens: number
+  dailyTokenQuota: number
+}
+
+/**
+ * Returns the client the quotas are counted for: its IP address, or a session
+ * cookie that is created on first use.
+ * The IP address is only read from forwarding headers behind a trusted proxy,
+ * clients could send any value otherwise; all clients then share one key.
+ * Must be called in a server action or route handler, where cookies can be set.
+ *
+ * @function
+ * @returns {string} Client key
+ */
+export const getQuotaClientId = () => {
+  if (env.CHAT_QUOTA_KEY === 'session') {
+    const cookieStore = cookies()
+    let session = cookieStore.get(SESSION_COOKIE)?.value
+    if (!session) {
+      session = randomUUID()
+      cookieStore.set(SESSION_COOKIE, session, {
+        httpOnly: true,
+        sameSite: 'lax',
+        maxAge: 60 * 60 * 24 * 365,
+      })
+    }
+    return `session:${session}`
+  }
+
+  if (!env.CHAT_TRUSTED_PROXY) return UNTRUSTED_CLIENT_ID
+
+  const headerList = headers()
+  const ip =
+    headerList.get('x-forwarded-for')?.split(',')[0].trim() ||
+    headerList.get('x-real-ip') ||
+    'unknown'
+  return `ip:${ip}`
+}
+
+/**
+ * Counts requests and tokens per client.
+ * Request times are kept for the rate window, token counts for the current UTC day.
+ *
+ * @class
+ */
+class QuotaStore {
+  private requests = new Map<string, number[]>()
+  private tokens = new Map<string, number>()
+  private day = ''
+
+  /**
+   * Drops the token counts of previous days.
+   * @private
+   */
+  private rollDay() {
+    const today = new Date().toISOString().slice(0, 10)
+    if (today !== this.day) {
+      this.day = today
+      this.tokens.clear()
+    }
+  }
+
+  /**
+   * Returns the usage of a client.
+   * @param {string} clientId - Client key
+   * @returns {QuotaUsage} Tokens used today and the daily quota
+   */
+  getUsage(clientId: string): QuotaUsage {
+    this.rollDay()
+    return {
+      usedTokens: this.tokens.get(clientId) ?? 0,
+      dailyTokenQuota: env.CHAT_DAILY_TOKEN_QUOTA,
+    }
+  }
+
+  /**
+   * Counts a request, unless the client is over one of its limits.
+   * @param {string} clientId - Client key
+   * @throws {QuotaError} If the rate limit or the daily quota is reached
+   */
+  acquire(clientId: string) {
+    const { usedTokens, dailyTokenQuota } = this.getUsage(clientId)
+    if (dailyTokenQuota && usedTokens >= dailyTokenQuota) {
+      throw new QuotaError('quotaExceeded')
+    }
+
+    const now = Date.now()
+    const recent = (this.requests.get(clientId) ?? []).filter(
+      (time) => now - time < RATE_WINDOW
+    )
+    if (env.CHAT_RATE_LIMIT && recent.length >= env.CHAT_RATE_LIMIT) {
+      this.requests.set(clientId, recent)
+      throw new QuotaError('rateLimited')
+    }
+    this.requests.set(clientId, [...recent, now])
+
+    // Keep the map from growing with clients that stopped sending requests
+    for (const [key, times] of this.requests) {
+      if (now - times[times.length - 1] >= RATE_WINDOW) {
+        this.requests.delete(key)
+      }
+    }
+  }
+
+  /**
+   * Gives back the latest request counted by `acquire`, for a request that
+   * never reached the model.
+   * @param {string} clientId - Client key
+   */
+  release(clientId: string) {
+    const times = this.requests.get(clientId)
+    times?.pop()
+    if (times && !times.length) this.requests.delete(clientId)
+  }
+
+  /**
+   * Adds the tokens of a finished generation to the client's daily usage.
+   * @param {string} clientId - Client key
+   * @param {number} tokens - Prompt and completion tokens
+   */
+  addTokens(clientId: string, tokens: number) {
+    if (!Number.isFinite(tokens) || tokens <= 0) return
+    this.rollDay()
+    this.tokens.set(clientId, (this.tokens.get(clientId) ?? 0) + tokens)
+    logger.debug('Server key usage recorded', {
+      context: { clientId, tokens, total: this.tokens.get(clientId) },
+      module: 'QuotaStore',
+    })
+  }
+}
+
+/**
+ * Singleton instance of QuotaStore
+ * @const
+ */
+export const quotaStore = new QuotaStore()
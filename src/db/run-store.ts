@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Run store implementation for the history of generation requests.
+ * Records every request with the messages and settings sent and what came back,
+ * backed by IndexedDB.
+ */
+
+import { PlaygroundRunRecord } from '@/stores/playground'
+import { logger } from '@/utils/logger'
+import { v4 as uuidv4 } from 'uuid'
+import { db } from '.'
+
+/**
+ * Number of records kept, older records are deleted.
+ * @const
+ */
+const MAX_RUNS = 200
+
+/**
+ * Callback type for run history changes.
+ * @callback Listener
+ * @param {PlaygroundRunRecord[]} runs - Updated records, most recent first
+ */
+type Listener = (runs: PlaygroundRunRecord[]) => void
+
+/**
+ * Manages the run history and its persistence.
+ * Records are kept sorted by start time, most recent first.
+ *
+ * @class
+ */
+class RunStore {
+  private listeners: Set<Listener> = new Set()
+  private runs: PlaygroundRunRecord[] = []
+
+  /**
+   * Subscribes a listener to run history changes.
+   * @param {Listener} listener - Callback function to be called on state changes
+   * @returns {Function} Unsubscribe function
+   */
+  subscribe(listener: Listener) {
+    this.listeners.add(listener)
+    listener(this.runs)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Sorts the cached records and notifies all listeners.
+   * @private
+   */
+  private notify() {
+    this.runs.sort((a, b) => b.startedAt - a.startedAt)
+    const runsCopy = this.runs.map((run) => ({ ...run }))
+    this.listeners.forEach((listener) => listener(runsCopy))
+  }
+
+  /**
+   * Loads the records from IndexedDB.
+   * @async
+   */
+  async init() {
+    this.runs = await db.runs.toArray()
+    this.notify()
+  }
+
+  /**
+   * Saves the record of a finished request, deleting the oldest records
+   * beyond the limit.
+   * @async
+   * @param {Omit<PlaygroundRunRecord, 'id'>} run - Record to save
+   * @returns {Promise<PlaygroundRunRecord>} The saved record
+   */
+  async add(run: Omit<PlaygroundRunRecord, 'id'>) {
+    const saved: PlaygroundRunRecord = { ...run, id: uuidv4() }
+
+    await db.transaction('rw', db.runs, async () => {
+      await db.runs.add(saved)
+      const ids = await db.runs.orderBy('startedAt').primaryKeys()
+      await db.runs.bulkDelete(ids.slice(0, Math.max(0, ids.length - MAX_RUNS)))
+    })
+    this.runs = [saved, ...this.runs].slice(0, MAX_RUNS)
+    this.notify()
+
+    logger.info('Run recorded', {
+      context: { runId: saved.id, model: saved.model, status: saved.status },
+      module: 'RunStore',
+    })
+    return saved
+  }
+
+  /**
+   * Deletes a single record.
+   * @async
+   * @param {string} id - ID of the record to delete
+   */
+  async delete(id: string) {
+    await db.runs.delete(id)
+    this.runs = this.runs.filter((run) => run.id !== id)
+    this.notify()
+  }
+
+  /**
+   * Deletes all records.
+   * @async
+   */
+  async clear() {
+    await db.runs.clear()
+    this.runs = []
+    this.notify()
+
+    logger.info('Run history cleared', { module: 'RunStore' })
+  }
+}
+
+/**
+ * Singleton instance of RunStore.
+ * Use this instance for all run history operations.
+ * @constant
+ * @type {RunStore}
+ */
+export const runStore = new RunStore()
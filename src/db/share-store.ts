@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Server-side store of shared conversation snapshots.
+ * Every snapshot is a JSON file in `SHARE_STORAGE_DIR`, named by its ID.
+ * Shares are rate limited per client and their total size is capped.
+ */
+
+import { env } from '@/env'
+import type { PlaygroundMessage } from '@/stores/playground'
+import type { ImportedMessage } from '@/utils/conversation-file'
+import { logger } from '@/utils/logger'
+import { randomBytes } from 'crypto'
+import { mkdir, readdir, readFile, stat, writeFile } from 'fs/promises'
+import path from 'path'
+
+/**
+ * Format of share IDs, checked before they are used in a file path.
+ * @const
+ */
+const SHARE_ID_PATTERN = /^[\w-]{16}$/
+
+/**
+ * Length of the share rate limit window, in milliseconds.
+ * @const
+ */
+const RATE_WINDOW = 60 * 60 * 1000
+
+/**
+ * Reasons a share is refused.
+ */
+export type ShareErrorCode = 'rateLimited' | 'storageFull'
+
+/**
+ * Error thrown when a client shares too often or the storage is full.
+ *
+ * @class
+ * @extends Error
+ * @property {ShareErrorCode} code - Which limit was reached
+ */
+export class ShareError extends Error {
+  constructor(public code: ShareErrorCode) {
+    super(
+      code === 'rateLimited'
+        ? 'Too many shares, try again later'
+        : 'Share storage is full'
+    )
+    this.name = 'ShareError'
+  }
+}
+
+/**
+ * A read-only snapshot of a conversation.
+ *
+ * @interface SharedConversation
+ * @property {string} id - Share ID, part of the share URL
+ * @property {string} title - Conversation title
+ * @property {PlaygroundMessage[]} messages - Messages of the shared branch
+ * @property {number} createdAt - Creation time in milliseconds
+ */
+export type SharedConversation = {
+  id: string
+  title: string
+  messages: PlaygroundMessage[]
+  createdAt: number
+}
+
+/**
+ * Stores conversation snapshots as files.
+ * Snapshots are immutable, sharing again creates a new link.
+ *
+ * @class
+ */
+class ShareStore {
+  private requests = new Map<string, number[]>()
+  private measuring: Promise<number> | null = null
+  private usedBytes: number | null = null
+
+  /**
+   * Returns the file of a snapshot.
+   * @private
+   * @param {string} id - Share ID
+   * @returns {string} Absolute file path
+   */
+  private filePath(id: string) {
+    return path.resolve(env.SHARE_STORAGE_DIR, `${id}.json`)
+  }
+
+  /**
+   * Sums the size of the stored snapshots, once per server process.
+   * @private
+   * @async
+   * @returns {Promise<number>} Size in bytes
+   */
+  private async measure() {
+    let names: string[]
+    try {
+      names = await readdir(path.resolve(env.SHARE_STORAGE_DIR))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0
+      throw error
+    }
+    const sizes = await Promise.all(
+      names
+        .filter((name) => name.endsWith('.json'))
+        .map(
+          async (name) => (await stat(this.filePath(name.slice(0, -5)))).size
+        )
+    )
+    return sizes.reduce((sum, size) => sum + size, 0)
+  }
+
+  /**
+   * Counts a share, unless the client is over its rate limit.
+   * @param {string} clientId - Client key
+   * @throws {ShareError} If the rate limit is reached
+   */
+  acquire(clientId: string) {
+    const now = Date.now()
+    const recent = (this.requests.get(clientId) ?? []).filter(
+      (time) => now - time < RATE_WINDOW
+    )
+    if (env.SHARE_RATE_LIMIT && recent.length >= env.SHARE_RATE_LIMIT) {
+      this.requests.set(clientId, recent)
+      throw new ShareError('rateLimited')
+    }
+    this.requests.set(clientId, [...recent, now])
+
+    // Keep the map from growing with clients that stopped sharing
+    for (const [key, times] of this.requests) {
+      if (now - times[times.length - 1] >= RATE_WINDOW) {
+        this.requests.delete(key)
+      }
+    }
+  }
+
+  /**
+   * Saves a snapshot of a conversation.
+   * Messages get new IDs, so the snapshot reveals nothing of the local database.
+   * @async
+   * @param {string} title - Conversation title
+   * @param {ImportedMessage[]} messages - Messages in conversation order
+   * @returns {Promise<SharedConversation>} The saved snapshot
+   * @throws {ShareError} If the snapshot does not fit in the storage limit
+   */
+  async create(title: string, messages: ImportedMessage[]) {
+    const id = randomBytes(12).toString('base64url')
+    const createdAt = Date.now()
+    const snapshot: SharedConversation = {
+      id,
+      title,
+      messages: messages.map((msg, index) => ({
+        ...msg,
+        id: String(index + 1),
+        timestamp: createdAt + index,
+      })),
+      createdAt,
+    }
+
+    const data = JSON.stringify(snapshot)
+    const size = Buffer.byteLength(data)
+    // The size is reserved before writing, so concurrent shares cannot overshoot
+    this.measuring ??= this.measure()
+    const measured = await this.measuring
+    this.usedBytes ??= measured
+    if (
+      env.SHARE_MAX_STORAGE_MB &&
+      this.usedBytes + size > env.SHARE_MAX_STORAGE_MB * 1024 * 1024
+    ) {
+      throw new ShareError('storageFull')
+    }
+    this.usedBytes += size
+
+    try {
+      await mkdir(path.resolve(env.SHARE_STORAGE_DIR), { recursive: true })
+      await writeFile(this.filePath(id), data, {
+        flag: 'wx',
+      })
+    } catch (error) {
+      this.usedBytes -= size
+      throw error
+    }
+
+    logger.info('Conversation shared', {
+      context: { id, messages: messages.length },
+      module: 'ShareStore',
+    })
+    return snapshot
+  }
+
+  /**
+   * Reads a snapshot.
+   * @async
+   * @param {string} id - Share ID
+   * @returns {Promise<SharedConversation | null>} The snapshot, or null if it does not exist
+   */
+  async get(id: string): Promise<SharedConversation | null> {
+    if (!SHARE_ID_PATTERN.test(id)) return null
+    try {
+      return JSON.parse(await readFile(this.filePath(id), 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+}
+
+/**
+ * Singleton instance of ShareStore
+ * @const
+ */
+export const shareStore = new ShareStore()
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Template store implementation for the prompt library.
+ * Provides save and delete operations for prompt templates backed by IndexedDB.
+ */
+
+import { PlaygroundTemplate } from '@/stores/playground'
+import { logger } from '@/utils/logger'
+import { v4 as uuidv4 } from 'uuid'
+import { db } from '.'
+
+/**
+ * Callback type for template list changes.
+ * @callback Listener
+ * @param {PlaygroundTemplate[]} templates - Updated template list
+ */
+type Listener = (templates: PlaygroundTemplate[]) => void
+
+/**
+ * Manages the saved prompt templates and their persistence.
+ * Templates are kept sorted by last update, most recent first.
+ *
+ * @class
+ */
+class TemplateStore {
+  private listeners: Set<Listener> = new Set()
+  private templates: PlaygroundTemplate[] = []
+
+  /**
+   * Subscribes a listener to template list changes.
+   * @param {Listener} listener - Callback function to be called on state changes
+   * @returns {Function} Unsubscribe function
+   */
+  subscribe(listener: Listener) {
+    this.listeners.add(listener)
+    listener(this.templates)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Sorts the cached templates and notifies all listeners.
+   * @private
+   */
+  private notify() {
+    this.templates.sort((a, b) => b.updatedAt - a.updatedAt)
+    const templatesCopy = this.templates.map((t) => ({ ...t }))
+    this.listeners.forEach((listener) => listener(templatesCopy))
+  }
+
+  /**
+   * Loads templates from IndexedDB.
+   * @async
+   */
+  async init() {
+    this.templates = await db.templates.toArray()
+    this.notify()
+  }
+
+  /**
+   * Creates a template or updates an existing one.
+   * @async
+   * @param {Object} template - Template to save, without an id for new templates
+   * @returns {Promise<PlaygroundTemplate>} The saved template
+   */
+  async save(
+    template: Omit<PlaygroundTemplate, 'id' | 'createdAt' | 'updatedAt'> & {
+      id?: string
+    }
+  ) {
+    const now = Date.now()
+    const existing = this.templates.find((t) => t.id === template.id)
+    const saved: PlaygroundTemplate = {
+      ...template,
+      id: existing?.id ?? uuidv4(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    }
+
+    await db.templates.put(saved)
+    this.templates = existing
+      ? this.templates.map((t) => (t.id === saved.id ? saved : t))
+      : [...this.templates, saved]
+    this.notify()
+
+    logger.info('Template saved', {
+      context: { templateId: saved.id },
+      module: 'TemplateStore',
+    })
+    return saved
+  }
+
+  /**
+   * Deletes a template.
+   * @async
+   * @param {string} id - ID of the template to delete
+   */
+  async delete(id: string) {
+    await db.templates.delete(id)
+    this.templates = this.templates.filter((t) => t.id !== id)
+    this.notify()
+
+    logger.info('Template deleted', {
+      context: { templateId: id },
+      module: 'TemplateStore',
+    })
+  }
+}
+
+/**
+ * Singleton instance of TemplateStore.
+ * Use this instance for all template operations.
+ * @constant
+ * @type {TemplateStore}
+ */
+export const templateStore = new TemplateStore()
@@ -16,6 +16,15 @@ import { z } from 'zod'
  * @property {Object} server - Server-side environment variables
  * @property {string} server.AI_302_API_KEY - API key for AI 302 service
  * @property {string} server.AI_302_API_URL - Base URL for AI 302 service
+ * @property {string} server.SHARE_STORAGE_DIR - Directory of shared conversation snapshots
+ * @property {number} server.SHARE_RATE_LIMIT - Shares per hour and client, 0 for no limit
+ * @property {number} server.SHARE_MAX_STORAGE_MB - Total size of the snapshots in megabytes, 0 for no limit
+ * @property {boolean} server.CHAT_USE_SERVER_KEY - Whether chat falls back to the server API key
+ * @property {number} server.CHAT_RATE_LIMIT - Requests per minute and client with the server key, 0 for no limit
+ * @property {number} server.CHAT_DAILY_TOKEN_QUOTA - Tokens per day and client with the server key, 0 for no limit
+ * @property {string} server.CHAT_QUOTA_KEY - Whether limits apply per IP address or per browser session
+ * @property {boolean} server.CHAT_TRUSTED_PROXY - Whether the client IP is read from forwarding headers set by a reverse proxy
+ * @property {boolean} server.CHAT_CUSTOM_PROVIDERS - Whether users may chat with their own provider endpoints, off by default since the server connects to them
  * @property {string} client.NEXT_PUBLIC_AI_302_API_UPLOAD_URL - Upload URL for AI 302 service
  * @property {Object} client - Client-side environment variables (empty for security)
  */
@@ -23,6 +32,24 @@ export const env = createEnv({
   server: {
     AI_302_API_KEY: z.string().min(1),
     AI_302_API_URL: z.string().min(1),
+    SHARE_STORAGE_DIR: z.string().min(1).default('.data/shares'),
+    SHARE_RATE_LIMIT: z.coerce.number().int().min(0).default(10),
+    SHARE_MAX_STORAGE_MB: z.coerce.number().int().min(0).default(1024),
+    CHAT_USE_SERVER_KEY: z
+      .enum(['true', 'false'])
+      .default('false')
+      .transform((value) => value === 'true'),
+    CHAT_RATE_LIMIT: z.coerce.number().int().min(0).default(20),
+    CHAT_DAILY_TOKEN_QUOTA: z.coerce.number().int().min(0).default(200000),
+    CHAT_QUOTA_KEY: z.enum(['ip', 'session']).default('ip'),
+    CHAT_TRUSTED_PROXY: z
+      .enum(['true', 'false'])
+      .default('false')
+      .transform((value) => value === 'true'),
+    CHAT_CUSTOM_PROVIDERS: z
+      .enum(['true', 'false'])
+      .default('false')
+      .transform((value) => value === 'true'),
   },
   client: {
     NEXT_PUBLIC_AI_302_API_UPLOAD_URL: z.string().min(1),
@@ -0,0 +1,307 @@
+/**
+ * @fileoverview React hook for running a conversation over every row of a dataset.
+ * Fills the `{{column}}` placeholders of the messages from each row and calls the
+ * chat action with a concurrency limit and retries.
+ */
+
+import { chat, ChatSettings, ChatUsage, stopChat } from '@/actions/chat'
+import { PlaygroundMessage } from '@/stores/playground'
+import { getChatErrorKey, getChatErrorMessage } from '@/utils/chat-error'
+import { Dataset } from '@/utils/dataset'
+import { logger } from '@/utils/logger'
+import { fillTemplate } from '@/utils/template'
+import { readStreamableValue } from 'ai/rsc'
+import { useLocale, useTranslations } from 'next-intl'
+import { useCallback, useRef, useState } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * Result of one dataset row in a batch run.
+ *
+ * @interface BatchRunResult
+ * @property {number} index - Row index in the dataset
+ * @property {Record<string, string>} row - Row values by column
+ * @property {'pending' | 'running' | 'done' | 'error' | 'stopped'} status - Row status
+ * @property {string} output - Answer of the model
+ * @property {number} attempts - Number of requests made for the row
+ * @property {ChatUsage} [usage] - Token usage of the successful request
+ * @property {number} [duration] - Duration of the successful request in milliseconds
+ * @property {string} [error] - Error message of the last failed request
+ */
+export type BatchRunResult = {
+  index: number
+  row: Record<string, string>
+  status: 'pending' | 'running' | 'done' | 'error' | 'stopped'
+  output: string
+  attempts: number
+  usage?: ChatUsage
+  duration?: number
+  error?: string
+}
+
+/**
+ * Options of a batch run.
+ *
+ * @interface BatchRunOptions
+ * @property {number} concurrency - Number of rows requested at the same time
+ * @property {number} retries - Number of retries for a failed row
+ */
+export type BatchRunOptions = {
+  concurrency: number
+  retries: number
+}
+
+/**
+ * Stop flag of a batch run, with the IDs of its running requests.
+ *
+ * @interface BatchStopFlag
+ * @property {boolean} stopped - Whether the run was stopped
+ * @property {Set<string>} requestIds - IDs under which the running requests can be aborted
+ */
+type BatchStopFlag = {
+  stopped: boolean
+  requestIds: Set<string>
+}
+
+/**
+ * Aborts a request on the server, so the model stops generating tokens.
+ */
+const abortRequest = (requestId: string) => {
+  stopChat(requestId).catch((error) => {
+    logger.error('Failed to abort batch request', error as Error, {
+      context: { requestId },
+      module: 'BatchRun',
+    })
+  })
+}
+
+/**
+ * Stops a batch run and aborts its running requests.
+ */
+const stopRun = (stopFlag: BatchStopFlag) => {
+  stopFlag.stopped = true
+  stopFlag.requestIds.forEach(abortRequest)
+}
+
+/**
+ * Base delay before retrying a failed row, doubled on every retry
+ * @const
+ */
+const RETRY_DELAY = 1000
+
+/**
+ * React hook that runs a conversation once per dataset row.
+ *
+ * @function
+ * @returns {Object} Batch run interface
+ * @property {BatchRunResult[]} results - One result per dataset row
+ * @property {boolean} isRunning - Whether the batch is running
+ * @property {number} completed - Number of rows that finished, successfully or not
+ * @property {Function} run - Starts a batch run
+ * @property {Function} stop - Stops the batch run
+ * @property {Function} clear - Removes all results
+ *
+ * @example
+ * ```tsx
+ * const { results, run } = useBatchRun()
+ * await run(messages, settings, dataset, { concurrency: 3, retries: 2 })
+ * ```
+ */
+export function useBatchRun() {
+  const [results, setResults] = useState<BatchRunResult[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+
+  // Stop flag of the current run, replaced for every run
+  const stopRef = useRef<BatchStopFlag>({
+    stopped: false,
+    requestIds: new Set(),
+  })
+  const t = useTranslations('playground')
+  const locale = useLocale()
+
+  /**
+   * Applies a partial update to the result of a row.
+   */
+  const updateResult = useCallback(
+    (index: number, update: Partial<BatchRunResult>) => {
+      setResults((prev) =>
+        prev.map((result) =>
+          result.index === index ? { ...result, ...update } : result
+        )
+      )
+    },
+    []
+  )
+
+  /**
+   * Requests the answer for a single row, retrying failed requests.
+   */
+  const runRow = useCallback(
+    async (
+      index: number,
+      messages: PlaygroundMessage[],
+      settings: ChatSettings,
+      options: BatchRunOptions,
+      stopFlag: BatchStopFlag
+    ) => {
+      for (let attempt = 1; attempt <= options.retries + 1; attempt++) {
+        if (stopFlag.stopped) return
+        updateResult(index, { status: 'running', attempts: attempt })
+
+        const startedAt = Date.now()
+        const requestId = uuidv4()
+        stopFlag.requestIds.add(requestId)
+        let output = ''
+        let usage: ChatUsage | undefined
+        try {
+          const { output: stream } = await chat({
+            ...settings,
+            messages,
+            requestId,
+          })
+          // Stopped before the server registered the request
+          if (stopFlag.stopped) abortRequest(requestId)
+          for await (const delta of readStreamableValue(stream)) {
+            if (stopFlag.stopped) break
+            if (delta?.type === 'text-delta') {
+              output += delta.textDelta
+            } else if (delta?.type === 'usage') {
+              usage = delta.usage
+            }
+          }
+          if (stopFlag.stopped) {
+            updateResult(index, { status: 'stopped', output })
+            return
+          }
+
+          updateResult(index, {
+            status: 'done',
+            output,
+            usage,
+            duration: Date.now() - startedAt,
+            error: undefined,
+          })
+          return
+        } catch (error) {
+          // The aborted request of a stopped run is not a failure
+          if (stopFlag.stopped) {
+            updateResult(index, { status: 'stopped', output })
+            return
+          }
+          logger.error('Batch row failed', error as Error, {
+            context: { index, attempt },
+            module: 'BatchRun',
+          })
+          updateResult(index, {
+            error:
+              getChatErrorMessage(error, locale) || t(getChatErrorKey(error)),
+          })
+          if (attempt <= options.retries) {
+            await new Promise((resolve) =>
+              setTimeout(resolve, RETRY_DELAY * 2 ** (attempt - 1))
+            )
+          }
+        } finally {
+          stopFlag.requestIds.delete(requestId)
+        }
+      }
+      updateResult(index, { status: 'error' })
+    },
+    [updateResult, locale, t]
+  )
+
+  /**
+   * Runs the messages once for every row of the dataset.
+   * @param {PlaygroundMessage[]} messages - Conversation used as template
+   * @param {ChatSettings} settings - Generation settings and configuration
+   * @param {Dataset} dataset - Rows whose values fill the placeholders
+   * @param {BatchRunOptions} options - Concurrency and retry options
+   */
+  const run = useCallback(
+    async (
+      messages: PlaygroundMessage[],
+      settings: ChatSettings,
+      dataset: Dataset,
+      options: BatchRunOptions
+    ) => {
+      const stopFlag: BatchStopFlag = { stopped: false, requestIds: new Set() }
+      stopRef.current = stopFlag
+
+      setResults(
+        dataset.rows.map((row, index) => ({
+          index,
+          row,
+          status: 'pending',
+          output: '',
+          attempts: 0,
+        }))
+      )
+      setIsRunning(true)
+      logger.info('Starting batch run', {
+        context: { rows: dataset.rows.length, ...options },
+        module: 'BatchRun',
+      })
+
+      // Each worker takes the next pending row until none are left
+      let next = 0
+      const worker = async () => {
+        while (!stopFlag.stopped && next < dataset.rows.length) {
+          const index = next++
+          const row = dataset.rows[index]
+          await runRow(
+            index,
+            messages.map((msg) => ({
+              ...msg,
+              content: fillTemplate(msg.content, row),
+            })),
+            settings,
+            options,
+            stopFlag
+          )
+        }
+      }
+
+      await Promise.all(
+        Array.from(
+          { length: Math.min(options.concurrency, dataset.rows.length) },
+          worker
+        )
+      )
+
+      if (stopRef.current === stopFlag) {
+        setIsRunning(false)
+      }
+      logger.info('Batch run finished', { module: 'BatchRun' })
+    },
+    [runRow]
+  )
+
+  /**
+   * Stops the batch run and aborts its requests on the server; rows not
+   * started yet stay pending.
+   */
+  const stop = useCallback(() => {
+    stopRun(stopRef.current)
+    setIsRunning(false)
+  }, [])
+
+  /**
+   * Removes all results.
+   */
+  const clear = useCallback(() => {
+    stopRun(stopRef.current)
+    setIsRunning(false)
+    setResults([])
+  }, [])
+
+  return {
+    results,
+    isRunning,
+    completed: results.filter(
+      (result) => result.status === 'done' || result.status === 'error'
+    ).length,
+    run,
+    stop,
+    clear,
+  }
+}
@@ -1,13 +1,24 @@
 /**
  * @fileoverview React hook for managing chat message generation with streaming support.
  * Provides real-time message generation, cancellation, and error handling.
+ * Every request is recorded in the run history.
  * @author zpl
  * @created 2024-11-20
  */
 
-import { chat } from '@/actions/chat'
-import { PlaygroundMessage } from '@/stores/playground'
+import { chat, ChatSettings, ChatUsage, stopChat } from '@/actions/chat'
+import { messageStore } from '@/db/message-store'
+import { runStore } from '@/db/run-store'
+import {
+  PlaygroundMessage,
+  PlaygroundRunRecord,
+  PlaygroundToolCall,
+} from '@/stores/playground'
+import { getChatErrorKey, getChatErrorMessage } from '@/utils/chat-error'
+import { getResponseFormat } from '@/utils/json-schema'
 import { logger } from '@/utils/logger'
+import { calculateMetrics } from '@/utils/metrics'
+import { DEFAULT_PROVIDER_ID } from '@/utils/providers'
 import { LanguageModelV1LogProbs } from '@ai-sdk/provider'
 import { readStreamableValue } from 'ai/rsc'
 import { useLocale, useTranslations } from 'next-intl'
@@ -15,6 +26,27 @@ import { useRef, useState } from 'react'
 import { toast } from 'sonner'
 import { v4 as uuidv4 } from 'uuid'
 
+/**
+ * Settings of a generation: the settings of `chat` and the ID of the
+ * provider the connection was built from.
+ */
+export type GenerationSettings = ChatSettings & { providerId?: string }
+
+/**
+ * Returns the settings of a request as recorded in the run history.
+ * API keys, including the one of the provider, are never stored.
+ */
+const toRecordedSettings = (
+  settings: GenerationSettings
+): Record<string, unknown> => {
+  const recorded: Partial<GenerationSettings> = { ...settings }
+  delete recorded.apiKey
+  delete recorded.provider
+  // Recorded on its own, as the provider the request actually went to
+  delete recorded.providerId
+  return recorded
+}
+
 /**
  * React hook that manages chat message generation with streaming support.
  * Handles message generation state, streaming updates, and error handling.
@@ -68,19 +100,44 @@ export function useChatGeneration() {
 
   // Refs for managing generation flow
   const shouldStopRef = useRef(false)
+  // ID under which the server can abort the current request
+  const requestIdRef = useRef<string | null>(null)
   const contentRef = useRef('')
+  const reasoningRef = useRef('')
   const logprobsRef = useRef<LanguageModelV1LogProbs | undefined>(undefined)
+  const toolCallsRef = useRef<PlaygroundToolCall[]>([])
+  const usageRef = useRef<ChatUsage | undefined>(undefined)
+  // Timestamps of the current request for latency metrics
+  const startedAtRef = useRef(0)
+  const firstTokenAtRef = useRef<number | undefined>(undefined)
   // Internationalization hooks
   const t = useTranslations('playground')
   const locale = useLocale()
 
+  /**
+   * Aborts a request on the server, so the model stops generating tokens.
+   * @param {string} requestId - ID the request was started with
+   */
+  const abortRequest = (requestId: string) => {
+    stopChat(requestId).catch((error) => {
+      logger.error('Failed to abort chat generation', error as Error, {
+        context: { requestId },
+        module: 'ChatGeneration'
+      })
+    })
+  }
+
   /**
    * Stops the current message generation.
-   * Sets the stop flag that will be checked during streaming.
+   * Sets the stop flag that will be checked during streaming and aborts the
+   * request on the server.
    */
   const stop = () => {
     logger.info('Stopping chat generation', { module: 'ChatGeneration' })
     shouldStopRef.current = true
+    if (requestIdRef.current) {
+      abortRequest(requestIdRef.current)
+    }
   }
 
   /**
@@ -88,14 +145,25 @@ export function useChatGeneration() {
    * 
    * @async
    * @param {PlaygroundMessage[]} messages - Previous messages for context
-   * @param {any} settings - Generation settings and configuration
-   * @returns {Promise<{id: string, content: string} | null>} Generated message or null if error
+   * @param {GenerationSettings} settings - Generation settings and configuration
+   * @returns {Promise<{id: string, content: string, reasoning?: string, logprobs?: LanguageModelV1LogProbs, toolCalls?: PlaygroundToolCall[], responseFormat?: PlaygroundResponseFormat, usage?: ChatUsage, model?: string, metrics?: PlaygroundMessageMetrics, truncated?: boolean} | null>} Generated message or null if error, truncated if stopped by the user
    */
-  const generate = async (messages: PlaygroundMessage[], settings: any) => {
+  const generate = async (messages: PlaygroundMessage[], settings: GenerationSettings) => {
     const messageId = uuidv4()
+    requestIdRef.current = messageId
+    // The run belongs to the conversation it was sent from, even after switching
+    const conversationId = messageStore.getConversationId()
+    let status: PlaygroundRunRecord['status'] = 'done'
+    let errorMessage: string | undefined
+    const responseFormat = getResponseFormat(settings)
     shouldStopRef.current = false
     contentRef.current = ''
+    reasoningRef.current = ''
     logprobsRef.current = undefined
+    toolCallsRef.current = []
+    usageRef.current = undefined
+    startedAtRef.current = Date.now()
+    firstTokenAtRef.current = undefined
     logger.info('Starting chat generation', { 
       context: { messageId, messagesCount: messages.length },
       module: 'ChatGeneration'
@@ -116,34 +184,61 @@ export function useChatGeneration() {
       const { output } = await chat({
         ...settings,
         messages,
+        requestId: messageId,
       })
+      // Stopped before the server registered the request
+      if (shouldStopRef.current) {
+        abortRequest(messageId)
+      }
 
       logger.debug('Processing chat stream', { module: 'ChatGeneration' })
       for await (const delta of readStreamableValue(output)) {
         // Check for manual stop
-        if (shouldStopRef.current) {
-          logger.info('Chat generation stopped by user', { 
-            context: { messageId },
-            module: 'ChatGeneration'
-          })
-          return {
-            id: messageId,
-            content: contentRef.current
-          }
-        }
+        if (shouldStopRef.current) break
 
         // Accumulate content and update state
         if (delta?.type === 'text-delta') {
+          firstTokenAtRef.current ??= Date.now()
           contentRef.current += delta.textDelta
           setState((prev) => ({
             ...prev,
             generatingMessage: {
+              ...prev.generatingMessage,
               id: messageId,
               role: 'assistant',
               content: contentRef.current,
               timestamp: Date.now(),
             },
           }))
+        } else if (delta?.type === 'reasoning-delta' && delta.reasoningDelta) {
+          firstTokenAtRef.current ??= Date.now()
+          reasoningRef.current += delta.reasoningDelta
+          const reasoning = reasoningRef.current
+          setState((prev) => {
+            if (!prev.generatingMessage) return prev;
+            return {
+              ...prev,
+              generatingMessage: {
+                ...prev.generatingMessage,
+                reasoning,
+              },
+            };
+          });
+        } else if (delta?.type === 'tool-call' && delta.toolCall) {
+          toolCallsRef.current = [...toolCallsRef.current, delta.toolCall]
+          const toolCalls = toolCallsRef.current
+          setState((prev) => {
+            if (!prev.generatingMessage) return prev;
+            return {
+              ...prev,
+              generatingMessage: {
+                ...prev.generatingMessage,
+                toolCalls,
+              },
+            };
+          });
+        } else if (delta?.type === 'usage') {
+          usageRef.current = delta.usage
         } else if (delta?.type === 'logprobs') {
           logprobsRef.current = delta.logprobs
           setState((prev) => {
@@ -160,11 +255,52 @@ export function useChatGeneration() {
         
       }
 
+      // Stopped by the user; the server also ends the stream once it aborted the request
+      if (shouldStopRef.current) {
+        logger.info('Chat generation stopped by user', { 
+          context: { messageId },
+          module: 'ChatGeneration'
+        })
+        status = 'stopped'
+        return {
+          id: messageId,
+          content: contentRef.current,
+          reasoning: reasoningRef.current || undefined,
+          toolCalls: toolCallsRef.current.length ? toolCallsRef.current : undefined,
+          responseFormat,
+          model: settings.model,
+          metrics: calculateMetrics({
+            startedAt: startedAtRef.current,
+            firstTokenAt: firstTokenAtRef.current,
+            finishedAt: Date.now(),
+          }),
+          truncated: true,
+        }
+      }
+
+      const metrics = calculateMetrics(
+        {
+          startedAt: startedAtRef.current,
+          firstTokenAt: firstTokenAtRef.current,
+          finishedAt: Date.now(),
+        },
+        usageRef.current?.completionTokens
+      )
       logger.info('Chat generation completed successfully', { 
-        context: { messageId },
+        context: { messageId, metrics },
         module: 'ChatGeneration'
       })
-      return { id: messageId, content: contentRef.current, logprobs: logprobsRef.current }
+      return {
+        id: messageId,
+        content: contentRef.current,
+        reasoning: reasoningRef.current || undefined,
+        logprobs: logprobsRef.current,
+        toolCalls: toolCallsRef.current.length ? toolCallsRef.current : undefined,
+        responseFormat,
+        usage: usageRef.current,
+        model: settings.model,
+        metrics,
+      }
     } catch (error: unknown) {
       logger.error('Error in chat generation', error as Error, { 
         context: { messageId },
@@ -172,31 +308,42 @@ export function useChatGeneration() {
       })
 
       // Handle localized error messages
-      if (typeof error === 'string') {
-        try {
-          const parsedError = JSON.parse(error)
-          const key = {
-            zh: 'cn',
-            en: 'en',
-            ja: 'jp',
-          }[locale]
-          const errorMessage = parsedError.error[`message_${key}`] || parsedError.error.message
-          toast.error(errorMessage)
-        } catch (parseError) {
-          logger.error('Error parsing error message', parseError as Error, { 
-            context: { messageId, originalError: error },
-            module: 'ChatGeneration'
-          })
-          toast.error(t('error.chatFailed'))
-        }
-      } else {
-        toast.error(t('error.chatFailed'))
-      }
+      status = 'error'
+      errorMessage = getChatErrorMessage(error, locale) || t(getChatErrorKey(error))
+      toast.error(errorMessage)
       return null
     } finally {
+      runStore
+        .add({
+          conversationId,
+          model: settings.model,
+          // Without a provider the request went to the gateway, whatever is selected
+          providerId: (settings.provider && settings.providerId) || DEFAULT_PROVIDER_ID,
+          settings: toRecordedSettings(settings),
+          messages,
+          status,
+          output: contentRef.current,
+          reasoning: reasoningRef.current || undefined,
+          toolCalls: toolCallsRef.current.length ? toolCallsRef.current : undefined,
+          logprobs: logprobsRef.current,
+          usage: usageRef.current,
+          error: errorMessage,
+          startedAt: startedAtRef.current,
+          firstTokenAt: firstTokenAtRef.current,
+          finishedAt: Date.now(),
+        })
+        .catch((error) => {
+          logger.error('Failed to record run', error as Error, {
+            context: { messageId },
+            module: 'ChatGeneration'
+          })
+        })
+
       // Reset state and refs
+      requestIdRef.current = null
       shouldStopRef.current = false
       contentRef.current = ''
+      reasoningRef.current = ''
       setState({
         isRunning: false,
         generatingMessage: null,
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview React hook for exporting the conversation in several formats.
+ * Supports Markdown, lossless JSON, OpenAI fine-tuning JSONL, a standalone
+ * HTML page and printing to PDF.
+ */
+
+import { renderConversationDocument } from '@/components/playground/conversation-document'
+import { PlaygroundMessage } from '@/stores/playground'
+import {
+  collectDocumentCss,
+  ExportFormat,
+  toConversationJson,
+  toFineTuneJsonl,
+  toHtmlDocument,
+  toMarkdown,
+} from '@/utils/conversation-export'
+import { logger } from '@/utils/logger'
+import { saveAs } from 'file-saver'
+import { useLocale, useMessages, useTranslations } from 'next-intl'
+import { useCallback } from 'react'
+import { toast } from 'sonner'
+
+/**
+ * Conversation passed to the export.
+ *
+ * @interface ExportedConversation
+ * @property {string} title - Conversation title, also used in the file name
+ * @property {PlaygroundMessage[]} messages - Messages to export
+ * @property {Record<string, unknown>} settings - Generation settings, stored in the JSON export
+ */
+type ExportedConversation = {
+  title: string
+  messages: PlaygroundMessage[]
+  settings: Record<string, unknown>
+}
+
+/**
+ * React hook that exports a conversation.
+ *
+ * @function
+ * @returns {Function} Export function taking the format and the conversation
+ *
+ * @example
+ * ```tsx
+ * const exportConversation = useConversationExport()
+ * await exportConversation('json', { title, messages, settings })
+ * ```
+ */
+export function useConversationExport() {
+  const t = useTranslations('playground')
+  const locale = useLocale()
+  const intlMessages = useMessages()
+
+  return useCallback(
+    async (
+      format: ExportFormat,
+      { title, messages, settings }: ExportedConversation
+    ) => {
+      const baseName = `chat-${new Date().toISOString().slice(0, 10)}`
+      const save = (content: string, type: string, extension: string) =>
+        saveAs(
+          new Blob([content], { type: `${type};charset=utf-8` }),
+          `${baseName}.${extension}`
+        )
+
+      // Open the print window right away, browsers block it after an await
+      const printWindow = format === 'pdf' ? window.open('', '_blank') : null
+      if (format === 'pdf' && !printWindow) {
+        toast.error(t('export.popupBlocked'))
+        return
+      }
+
+      try {
+        switch (format) {
+          case 'markdown':
+            save(
+              toMarkdown(messages, (role) => t(`message.${role}`)),
+              'text/markdown',
+              'md'
+            )
+            break
+          case 'json':
+            save(
+              toConversationJson(title, messages, settings),
+              'application/json',
+              'json'
+            )
+            break
+          case 'jsonl':
+            save(toFineTuneJsonl(messages), 'application/jsonl', 'jsonl')
+            break
+          case 'html':
+          case 'pdf': {
+            const body = await renderConversationDocument({
+              title,
+              messages,
+              locale,
+              intlMessages,
+            })
+            const html = toHtmlDocument({
+              title: title || baseName,
+              body,
+              css: collectDocumentCss(),
+              lang: locale,
+            })
+            if (printWindow) {
+              printWindow.document.write(html)
+              printWindow.document.close()
+              printWindow.onload = () => printWindow.print()
+            } else {
+              save(html, 'text/html', 'html')
+            }
+            break
+          }
+        }
+      } catch (error) {
+        printWindow?.close()
+        logger.error('Export failed', error as Error, {
+          context: { format },
+          module: 'ConversationExport',
+        })
+        toast.error(t('export.failed'))
+      }
+    },
+    [t, locale, intlMessages]
+  )
+}
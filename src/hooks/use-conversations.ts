@@ -0,0 +1,151 @@
+/**
+ * @fileoverview React hook for managing saved playground conversations.
+ * Provides the conversation list, the active conversation and CRUD handlers.
+ */
+
+import { conversationStore } from '@/db/conversation-store'
+import {
+  activeConversationIdAtom,
+  PlaygroundConversation,
+} from '@/stores/playground'
+import { ImportedConversation } from '@/utils/conversation-file'
+import { useAtom } from 'jotai'
+import { useCallback, useEffect, useState } from 'react'
+
+/**
+ * React hook that provides conversation management functionality.
+ * Keeps the persisted active conversation ID pointing to an existing conversation.
+ *
+ * @function
+ * @returns {Object} Conversation management interface
+ * @property {PlaygroundConversation[]} conversations - Conversations, most recently updated first
+ * @property {string} activeConversationId - ID of the conversation shown in the playground
+ * @property {boolean} loading - Loading state indicator
+ * @property {Function} handleSelect - Switches to another conversation
+ * @property {Function} handleCreate - Creates and switches to a new conversation
+ * @property {Function} handleRename - Renames a conversation
+ * @property {Function} handleDuplicate - Copies a conversation and switches to the copy
+ * @property {Function} handleImport - Creates a conversation from an imported file and switches to it
+ * @property {Function} handleDelete - Deletes a conversation
+ *
+ * @example
+ * ```tsx
+ * function ConversationList() {
+ *   const { conversations, activeConversationId, handleSelect } = useConversations()
+ *
+ *   return conversations.map((c) => (
+ *     <button key={c.id} onClick={() => handleSelect(c.id)}>
+ *       {c.id === activeConversationId ? <b>{c.title}</b> : c.title}
+ *     </button>
+ *   ))
+ * }
+ * ```
+ */
+export function useConversations() {
+  const [conversations, setConversations] = useState<PlaygroundConversation[]>(
+    []
+  )
+  const [loading, setLoading] = useState(true)
+  const [activeConversationId, setActiveConversationId] = useAtom(
+    activeConversationIdAtom
+  )
+
+  // Load conversations and subscribe to store updates
+  useEffect(() => {
+    conversationStore.init().then(() => setLoading(false))
+    return conversationStore.subscribe(setConversations)
+  }, [])
+
+  // Fall back to the most recent conversation if the active one is gone
+  useEffect(() => {
+    if (loading || conversations.length === 0) return
+    if (!conversations.some((c) => c.id === activeConversationId)) {
+      setActiveConversationId(conversations[0].id)
+    }
+  }, [loading, conversations, activeConversationId, setActiveConversationId])
+
+  /**
+   * Switches to another conversation.
+   * @param {string} id - ID of the conversation to show
+   */
+  const handleSelect = useCallback(
+    (id: string) => {
+      setActiveConversationId(id)
+    },
+    [setActiveConversationId]
+  )
+
+  /**
+   * Creates a new conversation and switches to it.
+   */
+  const handleCreate = useCallback(async () => {
+    const conversation = await conversationStore.create()
+    setActiveConversationId(conversation.id)
+  }, [setActiveConversationId])
+
+  /**
+   * Renames a conversation.
+   * @param {string} id - ID of the conversation to rename
+   * @param {string} title - New title
+   */
+  const handleRename = useCallback((id: string, title: string) => {
+    conversationStore.rename(id, title.trim())
+  }, [])
+
+  /**
+   * Copies a conversation with its messages and switches to the copy.
+   * @param {string} id - ID of the conversation to copy
+   * @param {string} title - Title of the copy
+   */
+  const handleDuplicate = useCallback(
+    async (id: string, title: string) => {
+      const conversation = await conversationStore.duplicate(id, title)
+      if (conversation) {
+        setActiveConversationId(conversation.id)
+      }
+    },
+    [setActiveConversationId]
+  )
+
+  /**
+   * Creates a conversation from an imported file and switches to it.
+   * @param {ImportedConversation} imported - Title and messages read from the file
+   */
+  const handleImport = useCallback(
+    async ({ title, messages }: ImportedConversation) => {
+      const conversation = await conversationStore.createFromMessages(
+        title,
+        messages
+      )
+      setActiveConversationId(conversation.id)
+    },
+    [setActiveConversationId]
+  )
+
+  /**
+   * Deletes a conversation.
+   * Switches to the most recent remaining conversation if the active one is deleted.
+   * @param {string} id - ID of the conversation to delete
+   */
+  const handleDelete = useCallback(
+    async (id: string) => {
+      const remaining = await conversationStore.delete(id)
+      if (id === activeConversationId && remaining.length > 0) {
+        setActiveConversationId(remaining[0].id)
+      }
+    },
+    [activeConversationId, setActiveConversationId]
+  )
+
+  return {
+    conversations,
+    activeConversationId,
+    loading,
+    handleSelect,
+    handleCreate,
+    handleRename,
+    handleDuplicate,
+    handleImport,
+    handleDelete,
+  }
+}
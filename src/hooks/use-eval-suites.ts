@@ -0,0 +1,394 @@
+/**
+ * @fileoverview React hook for prompt evaluation suites.
+ * Provides the saved suites and their run history, and runs the test cases of a
+ * suite through the chat action, checking every answer against its assertions.
+ */
+
+import { chat, ChatSettings, ChatUsage, stopChat } from '@/actions/chat'
+import { evalStore } from '@/db/eval-store'
+import {
+  PlaygroundEvalCase,
+  PlaygroundEvalCaseResult,
+  PlaygroundEvalRun,
+  PlaygroundEvalSuite,
+  PlaygroundMessage,
+  PlaygroundProvider,
+} from '@/stores/playground'
+import { getChatErrorKey, getChatErrorMessage } from '@/utils/chat-error'
+import {
+  buildJudgeMessages,
+  checkAssertion,
+  EvalAssertion,
+  EvalAssertionResult,
+  parseJudgeVerdict,
+} from '@/utils/eval'
+import { logger } from '@/utils/logger'
+import { toChatProvider } from '@/utils/providers'
+import { readStreamableValue } from 'ai/rsc'
+import { useLocale, useTranslations } from 'next-intl'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * Settings of judge requests: deterministic, plain text and without tools.
+ * @const
+ */
+const JUDGE_SETTINGS: Partial<ChatSettings> = {
+  temperature: 0,
+  maxTokens: 1024,
+  responseFormat: 'text',
+  tools: [],
+  stopSequences: [],
+  logitBias: [],
+  topLogprobs: 0,
+  seed: undefined,
+  topK: undefined,
+  reasoningEffort: undefined,
+}
+
+/**
+ * Options of a suite run.
+ *
+ * @interface EvalRunOptions
+ * @property {PlaygroundProvider[]} providers - Configured providers, to reach the model of each case
+ * @property {string} [systemPrompt] - System message replacing the one of every case
+ */
+export type EvalRunOptions = {
+  providers: PlaygroundProvider[]
+  systemPrompt?: string
+}
+
+/**
+ * Progress of the running suite.
+ *
+ * @interface EvalProgress
+ * @property {string} suiteId - ID of the running suite
+ * @property {number} completed - Number of cases that finished
+ * @property {number} total - Number of cases of the suite
+ */
+export type EvalProgress = {
+  suiteId: string
+  completed: number
+  total: number
+}
+
+/**
+ * Stop flag of a suite run, with the ID of its running request.
+ *
+ * @interface EvalStopFlag
+ * @property {boolean} stopped - Whether the run was stopped
+ * @property {string} [requestId] - ID under which the running request can be aborted
+ */
+type EvalStopFlag = {
+  stopped: boolean
+  requestId?: string
+}
+
+/**
+ * Aborts a request on the server, so the model stops generating tokens.
+ */
+const abortRequest = (requestId: string) => {
+  stopChat(requestId).catch((error) => {
+    logger.error('Failed to abort eval request', error as Error, {
+      context: { requestId },
+      module: 'EvalSuites',
+    })
+  })
+}
+
+/**
+ * Reads the whole answer of a chat request.
+ * Returns the text read so far when the stop flag is set.
+ */
+const collectAnswer = async (
+  settings: ChatSettings,
+  messages: PlaygroundMessage[],
+  stopFlag: EvalStopFlag
+) => {
+  const requestId = uuidv4()
+  stopFlag.requestId = requestId
+  let text = ''
+  let usage: ChatUsage | undefined
+  try {
+    const { output } = await chat({ ...settings, messages, requestId })
+    // Stopped before the server registered the request
+    if (stopFlag.stopped) {
+      abortRequest(requestId)
+      return { text, usage }
+    }
+    for await (const delta of readStreamableValue(output)) {
+      if (stopFlag.stopped) break
+      if (delta?.type === 'text-delta') {
+        text += delta.textDelta
+      } else if (delta?.type === 'usage') {
+        usage = delta.usage
+      }
+    }
+  } finally {
+    stopFlag.requestId = undefined
+  }
+  return { text, usage }
+}
+
+/**
+ * Returns the messages of a case, with its system message replaced if one is given.
+ */
+const withSystemPrompt = (
+  messages: PlaygroundMessage[],
+  systemPrompt?: string
+): PlaygroundMessage[] => {
+  if (systemPrompt === undefined) return messages
+  const rest = messages.filter((msg) => msg.role !== 'system')
+  return systemPrompt.trim()
+    ? [{ id: uuidv4(), role: 'system', content: systemPrompt }, ...rest]
+    : rest
+}
+
+/**
+ * React hook that provides evaluation suite management and runs.
+ *
+ * @function
+ * @returns {Object} Evaluation interface
+ * @property {PlaygroundEvalSuite[]} suites - Saved suites, most recently updated first
+ * @property {PlaygroundEvalRun[]} runs - Runs of all suites, oldest first
+ * @property {EvalProgress | null} progress - Progress of the running suite, null when idle
+ * @property {Function} saveSuite - Creates or updates a suite
+ * @property {Function} deleteSuite - Deletes a suite and its runs
+ * @property {Function} runSuite - Runs every case of a suite and saves the run
+ * @property {Function} stop - Stops the running suite
+ *
+ * @example
+ * ```tsx
+ * const { suites, runSuite } = useEvalSuites()
+ * await runSuite(suites[0], settings, { providers })
+ * ```
+ */
+export function useEvalSuites() {
+  const [suites, setSuites] = useState<PlaygroundEvalSuite[]>([])
+  const [runs, setRuns] = useState<PlaygroundEvalRun[]>([])
+  const [progress, setProgress] = useState<EvalProgress | null>(null)
+
+  // Stop flag of the current run, replaced for every run
+  const stopRef = useRef<EvalStopFlag>({ stopped: false })
+  const t = useTranslations('playground')
+  const locale = useLocale()
+
+  // Load suites and runs and subscribe to store updates
+  useEffect(() => {
+    evalStore.init()
+    return evalStore.subscribe((suites, runs) => {
+      setSuites(suites)
+      setRuns(runs)
+    })
+  }, [])
+
+  const errorMessage = useCallback(
+    (error: unknown) =>
+      getChatErrorMessage(error, locale) || t(getChatErrorKey(error)),
+    [locale, t]
+  )
+
+  /**
+   * Grades an answer against a rubric with the judge model.
+   */
+  const judge = useCallback(
+    async (
+      assertion: Extract<EvalAssertion, { type: 'judge' }>,
+      messages: PlaygroundMessage[],
+      output: string,
+      settings: ChatSettings,
+      stopFlag: EvalStopFlag
+    ): Promise<EvalAssertionResult> => {
+      try {
+        const { text } = await collectAnswer(
+          { ...settings, ...JUDGE_SETTINGS },
+          buildJudgeMessages(assertion.rubric, messages, output),
+          stopFlag
+        )
+        const { passed, reason } = parseJudgeVerdict(text)
+        return {
+          assertionId: assertion.id,
+          type: 'judge',
+          passed,
+          detail: reason,
+        }
+      } catch (error) {
+        return {
+          assertionId: assertion.id,
+          type: 'judge',
+          passed: false,
+          detail: errorMessage(error),
+        }
+      }
+    },
+    [errorMessage]
+  )
+
+  /**
+   * Answers a single case and checks its assertions.
+   */
+  const runCase = useCallback(
+    async (
+      evalCase: PlaygroundEvalCase,
+      suite: PlaygroundEvalSuite,
+      settings: ChatSettings,
+      options: EvalRunOptions,
+      stopFlag: EvalStopFlag
+    ): Promise<PlaygroundEvalCaseResult> => {
+      const providerOf = (id: string) => {
+        const provider = options.providers.find(
+          (item) => item.id === id && item.enabled
+        )
+        return provider && toChatProvider(provider)
+      }
+      const messages = withSystemPrompt(evalCase.messages, options.systemPrompt)
+      const result = {
+        caseId: evalCase.id,
+        caseName: evalCase.name,
+        model: evalCase.model,
+      }
+
+      const startedAt = Date.now()
+      let answer: Awaited<ReturnType<typeof collectAnswer>>
+      try {
+        answer = await collectAnswer(
+          {
+            ...settings,
+            model: evalCase.model,
+            provider: providerOf(evalCase.providerId),
+          },
+          messages,
+          stopFlag
+        )
+      } catch (error) {
+        logger.error('Eval case failed', error as Error, {
+          context: { caseId: evalCase.id, model: evalCase.model },
+          module: 'EvalSuites',
+        })
+        return {
+          ...result,
+          output: '',
+          passed: false,
+          assertions: [],
+          error: errorMessage(error),
+        }
+      }
+      const duration = Date.now() - startedAt
+
+      // Without a judge model, each case is graded by its own model
+      const judgeSettings = suite.judgeModel
+        ? {
+            ...settings,
+            model: suite.judgeModel,
+            provider: providerOf(suite.judgeProviderId),
+          }
+        : {
+            ...settings,
+            model: evalCase.model,
+            provider: providerOf(evalCase.providerId),
+          }
+      const assertions: EvalAssertionResult[] = []
+      for (const assertion of evalCase.assertions) {
+        assertions.push(
+          assertion.type === 'judge'
+            ? await judge(
+                assertion,
+                messages,
+                answer.text,
+                judgeSettings,
+                stopFlag
+              )
+            : checkAssertion(assertion, answer.text)
+        )
+      }
+
+      return {
+        ...result,
+        output: answer.text,
+        passed: assertions.every((assertion) => assertion.passed),
+        assertions,
+        usage: answer.usage,
+        duration,
+      }
+    },
+    [judge, errorMessage]
+  )
+
+  /**
+   * Runs every case of a suite in order and saves the run.
+   * Cases use the current generation settings with their own model.
+   * @param {PlaygroundEvalSuite} suite - Suite to run
+   * @param {ChatSettings} settings - Generation settings and configuration
+   * @param {EvalRunOptions} options - Providers and system prompt override
+   */
+  const runSuite = useCallback(
+    async (
+      suite: PlaygroundEvalSuite,
+      settings: ChatSettings,
+      options: EvalRunOptions
+    ) => {
+      const stopFlag: EvalStopFlag = { stopped: false }
+      stopRef.current = stopFlag
+      const startedAt = Date.now()
+      const results: PlaygroundEvalCaseResult[] = []
+      setProgress({
+        suiteId: suite.id,
+        completed: 0,
+        total: suite.cases.length,
+      })
+      logger.info('Starting eval suite', {
+        context: { suiteId: suite.id, cases: suite.cases.length },
+        module: 'EvalSuites',
+      })
+
+      for (const evalCase of suite.cases) {
+        if (stopFlag.stopped) break
+        const result = await runCase(
+          evalCase,
+          suite,
+          settings,
+          options,
+          stopFlag
+        )
+        // A case cut short by stopping is not a result
+        if (stopFlag.stopped) break
+        results.push(result)
+        setProgress((prev) => prev && { ...prev, completed: results.length })
+      }
+
+      if (results.length) {
+        await evalStore.addRun({
+          suiteId: suite.id,
+          startedAt,
+          finishedAt: Date.now(),
+          stopped: stopFlag.stopped,
+          results,
+        })
+      }
+      if (stopRef.current === stopFlag) {
+        setProgress(null)
+      }
+    },
+    [runCase]
+  )
+
+  /**
+   * Stops the running suite and aborts its request on the server; the cases
+   * that finished are saved as a run.
+   */
+  const stop = useCallback(() => {
+    const stopFlag = stopRef.current
+    stopFlag.stopped = true
+    if (stopFlag.requestId) abortRequest(stopFlag.requestId)
+  }, [])
+
+  return {
+    suites,
+    runs,
+    progress,
+    saveSuite: evalStore.saveSuite.bind(evalStore),
+    deleteSuite: evalStore.deleteSuite.bind(evalStore),
+    runSuite,
+    stop,
+  }
+}
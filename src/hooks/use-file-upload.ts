@@ -1,4 +1,5 @@
 import { env } from '@/env'
+import { extractFileText } from '@/utils/file-extraction'
 import ky from 'ky'
 import { useState } from 'react'
 
@@ -7,6 +8,9 @@ export interface UploadedFile {
   type: 'image' | 'file'
   name: string
   size: number
+  mimeType?: string
+  text?: string
+  pages?: number
 }
 
 interface UploadResponse {
@@ -36,11 +40,15 @@ export function useFileUpload() {
             file.type.startsWith('image/') ? 'true' : 'false'
           )
 
-          const response = await ky
-            .post(env.NEXT_PUBLIC_AI_302_API_UPLOAD_URL, {
-              body: formData,
-            })
-            .json<UploadResponse>()
+          // Documents are read while they upload, their text is sent to the model
+          const [response, extracted] = await Promise.all([
+            ky
+              .post(env.NEXT_PUBLIC_AI_302_API_UPLOAD_URL, {
+                body: formData,
+              })
+              .json<UploadResponse>(),
+            file.type.startsWith('image/') ? null : extractFileText(file),
+          ])
 
           if (response.code !== 0) {
             throw new Error(response.msg)
@@ -51,6 +59,8 @@ export function useFileUpload() {
             type: file.type.startsWith('image/') ? 'image' : 'file',
             name: file.name,
             size: file.size,
+            ...(file.type && { mimeType: file.type }),
+            ...extracted,
           } as UploadedFile
         })
       )
@@ -5,7 +5,7 @@
  * @created 2024-11-20
  */
 
-import { messageStore } from '@/db/message-store'
+import { MessageBranch, messageStore } from '@/db/message-store'
 import { PlaygroundMessage } from '@/stores/playground'
 import type { DragEndEvent } from '@dnd-kit/core'
 import { useCallback, useEffect, useState } from 'react'
@@ -17,8 +17,10 @@ import { v4 as uuidv4 } from 'uuid'
  * 
  * @function
  * @param {string} [defaultSystemMessage] - Optional system message to initialize with
+ * @param {string} [conversationId] - Optional conversation to load, keeps the current one if omitted
  * @returns {Object} Message management interface
- * @property {PlaygroundMessage[]} messages - Current message list
+ * @property {PlaygroundMessage[]} messages - Current message list, the active branch path
+ * @property {Record<string, MessageBranch>} branches - Position of each message among its siblings
  * @property {boolean} loading - Loading state indicator
  * @property {Function} setMessages - Message state setter (placeholder)
  * @property {Function} handleEdit - Message edit handler
@@ -55,14 +57,18 @@ import { v4 as uuidv4 } from 'uuid'
  * }
  * ```
  */
-export function useMessages(defaultSystemMessage?: string) {
+export function useMessages(
+  defaultSystemMessage?: string,
+  conversationId?: string
+) {
   // Track message list and loading state
   const [messages, setMessages] = useState<PlaygroundMessage[]>([])
+  const [branches, setBranches] = useState<Record<string, MessageBranch>>({})
   const [loading, setLoading] = useState(true)
 
   // Initialize message store and set up subscription
   useEffect(() => {
-    messageStore.init().then(async () => {
+    messageStore.init(conversationId).then(async () => {
       const allMessages = await messageStore.getAllMessages()
       
       // Add default system message if none exists
@@ -78,8 +84,11 @@ export function useMessages(defaultSystemMessage?: string) {
     })
     
     // Subscribe to message store updates
-    return messageStore.subscribe(setMessages)
-  }, [defaultSystemMessage])
+    return messageStore.subscribe((messages, branches) => {
+      setMessages(messages)
+      setBranches(branches)
+    })
+  }, [defaultSystemMessage, conversationId])
 
   /**
    * Handles message editing.
@@ -126,6 +135,7 @@ export function useMessages(defaultSystemMessage?: string) {
 
   return {
     messages,
+    branches,
     loading,
     setMessages: () => {}, // Placeholder for compatibility
     handleEdit,
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview React hook for running one conversation against several models in parallel.
+ * Tracks a streamed answer, latency and token usage per model, with per-model cancellation.
+ */
+
+import { ChatSettings } from '@/actions/chat'
+import { PlaygroundMessage } from '@/stores/playground'
+import { getResponseFormat } from '@/utils/json-schema'
+import { logger } from '@/utils/logger'
+import { useCallback } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { ParallelChatResult, useParallelChat } from './use-parallel-chat'
+
+/**
+ * Result of one model in a comparison run.
+ *
+ * @interface ComparisonResult
+ * @property {string} model - Model identifier
+ * @property {'running' | 'done' | 'stopped' | 'error'} status - Generation status
+ * @property {PlaygroundMessage} message - Streamed assistant message
+ * @property {ChatUsage} [usage] - Token usage reported when the stream finished
+ * @property {number} startedAt - Timestamp when the request was sent
+ * @property {number} [firstTokenAt] - Timestamp of the first text delta
+ * @property {number} [finishedAt] - Timestamp when the stream ended
+ * @property {string} [error] - Error message if the generation failed
+ */
+export type ComparisonResult = ParallelChatResult & {
+  model: string
+  status: 'running' | 'done' | 'stopped' | 'error'
+  startedAt: number
+}
+
+/**
+ * Key of a comparison result: its model.
+ */
+const getModel = (result: ComparisonResult) => result.model
+
+/**
+ * React hook that runs the same message history against multiple models at once.
+ *
+ * @function
+ * @returns {Object} Comparison interface
+ * @property {ComparisonResult[]} results - One result per compared model, in selection order
+ * @property {boolean} isRunning - Whether any model is still generating
+ * @property {Function} run - Starts generation for all given models
+ * @property {Function} stop - Stops generation for a single model
+ * @property {Function} stopAll - Stops generation for all models
+ * @property {Function} clear - Removes all results, stopping the models still generating
+ *
+ * @example
+ * ```tsx
+ * const { results, run, stop } = useModelComparison()
+ * await run(messages, settings, ['gpt-4o', 'claude-3-5-sonnet-20241022'])
+ * ```
+ */
+export function useModelComparison() {
+  const { results, start, runRequest, stop, stopAll, clear } = useParallelChat(
+    getModel,
+    'ModelComparison'
+  )
+
+  /**
+   * Runs the message history against all given models in parallel.
+   * @param {PlaygroundMessage[]} messages - Conversation history
+   * @param {ChatSettings} settings - Generation settings, the model is overridden per column
+   * @param {string[]} models - Models to compare
+   */
+  const run = useCallback(
+    async (
+      messages: PlaygroundMessage[],
+      settings: ChatSettings,
+      models: string[]
+    ) => {
+      logger.info('Starting model comparison', {
+        context: { models, messagesCount: messages.length },
+        module: 'ModelComparison',
+      })
+
+      const startedAt = Date.now()
+      const comparison = start(
+        models.map((model) => ({
+          model,
+          status: 'running',
+          startedAt,
+          message: {
+            id: uuidv4(),
+            role: 'assistant',
+            content: '',
+            timestamp: startedAt,
+            responseFormat: getResponseFormat(settings),
+          },
+        }))
+      )
+
+      await Promise.all(
+        models.map((model) =>
+          runRequest(model, { ...settings, model }, messages, comparison)
+        )
+      )
+    },
+    [start, runRequest]
+  )
+
+  return {
+    results,
+    isRunning: results.some((result) => result.status === 'running'),
+    run,
+    stop,
+    stopAll,
+    clear,
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview React hook for the models of all providers.
+ * Lists the 302.AI gateway models and those of every enabled user-configured provider.
+ */
+
+import { getModels, getProviderModels, ModelInfo } from '@/actions/models'
+import {
+  playgroundProvidersAtom,
+  PlaygroundProvider,
+} from '@/stores/playground'
+import { logger } from '@/utils/logger'
+import { getModelCapabilities } from '@/utils/model-capabilities'
+import { toChatProvider } from '@/utils/providers'
+import { useAtomValue } from 'jotai'
+import { useTranslations } from 'next-intl'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+
+/**
+ * Loads the models of a provider: the listed ones followed by those added by hand.
+ * Models added by hand are kept if listing fails.
+ */
+const loadProviderModels = async (
+  provider: PlaygroundProvider,
+  onError: (error: unknown) => void
+) => {
+  let listed: string[] = []
+  try {
+    listed = await getProviderModels(toChatProvider(provider))
+  } catch (error) {
+    onError(error)
+  }
+
+  return Array.from(new Set([...listed, ...provider.models])).map(
+    (id): ModelInfo => ({
+      id,
+      object: 'model',
+      provider: provider.id,
+      capabilities: getModelCapabilities(id),
+    })
+  )
+}
+
+/**
+ * React hook that provides the models of the gateway and of the enabled providers.
+ * Reloads whenever the providers change.
+ *
+ * @function
+ * @returns {ModelInfo[]} Models of all providers, grouped by provider
+ *
+ * @example
+ * ```tsx
+ * const models = useModels()
+ * const ollamaModels = models.filter((model) => model.provider === ollama.id)
+ * ```
+ */
+export function useModels() {
+  const providers = useAtomValue(playgroundProvidersAtom)
+  const [gatewayModels, setGatewayModels] = useState<ModelInfo[]>([])
+  const [providerModels, setProviderModels] = useState<ModelInfo[]>([])
+  const t = useTranslations('playground')
+
+  useEffect(() => {
+    getModels().then(setGatewayModels).catch(console.error)
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all(
+      providers
+        .filter((provider) => provider.enabled)
+        .map((provider) =>
+          loadProviderModels(provider, (error) => {
+            logger.error('Failed to list provider models', error as Error, {
+              context: { provider: provider.name },
+              module: 'Models',
+            })
+            if (!cancelled) {
+              toast.error(t('providers.listFailed', { name: provider.name }))
+            }
+          })
+        )
+    ).then((lists) => {
+      if (!cancelled) setProviderModels(lists.flat())
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [providers, t])
+
+  return [...gatewayModels, ...providerModels]
+}
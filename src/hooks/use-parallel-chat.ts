@@ -0,0 +1,271 @@
+/**
+ * @fileoverview React hook for running several chat requests side by side.
+ * Streams every answer into its own result with latency and token usage, and
+ * stops single requests or all of them, aborting them on the server. Shared by
+ * model comparisons and parameter sweeps.
+ */
+
+import { chat, ChatSettings, ChatUsage, stopChat } from '@/actions/chat'
+import { PlaygroundMessage } from '@/stores/playground'
+import { getChatErrorKey, getChatErrorMessage } from '@/utils/chat-error'
+import { logger } from '@/utils/logger'
+import { readStreamableValue } from 'ai/rsc'
+import { useLocale, useTranslations } from 'next-intl'
+import { useCallback, useRef, useState } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * Result of one request of a parallel run.
+ *
+ * @interface ParallelChatResult
+ * @property {'pending' | 'running' | 'done' | 'stopped' | 'error'} status - Generation status
+ * @property {PlaygroundMessage} message - Streamed assistant message
+ * @property {ChatUsage} [usage] - Token usage reported when the stream finished
+ * @property {number} [startedAt] - Timestamp when the request was sent
+ * @property {number} [firstTokenAt] - Timestamp of the first text or reasoning delta
+ * @property {number} [finishedAt] - Timestamp when the stream ended
+ * @property {string} [error] - Error message if the generation failed
+ */
+export type ParallelChatResult = {
+  status: 'pending' | 'running' | 'done' | 'stopped' | 'error'
+  message: PlaygroundMessage
+  usage?: ChatUsage
+  startedAt?: number
+  firstTokenAt?: number
+  finishedAt?: number
+  error?: string
+}
+
+/**
+ * Stop flags and request IDs of one run, keyed like its results.
+ * Every run has its own, so a stale stream never updates a newer run.
+ *
+ * @interface ParallelChatRun
+ * @property {Map<string, boolean>} stopFlags - Stop flags, checked while reading each stream
+ * @property {Map<string, string>} requestIds - Request IDs of the running requests
+ */
+export type ParallelChatRun = {
+  stopFlags: Map<string, boolean>
+  requestIds: Map<string, string>
+}
+
+/**
+ * React hook that streams several chat requests into a list of results.
+ *
+ * @function
+ * @template R
+ * @param {Function} getKey - Returns the key of a result
+ * @param {string} module - Logger module name of the caller
+ * @returns {Object} Parallel chat interface
+ * @property {R[]} results - Results of the latest run
+ * @property {Function} start - Replaces the results and starts a new run
+ * @property {Function} runRequest - Streams the answer of a single result
+ * @property {Function} stop - Stops a single result; a pending result is not started
+ * @property {Function} stopAll - Stops all results
+ * @property {Function} clear - Removes all results, stopping the running requests
+ *
+ * @example
+ * ```tsx
+ * const { results, start, runRequest } = useParallelChat(getKey, 'ModelComparison')
+ * const run = start(initialResults)
+ * await runRequest('gpt-4o', { ...settings, model: 'gpt-4o' }, messages, run)
+ * ```
+ */
+export function useParallelChat<R extends ParallelChatResult>(
+  getKey: (result: R) => string,
+  module: string
+) {
+  const [results, setResults] = useState<R[]>([])
+
+  // Stop flags and request IDs of the latest run
+  const runRef = useRef<ParallelChatRun>({
+    stopFlags: new Map(),
+    requestIds: new Map(),
+  })
+  const t = useTranslations('playground')
+  const locale = useLocale()
+
+  /**
+   * Applies a partial update to the result with a key.
+   */
+  const updateResult = useCallback(
+    (key: string, update: (result: R) => Partial<ParallelChatResult>) => {
+      setResults((prev) =>
+        prev.map((result) =>
+          getKey(result) === key ? { ...result, ...update(result) } : result
+        )
+      )
+    },
+    [getKey]
+  )
+
+  /**
+   * Aborts the request of a result on the server.
+   */
+  const abortRequest = useCallback(
+    (key: string, requestId: string) => {
+      stopChat(requestId).catch((error) => {
+        logger.error('Failed to abort request', error as Error, {
+          context: { key },
+          module,
+        })
+      })
+    },
+    [module]
+  )
+
+  /**
+   * Replaces the results and starts a new run.
+   * @param {R[]} initialResults - One result per request, in display order
+   * @returns {ParallelChatRun} Run to pass to `runRequest`
+   */
+  const start = useCallback(
+    (initialResults: R[]) => {
+      const run: ParallelChatRun = {
+        stopFlags: new Map(
+          initialResults.map((result) => [getKey(result), false])
+        ),
+        requestIds: new Map(),
+      }
+      runRef.current = run
+      setResults(initialResults)
+      return run
+    },
+    [getKey]
+  )
+
+  /**
+   * Streams the answer of a single request into its result.
+   * @param {string} key - Key of the result
+   * @param {ChatSettings} settings - Settings of the request
+   * @param {PlaygroundMessage[]} messages - Conversation history
+   * @param {ParallelChatRun} run - Run the request belongs to
+   */
+  const runRequest = useCallback(
+    async (
+      key: string,
+      settings: ChatSettings,
+      messages: PlaygroundMessage[],
+      { stopFlags, requestIds }: ParallelChatRun
+    ) => {
+      if (stopFlags.get(key)) return
+      const requestId = uuidv4()
+      requestIds.set(key, requestId)
+      updateResult(key, () => ({ status: 'running', startedAt: Date.now() }))
+
+      let content = ''
+      let reasoning = ''
+      try {
+        const { output } = await chat({ ...settings, messages, requestId })
+        // Stopped before the server registered the request
+        if (stopFlags.get(key)) {
+          abortRequest(key, requestId)
+          return
+        }
+
+        for await (const delta of readStreamableValue(output)) {
+          // The result was already marked as stopped by `stop`
+          if (stopFlags.get(key)) return
+
+          if (delta?.type === 'text-delta' && delta.textDelta) {
+            content += delta.textDelta
+            const text = content
+            updateResult(key, (result) => ({
+              firstTokenAt: result.firstTokenAt ?? Date.now(),
+              message: { ...result.message, content: text },
+            }))
+          } else if (
+            delta?.type === 'reasoning-delta' &&
+            delta.reasoningDelta
+          ) {
+            reasoning += delta.reasoningDelta
+            const thought = reasoning
+            updateResult(key, (result) => ({
+              firstTokenAt: result.firstTokenAt ?? Date.now(),
+              message: { ...result.message, reasoning: thought },
+            }))
+          } else if (delta?.type === 'tool-call' && delta.toolCall) {
+            const toolCall = delta.toolCall
+            updateResult(key, (result) => ({
+              message: {
+                ...result.message,
+                toolCalls: [...(result.message.toolCalls || []), toolCall],
+              },
+            }))
+          } else if (delta?.type === 'logprobs') {
+            updateResult(key, (result) => ({
+              message: { ...result.message, logprobs: delta.logprobs },
+            }))
+          } else if (delta?.type === 'usage') {
+            updateResult(key, () => ({ usage: delta.usage }))
+          }
+        }
+
+        if (stopFlags.get(key)) return
+        updateResult(key, () => ({ status: 'done', finishedAt: Date.now() }))
+      } catch (error: unknown) {
+        logger.error('Error in parallel request', error as Error, {
+          context: { key, model: settings.model },
+          module,
+        })
+        updateResult(key, () => ({
+          status: 'error',
+          finishedAt: Date.now(),
+          error:
+            getChatErrorMessage(error, locale) || t(getChatErrorKey(error)),
+        }))
+      } finally {
+        requestIds.delete(key)
+      }
+    },
+    [updateResult, abortRequest, module, locale, t]
+  )
+
+  /**
+   * Stops a single result; a pending result is not started.
+   * @param {string} key - Key of the result to stop
+   */
+  const stop = useCallback(
+    (key: string) => {
+      logger.info('Stopping request', { context: { key }, module })
+      const { stopFlags, requestIds } = runRef.current
+      stopFlags.set(key, true)
+      const requestId = requestIds.get(key)
+      if (requestId) abortRequest(key, requestId)
+      updateResult(key, (result) =>
+        result.status === 'running' || result.status === 'pending'
+          ? { status: 'stopped', finishedAt: Date.now() }
+          : {}
+      )
+    },
+    [updateResult, abortRequest, module]
+  )
+
+  /**
+   * Stops all results.
+   */
+  const stopAll = useCallback(() => {
+    runRef.current.stopFlags.forEach((stopped, key) => {
+      if (!stopped) stop(key)
+    })
+  }, [stop])
+
+  /**
+   * Removes all results, stopping the running requests.
+   */
+  const clear = useCallback(() => {
+    const { stopFlags, requestIds } = runRef.current
+    stopFlags.forEach((_, key) => stopFlags.set(key, true))
+    requestIds.forEach((requestId, key) => abortRequest(key, requestId))
+    setResults([])
+  }, [abortRequest])
+
+  return {
+    results,
+    start,
+    runRequest,
+    stop,
+    stopAll,
+    clear,
+  }
+}
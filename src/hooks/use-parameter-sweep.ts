@@ -0,0 +1,149 @@
+/**
+ * @fileoverview React hook for parameter sweeps.
+ * Runs the same message history once per combination of setting values and
+ * tracks a streamed answer, latency and token usage per cell.
+ */
+
+import { ChatSettings } from '@/actions/chat'
+import { PlaygroundMessage } from '@/stores/playground'
+import { getResponseFormat } from '@/utils/json-schema'
+import { logger } from '@/utils/logger'
+import {
+  getSweepCells,
+  SWEEP_CONCURRENCY,
+  SweepCell,
+  SweepConfig,
+} from '@/utils/sweep'
+import { useCallback, useState } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { ParallelChatResult, useParallelChat } from './use-parallel-chat'
+
+/**
+ * Result of one cell of a sweep.
+ *
+ * @interface SweepResult
+ * @property {SweepCell} cell - Combination of settings of the cell
+ * @property {'pending' | 'running' | 'done' | 'stopped' | 'error'} status - Generation status
+ * @property {PlaygroundMessage} message - Streamed assistant message
+ * @property {ChatUsage} [usage] - Token usage reported when the stream finished
+ * @property {number} [startedAt] - Timestamp when the request was sent
+ * @property {number} [firstTokenAt] - Timestamp of the first delta
+ * @property {number} [finishedAt] - Timestamp when the stream ended
+ * @property {string} [error] - Error message if the generation failed
+ */
+export type SweepResult = ParallelChatResult & {
+  cell: SweepCell
+}
+
+/**
+ * Key of a sweep result: the key of its cell.
+ */
+const getCellKey = (result: SweepResult) => result.cell.key
+
+/**
+ * React hook that runs a conversation over a grid of setting values.
+ *
+ * @function
+ * @returns {Object} Sweep interface
+ * @property {SweepResult[]} results - One result per cell, row by row
+ * @property {SweepConfig | null} runConfig - Axes of the latest sweep, null before the first
+ * @property {boolean} isRunning - Whether any cell is pending or generating
+ * @property {Function} run - Starts a sweep
+ * @property {Function} stop - Stops a single cell
+ * @property {Function} stopAll - Stops all cells
+ * @property {Function} clear - Removes all results
+ *
+ * @example
+ * ```tsx
+ * const { results, run } = useParameterSweep()
+ * await run(messages, settings, config)
+ * ```
+ */
+export function useParameterSweep() {
+  const [runConfig, setRunConfig] = useState<SweepConfig | null>(null)
+  const {
+    results,
+    start,
+    runRequest,
+    stop,
+    stopAll,
+    clear: clearResults,
+  } = useParallelChat(getCellKey, 'ParameterSweep')
+
+  /**
+   * Runs the message history once per cell, a few cells at a time.
+   * @param {PlaygroundMessage[]} messages - Conversation history
+   * @param {ChatSettings} settings - Generation settings, overridden by each cell
+   * @param {SweepConfig} config - Axes of the sweep
+   */
+  const run = useCallback(
+    async (
+      messages: PlaygroundMessage[],
+      settings: ChatSettings,
+      config: SweepConfig
+    ) => {
+      const cells = getSweepCells(config)
+      logger.info('Starting parameter sweep', {
+        context: { cells: cells.length, messagesCount: messages.length },
+        module: 'ParameterSweep',
+      })
+
+      setRunConfig(config)
+      const sweep = start(
+        cells.map((cell) => ({
+          cell,
+          status: 'pending',
+          message: {
+            id: uuidv4(),
+            role: 'assistant',
+            content: '',
+            timestamp: Date.now(),
+            responseFormat: getResponseFormat(settings),
+            model: settings.model,
+          },
+        }))
+      )
+
+      // Each worker takes the next pending cell until none are left
+      let next = 0
+      const worker = async () => {
+        while (next < cells.length) {
+          const cell = cells[next++]
+          await runRequest(
+            cell.key,
+            { ...settings, ...cell.settings },
+            messages,
+            sweep
+          )
+        }
+      }
+      await Promise.all(
+        Array.from(
+          { length: Math.min(SWEEP_CONCURRENCY, cells.length) },
+          worker
+        )
+      )
+    },
+    [start, runRequest]
+  )
+
+  /**
+   * Removes all results, stopping the cells still generating.
+   */
+  const clear = useCallback(() => {
+    clearResults()
+    setRunConfig(null)
+  }, [clearResults])
+
+  return {
+    results,
+    runConfig,
+    isRunning: results.some(
+      (result) => result.status === 'running' || result.status === 'pending'
+    ),
+    run,
+    stop,
+    stopAll,
+    clear,
+  }
+}
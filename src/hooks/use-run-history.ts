@@ -0,0 +1,102 @@
+/**
+ * @fileoverview React hook for the run history.
+ * Provides the recorded generation requests and replays them into the active
+ * conversation.
+ */
+
+import { messageStore } from '@/db/message-store'
+import { runStore } from '@/db/run-store'
+import { PlaygroundMessage, PlaygroundRunRecord } from '@/stores/playground'
+import { getResponseFormat } from '@/utils/json-schema'
+import { calculateMetrics } from '@/utils/metrics'
+import { useCallback, useEffect, useState } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * React hook that provides the run history.
+ *
+ * @function
+ * @returns {Object} Run history interface
+ * @property {PlaygroundRunRecord[]} runs - Recorded requests, most recent first
+ * @property {Function} handleDelete - Deletes a record
+ * @property {Function} handleClear - Deletes all records
+ * @property {Function} handleReplay - Adds the messages and answer of a record to the conversation
+ *
+ * @example
+ * ```tsx
+ * const { runs, handleReplay } = useRunHistory()
+ * await handleReplay(runs[0])
+ * ```
+ */
+export function useRunHistory() {
+  const [runs, setRuns] = useState<PlaygroundRunRecord[]>([])
+
+  // Load records and subscribe to store updates
+  useEffect(() => {
+    runStore.init()
+    return runStore.subscribe(setRuns)
+  }, [])
+
+  /**
+   * Deletes a record.
+   * @param {string} id - ID of the record to delete
+   */
+  const handleDelete = useCallback((id: string) => {
+    runStore.delete(id)
+  }, [])
+
+  /**
+   * Deletes all records.
+   */
+  const handleClear = useCallback(() => {
+    runStore.clear()
+  }, [])
+
+  /**
+   * Adds the messages sent in a request, followed by its answer, to the active
+   * conversation as a new branch from its start. The current messages stay
+   * available as the other branch.
+   * @param {PlaygroundRunRecord} run - Record to replay
+   */
+  const handleReplay = useCallback(async (run: PlaygroundRunRecord) => {
+    const answer: PlaygroundMessage[] =
+      run.output || run.toolCalls?.length
+        ? [
+            {
+              id: uuidv4(),
+              role: 'assistant',
+              content: run.output,
+              reasoning: run.reasoning,
+              logprobs: run.logprobs,
+              toolCalls: run.toolCalls,
+              responseFormat: getResponseFormat(
+                run.settings as Parameters<typeof getResponseFormat>[0]
+              ),
+              usage: run.usage,
+              model: run.model,
+              metrics: calculateMetrics(run, run.usage?.completionTokens),
+              truncated: run.status === 'stopped' || undefined,
+            },
+          ]
+        : []
+
+    let parentId: string | null = null
+    for (const message of [...run.messages, ...answer]) {
+      // Copied without the fields `addMessage` sets for the new conversation
+      const copy = { ...message }
+      delete copy.timestamp
+      delete copy.conversationId
+      delete copy.activeAt
+      const id = uuidv4()
+      await messageStore.addMessage({ ...copy, id, parentId }, parentId)
+      parentId = id
+    }
+  }, [])
+
+  return {
+    runs,
+    handleDelete,
+    handleClear,
+    handleReplay,
+  }
+}
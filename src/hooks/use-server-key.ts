@@ -0,0 +1,42 @@
+/**
+ * @fileoverview React hook for the server API key status.
+ * Tells whether chat works without an own API key and how much quota is left.
+ */
+
+import { getServerKeyStatus, ServerKeyStatus } from '@/actions/quota'
+import { logger } from '@/utils/logger'
+import { useCallback, useEffect, useState } from 'react'
+
+/**
+ * React hook that loads the server key status of the current client.
+ *
+ * @function
+ * @returns {Object} Server key interface
+ * @property {ServerKeyStatus} status - Whether the server key is enabled, and today's usage
+ * @property {Function} refresh - Reloads the status, e.g. after a generation
+ *
+ * @example
+ * ```tsx
+ * const { status } = useServerKey()
+ * const canRun = !!settings.apiKey || status.enabled
+ * ```
+ */
+export function useServerKey() {
+  const [status, setStatus] = useState<ServerKeyStatus>({ enabled: false })
+
+  const refresh = useCallback(() => {
+    getServerKeyStatus()
+      .then(setStatus)
+      .catch((error) =>
+        logger.error('Failed to load server key status', error, {
+          module: 'ServerKey',
+        })
+      )
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { status, refresh }
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview React hook for the prompt library.
+ * Provides the saved templates and handlers to save, delete and apply them.
+ */
+
+import { messageStore } from '@/db/message-store'
+import { templateStore } from '@/db/template-store'
+import { PlaygroundTemplate } from '@/stores/playground'
+import { fillTemplate } from '@/utils/template'
+import { useCallback, useEffect, useState } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * React hook that provides prompt template management functionality.
+ *
+ * @function
+ * @returns {Object} Template management interface
+ * @property {PlaygroundTemplate[]} templates - Saved templates, most recently updated first
+ * @property {Function} handleSave - Creates or updates a template
+ * @property {Function} handleDelete - Deletes a template
+ * @property {Function} handleApply - Fills a template and adds its messages to the conversation
+ *
+ * @example
+ * ```tsx
+ * function TemplateList() {
+ *   const { templates, handleApply } = useTemplates()
+ *
+ *   return templates.map((template) => (
+ *     <button key={template.id} onClick={() => handleApply(template, {}, false)}>
+ *       {template.name}
+ *     </button>
+ *   ))
+ * }
+ * ```
+ */
+export function useTemplates() {
+  const [templates, setTemplates] = useState<PlaygroundTemplate[]>([])
+
+  // Load templates and subscribe to store updates
+  useEffect(() => {
+    templateStore.init()
+    return templateStore.subscribe(setTemplates)
+  }, [])
+
+  /**
+   * Creates or updates a template.
+   * @param {Object} template - Template to save, without an id for new templates
+   */
+  const handleSave = useCallback(
+    (template: Parameters<typeof templateStore.save>[0]) =>
+      templateStore.save(template),
+    []
+  )
+
+  /**
+   * Deletes a template.
+   * @param {string} id - ID of the template to delete
+   */
+  const handleDelete = useCallback((id: string) => {
+    templateStore.delete(id)
+  }, [])
+
+  /**
+   * Fills the template variables and adds the resulting messages to the
+   * active conversation.
+   * @param {PlaygroundTemplate} template - Template to apply
+   * @param {Record<string, string>} values - Values by variable name
+   * @param {boolean} replace - Whether to clear the conversation first
+   */
+  const handleApply = useCallback(
+    async (
+      template: PlaygroundTemplate,
+      values: Record<string, string>,
+      replace: boolean
+    ) => {
+      if (replace) {
+        await messageStore.clear()
+      }
+
+      const systemMessage = fillTemplate(template.systemMessage, values)
+      if (systemMessage.trim()) {
+        await messageStore.addMessage({
+          id: uuidv4(),
+          role: 'system',
+          content: systemMessage,
+        })
+      }
+      for (const message of template.messages) {
+        await messageStore.addMessage({
+          id: uuidv4(),
+          role: message.role,
+          content: fillTemplate(message.content, values),
+        })
+      }
+    },
+    []
+  )
+
+  return {
+    templates,
+    handleSave,
+    handleDelete,
+    handleApply,
+  }
+}
@@ -5,7 +5,14 @@
  * @created 2024-11-20
  */
 
+import type { ChatUsage } from '@/actions/chat';
+import type { EvalAssertion, EvalAssertionResult } from '@/utils/eval';
 import { LanguageModelV1LogProbs } from '@ai-sdk/provider';
+import type { ProviderType } from '@/utils/providers';
+import type { ReasoningEffort } from '@/utils/reasoning';
+import type { SweepConfig } from '@/utils/sweep';
+import { toChatTools } from '@/utils/tools';
+import { atom } from 'jotai';
 import { atomWithStorage } from 'jotai/utils';
 
 /**
@@ -14,6 +21,7 @@ import { atomWithStorage } from 'jotai/utils';
  * 
  * @constant
  * @type {Atom<PlaygroundSettings>}
+ * @property {string} providerId - Provider of the selected model, see `playgroundProvidersAtom`
  * @property {string} model - Selected AI model identifier
  * @property {number} temperature - Model temperature setting (0-1)
  * @property {number} topP - Top-p sampling parameter (0-1)
@@ -21,6 +29,14 @@ import { atomWithStorage } from 'jotai/utils';
  * @property {number} presencePenalty - Penalty for token presence (0-2)
  * @property {string} apiKey - API key for model access
  * @property {number} maxTokens - Maximum number of tokens for the model
+ * @property {ResponseFormatType} responseFormat - Requested format of the answer
+ * @property {string} responseSchema - JSON Schema of the answer when using 'json_schema'
+ * @property {string[]} stopSequences - Sequences that end the generation
+ * @property {number} [seed] - Seed for reproducible sampling
+ * @property {number} [topK] - Only sample from the K most likely tokens
+ * @property {PlaygroundLogitBias[]} logitBias - Biases of individual tokens
+ * @property {number} topLogprobs - Number of alternatives returned per token, 0 disables logprobs
+ * @property {ReasoningEffort} [reasoningEffort] - Reasoning effort of models that accept one, the model's default if not set
  * 
  * @example
  * ```typescript
@@ -30,6 +46,7 @@ import { atomWithStorage } from 'jotai/utils';
  * ```
  */
 export const playgroundSettiongsAtom = atomWithStorage('playground-settings', {
+  providerId: '302ai',
   model: 'gpt-4o',
   temperature: 0.7,
   topP: 0.7,
@@ -37,8 +54,46 @@ export const playgroundSettiongsAtom = atomWithStorage('playground-settings', {
   presencePenalty: 0.5,
   apiKey: '',
   maxTokens: 8192,
+  responseFormat: 'text' as ResponseFormatType,
+  responseSchema: '',
+  stopSequences: [] as string[],
+  seed: undefined as number | undefined,
+  topK: undefined as number | undefined,
+  logitBias: [] as PlaygroundLogitBias[],
+  topLogprobs: 5,
+  reasoningEffort: undefined as ReasoningEffort | undefined,
 })
 
+/**
+ * Bias added to the likelihood of a token.
+ *
+ * @interface PlaygroundLogitBias
+ * @property {string} token - Token ID in the tokenizer of the model
+ * @property {number} bias - Bias from -100, which bans the token, to 100, which forces it
+ */
+export type PlaygroundLogitBias = {
+  token: string
+  bias: number
+}
+
+/**
+ * Supported response formats.
+ * 'json_object' asks for any JSON object, 'json_schema' for JSON matching a schema.
+ */
+export type ResponseFormatType = 'text' | 'json_object' | 'json_schema'
+
+/**
+ * Type definition for the structured output requested for a message.
+ *
+ * @interface PlaygroundResponseFormat
+ * @property {'json_object' | 'json_schema'} type - Requested format
+ * @property {string} [schema] - JSON Schema as text, for 'json_schema'
+ */
+export type PlaygroundResponseFormat = {
+  type: Exclude<ResponseFormatType, 'text'>
+  schema?: string
+}
+
 /**
  * Type definition for chat messages in the playground.
  * Represents both user inputs and AI responses.
@@ -53,22 +108,395 @@ export const playgroundSettiongsAtom = atomWithStorage('playground-settings', {
  * @property {'image' | 'file'} files[].type - File or image type
  * @property {string} files[].name - File or image name
  * @property {number} files[].size - File or image size
+ * @property {string} [files[].mimeType] - MIME type of the file
+ * @property {string} [files[].text] - Text extracted from a document, sent in place of the file
+ * @property {number} [files[].pages] - Page count of a PDF
  * @property {LanguageModelV1LogProbs} [logprobs] - Optional logprobs
+ * @property {string} [conversationId] - ID of the conversation the message belongs to
+ * @property {PlaygroundToolCall[]} [toolCalls] - Tool calls requested by an assistant message
+ * @property {string} [toolCallId] - ID of the tool call a tool message answers
+ * @property {string} [toolName] - Name of the tool a tool message answers
+ * @property {PlaygroundResponseFormat} [responseFormat] - Structured output requested for an assistant message
+ * @property {string} [reasoning] - Reasoning the model output before its answer
+ * @property {ChatUsage} [usage] - Token usage of the request that generated an assistant message
+ * @property {string} [model] - Model that generated an assistant message
+ * @property {PlaygroundMessageMetrics} [metrics] - Latency of the request that generated an assistant message
+ * @property {boolean} [truncated] - Whether the user stopped the generation of an assistant message before it finished
+ * @property {string | null} [parentId] - ID of the previous message in the conversation tree, null for a first message
+ * @property {number} [activeAt] - When the message was last selected among its siblings, the latest one is shown
  */
 export type PlaygroundMessage = {
   id: string
-  role: 'system' | 'user' | 'assistant'
+  role: 'system' | 'user' | 'assistant' | 'tool'
   content: string
   timestamp?: number
+  conversationId?: string
   files?: {
     url: string
     type: 'image' | 'file'
     name: string
     size: number
+    mimeType?: string
+    text?: string
+    pages?: number
   }[]
   logprobs?: LanguageModelV1LogProbs
+  toolCalls?: PlaygroundToolCall[]
+  toolCallId?: string
+  toolName?: string
+  responseFormat?: PlaygroundResponseFormat
+  reasoning?: string
+  usage?: ChatUsage
+  model?: string
+  metrics?: PlaygroundMessageMetrics
+  truncated?: boolean
+  parentId?: string | null
+  activeAt?: number
+}
+
+/**
+ * Type definition for the latency of a generated message.
+ *
+ * @interface PlaygroundMessageMetrics
+ * @property {number} [firstTokenTime] - Time to the first text token in milliseconds
+ * @property {number} duration - Total duration of the request in milliseconds
+ * @property {number} [tokensPerSecond] - Completion tokens per second after the first token
+ */
+export type PlaygroundMessageMetrics = {
+  firstTokenTime?: number
+  duration: number
+  tokensPerSecond?: number
+}
+
+/**
+ * Type definition for an earlier version of the content of a message.
+ *
+ * @interface PlaygroundMessageRevision
+ * @property {string} id - Unique revision identifier
+ * @property {string} messageId - Message the content belonged to
+ * @property {string} conversationId - Conversation of the message
+ * @property {string} content - Content before it was replaced
+ * @property {number} createdAt - Timestamp when the content was replaced
+ */
+export type PlaygroundMessageRevision = {
+  id: string
+  messageId: string
+  conversationId: string
+  content: string
+  createdAt: number
+}
+
+/**
+ * Type definition for the record of a single generation request.
+ *
+ * @interface PlaygroundRunRecord
+ * @property {string} id - Unique record identifier
+ * @property {string} conversationId - Conversation the request was sent from
+ * @property {string} model - Requested model
+ * @property {string} providerId - Provider of the model
+ * @property {Record<string, unknown>} settings - Generation settings of the request, without API keys
+ * @property {PlaygroundMessage[]} messages - Messages sent, exactly as in the request
+ * @property {'done' | 'stopped' | 'error'} status - How the request ended
+ * @property {string} output - Raw text of the answer
+ * @property {string} [reasoning] - Reasoning the model output before its answer
+ * @property {PlaygroundToolCall[]} [toolCalls] - Tool calls requested by the answer
+ * @property {LanguageModelV1LogProbs} [logprobs] - Token probabilities of the answer
+ * @property {ChatUsage} [usage] - Token usage of the request
+ * @property {string} [error] - Error message if the request failed
+ * @property {number} startedAt - Timestamp when the request was sent
+ * @property {number} [firstTokenAt] - Timestamp of the first delta
+ * @property {number} finishedAt - Timestamp when the request ended
+ */
+export type PlaygroundRunRecord = {
+  id: string
+  conversationId: string
+  model: string
+  providerId: string
+  settings: Record<string, unknown>
+  messages: PlaygroundMessage[]
+  status: 'done' | 'stopped' | 'error'
+  output: string
+  reasoning?: string
+  toolCalls?: PlaygroundToolCall[]
+  logprobs?: LanguageModelV1LogProbs
+  usage?: ChatUsage
+  error?: string
+  startedAt: number
+  firstTokenAt?: number
+  finishedAt: number
+}
+
+/**
+ * Type definition for a saved prompt template.
+ * Message contents may contain `{{variable}}` placeholders that are
+ * filled in when the template is applied.
+ *
+ * @interface PlaygroundTemplate
+ * @property {string} id - Unique template identifier
+ * @property {string} name - Template name shown in the prompt library
+ * @property {string} systemMessage - System message, empty for none
+ * @property {Object[]} messages - Seed messages added after the system message
+ * @property {'user' | 'assistant'} messages[].role - Seed message role
+ * @property {string} messages[].content - Seed message content
+ * @property {number} createdAt - Creation timestamp
+ * @property {number} updatedAt - Last update timestamp
+ */
+export type PlaygroundTemplate = {
+  id: string
+  name: string
+  systemMessage: string
+  messages: {
+    role: 'user' | 'assistant'
+    content: string
+  }[]
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * Type definition for a test case of an evaluation suite.
+ *
+ * @interface PlaygroundEvalCase
+ * @property {string} id - Unique case identifier
+ * @property {string} name - Case name shown in the results
+ * @property {string} model - Model that answers the case
+ * @property {string} providerId - Provider of the model
+ * @property {PlaygroundMessage[]} messages - Conversation sent to the model
+ * @property {EvalAssertion[]} assertions - Expectations on the answer
+ */
+export type PlaygroundEvalCase = {
+  id: string
+  name: string
+  model: string
+  providerId: string
+  messages: PlaygroundMessage[]
+  assertions: EvalAssertion[]
+}
+
+/**
+ * Type definition for a saved evaluation suite.
+ *
+ * @interface PlaygroundEvalSuite
+ * @property {string} id - Unique suite identifier
+ * @property {string} name - Suite name
+ * @property {string} judgeModel - Model grading the judge assertions, empty for the model of each case
+ * @property {string} judgeProviderId - Provider of the judge model
+ * @property {PlaygroundEvalCase[]} cases - Test cases, in run order
+ * @property {number} createdAt - Creation timestamp
+ * @property {number} updatedAt - Last update timestamp
+ */
+export type PlaygroundEvalSuite = {
+  id: string
+  name: string
+  judgeModel: string
+  judgeProviderId: string
+  cases: PlaygroundEvalCase[]
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * Type definition for the result of one test case in a suite run.
+ *
+ * @interface PlaygroundEvalCaseResult
+ * @property {string} caseId - ID of the test case
+ * @property {string} caseName - Name of the case at the time of the run
+ * @property {string} model - Model that answered
+ * @property {string} output - Answer of the model
+ * @property {boolean} passed - Whether every assertion passed
+ * @property {EvalAssertionResult[]} assertions - Outcome of every assertion
+ * @property {ChatUsage} [usage] - Token usage of the answer
+ * @property {number} [duration] - Duration of the answer in milliseconds
+ * @property {string} [error] - Error message if the answer failed
+ */
+export type PlaygroundEvalCaseResult = {
+  caseId: string
+  caseName: string
+  model: string
+  output: string
+  passed: boolean
+  assertions: EvalAssertionResult[]
+  usage?: ChatUsage
+  duration?: number
+  error?: string
+}
+
+/**
+ * Type definition for a run of an evaluation suite.
+ *
+ * @interface PlaygroundEvalRun
+ * @property {string} id - Unique run identifier
+ * @property {string} suiteId - ID of the suite that ran
+ * @property {number} startedAt - Start timestamp
+ * @property {number} finishedAt - End timestamp
+ * @property {boolean} stopped - Whether the run was stopped before every case ran
+ * @property {PlaygroundEvalCaseResult[]} results - Results of the cases that ran
+ */
+export type PlaygroundEvalRun = {
+  id: string
+  suiteId: string
+  startedAt: number
+  finishedAt: number
+  stopped: boolean
+  results: PlaygroundEvalCaseResult[]
+}
+
+/**
+ * Type definition for a tool call requested by the model.
+ *
+ * @interface PlaygroundToolCall
+ * @property {string} toolCallId - ID used to match the call with its result
+ * @property {string} toolName - Name of the called tool
+ * @property {unknown} args - Arguments generated by the model
+ */
+export type PlaygroundToolCall = {
+  toolCallId: string
+  toolName: string
+  args: unknown
 }
 
+/**
+ * Type definition for a tool the model may call.
+ * Tools have no implementation; results are entered by the user or mocked.
+ *
+ * @interface PlaygroundTool
+ * @property {string} id - Unique tool identifier
+ * @property {string} name - Function name exposed to the model
+ * @property {string} description - Description exposed to the model
+ * @property {string} parameters - JSON Schema of the arguments, as JSON text
+ * @property {string} mockResult - Result returned when the user picks the mock
+ * @property {boolean} enabled - Whether the tool is sent with requests
+ */
+export type PlaygroundTool = {
+  id: string
+  name: string
+  description: string
+  parameters: string
+  mockResult: string
+  enabled: boolean
+}
+
+/**
+ * A provider backend configured by the user, next to the built-in 302.AI gateway.
+ *
+ * @interface PlaygroundProvider
+ * @property {string} id - Unique provider identifier
+ * @property {string} name - Display name, used as group heading in the model picker
+ * @property {ProviderType} type - Kind of backend
+ * @property {string} baseUrl - Base URL of the API, empty for the type's default
+ * @property {string} apiKey - API key of the provider
+ * @property {string} [apiVersion] - API version, used by Azure
+ * @property {string[]} models - Model IDs added by hand, e.g. Azure deployments
+ * @property {boolean} enabled - Whether its models are listed
+ */
+export type PlaygroundProvider = {
+  id: string
+  name: string
+  type: ProviderType
+  baseUrl: string
+  apiKey: string
+  apiVersion?: string
+  models: string[]
+  enabled: boolean
+}
+
+/**
+ * ID of the conversation that messages stored before conversations existed
+ * are migrated into. Also used for the first conversation of a fresh database.
+ *
+ * @constant
+ * @type {string}
+ */
+export const DEFAULT_CONVERSATION_ID = 'default'
+
+/**
+ * Type definition for a saved conversation.
+ * Messages reference their conversation through `conversationId`.
+ *
+ * @interface PlaygroundConversation
+ * @property {string} id - Unique conversation identifier
+ * @property {string} title - Conversation title, empty until the user renames it
+ * @property {number} createdAt - Creation timestamp
+ * @property {number} updatedAt - Timestamp of the last change, used for sorting
+ */
+export type PlaygroundConversation = {
+  id: string
+  title: string
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * Atom holding the ID of the conversation shown in the playground.
+ * Persisted so the last opened conversation is restored on reload.
+ *
+ * @constant
+ * @type {import('jotai').Atom<string>}
+ */
+export const activeConversationIdAtom = atomWithStorage<string>(
+  'active-conversation',
+  DEFAULT_CONVERSATION_ID
+)
+
+/**
+ * Atom controlling the visibility of the conversation sidebar.
+ *
+ * @constant
+ * @type {import('jotai').Atom<boolean>}
+ */
+export const conversationSidebarOpenAtom = atomWithStorage<boolean>(
+  'conversation-sidebar-open',
+  true
+)
+
+/**
+ * Atom toggling the side-by-side model comparison mode.
+ *
+ * @constant
+ * @type {import('jotai').Atom<boolean>}
+ */
+export const comparisonModeAtom = atomWithStorage<boolean>(
+  'comparison-mode',
+  false
+)
+
+/**
+ * Minimum and maximum number of models that can be compared at once.
+ * @constant
+ */
+export const COMPARISON_MODEL_LIMITS = { min: 2, max: 4 }
+
+/**
+ * Atom holding the models selected for comparison, in column order.
+ *
+ * @constant
+ * @type {import('jotai').Atom<string[]>}
+ */
+export const comparisonModelsAtom = atomWithStorage<string[]>(
+  'comparison-models',
+  []
+)
+
+/**
+ * Atom toggling the parameter sweep mode.
+ *
+ * @constant
+ * @type {import('jotai').Atom<boolean>}
+ */
+export const sweepModeAtom = atomWithStorage<boolean>('sweep-mode', false)
+
+/**
+ * Atom for the axes of the parameter sweep with persistent storage.
+ * Defaults to temperature by top-p.
+ *
+ * @constant
+ * @type {import('jotai').Atom<SweepConfig>}
+ */
+export const sweepConfigAtom = atomWithStorage<SweepConfig>('sweep-config', {
+  rows: { parameter: 'temperature', values: [0, 0.7, 1.4] },
+  columns: { parameter: 'topP', values: [0.5, 1] },
+})
+
 /**
  * Type definition for UI mode settings.
  * Controls the complexity level of the interface.
@@ -108,4 +536,84 @@ export const validateMessage = (content: string) => {
  */
 export const getSettingsSync = () => {
   return JSON.parse(localStorage.getItem('playground-settings') || '{}')
-}
\ No newline at end of file
+}
+
+/**
+ * Atom holding the tool definitions edited in expert mode.
+ *
+ * @constant
+ * @type {import('jotai').Atom<PlaygroundTool[]>}
+ */
+export const playgroundToolsAtom = atomWithStorage<PlaygroundTool[]>(
+  'playground-tools',
+  []
+)
+
+/**
+ * Atom holding the user-configured providers with persistent storage.
+ * API keys stay in the browser like the 302.AI key.
+ *
+ * @constant
+ * @type {import('jotai').Atom<PlaygroundProvider[]>}
+ */
+export const playgroundProvidersAtom = atomWithStorage<PlaygroundProvider[]>(
+  'playground-providers',
+  []
+)
+
+/**
+ * Read-only atom with the tools to send with chat requests.
+ * Only enabled tools with a valid schema are sent, and only in expert mode.
+ *
+ * @constant
+ * @type {import('jotai').Atom<ChatTool[]>}
+ */
+export const chatToolsAtom = atom((get) =>
+  get(uiModeAtom) === 'expert' ? toChatTools(get(playgroundToolsAtom)) : []
+)
+
+/**
+ * Bounds of the batch run options.
+ * @constant
+ */
+export const BATCH_RUN_LIMITS = {
+  concurrency: { min: 1, max: 10 },
+  retries: { min: 0, max: 5 },
+}
+
+/**
+ * Atom for the batch run options with persistent storage.
+ *
+ * @constant
+ * @type {Atom<{ concurrency: number, retries: number }>}
+ * @property {number} concurrency - Number of rows requested at the same time
+ * @property {number} retries - Number of retries for a failed row
+ */
+export const batchRunOptionsAtom = atomWithStorage('batch-run-options', {
+  concurrency: 3,
+  retries: 2,
+})
+
+/**
+ * Type definition for the price of a model.
+ *
+ * @interface ModelPrice
+ * @property {number} input - Price per million prompt tokens, in USD
+ * @property {number} output - Price per million completion tokens, in USD
+ */
+export type ModelPrice = {
+  input: number
+  output: number
+}
+
+/**
+ * Atom for the editable per-model price table with persistent storage.
+ * Keyed by model identifier.
+ *
+ * @constant
+ * @type {Atom<Record<string, ModelPrice>>}
+ */
+export const modelPricesAtom = atomWithStorage<Record<string, ModelPrice>>(
+  'model-prices',
+  {}
+)
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Helpers for turning chat generation errors into user-facing messages.
+ */
+
+/**
+ * Maps interface locales to the suffix of localized error messages returned by the API.
+ * @const
+ */
+const ERROR_MESSAGE_LOCALE_KEYS: Record<string, string> = {
+  zh: 'cn',
+  en: 'en',
+  ja: 'jp',
+}
+
+/**
+ * Extracts a localized error message from a chat generation error.
+ * The API reports errors as a JSON string with `message_cn`, `message_en`
+ * and `message_jp` fields next to the plain `message`.
+ *
+ * @function
+ * @param {unknown} error - Error thrown while reading the chat stream
+ * @param {string} locale - Current interface locale
+ * @returns {string | null} Localized message, or null if the error cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * const message = getChatErrorMessage(error, 'en') || t('error.chatFailed')
+ * toast.error(message)
+ * ```
+ */
+export const getChatErrorMessage = (error: unknown, locale: string) => {
+  if (typeof error !== 'string') return null
+
+  try {
+    const parsedError = JSON.parse(error)
+    const key = ERROR_MESSAGE_LOCALE_KEYS[locale]
+    return (
+      (parsedError.error[`message_${key}`] as string) ||
+      (parsedError.error.message as string) ||
+      null
+    )
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Translation keys of errors reported by the chat action itself.
+ * @const
+ */
+const CHAT_ERROR_KEYS: Record<string, string> = {
+  rateLimited: 'error.rateLimited',
+  quotaExceeded: 'error.quotaExceeded',
+}
+
+/**
+ * Returns the translation key describing a chat generation error,
+ * the generic failure message unless the chat action reported a known code.
+ *
+ * @function
+ * @param {unknown} error - Error thrown while reading the chat stream
+ * @returns {string} Translation key in the `playground` namespace
+ *
+ * @example
+ * ```typescript
+ * toast.error(getChatErrorMessage(error, locale) || t(getChatErrorKey(error)))
+ * ```
+ */
+export const getChatErrorKey = (error: unknown) => {
+  const code = (error as { code?: unknown } | null)?.code
+  return (
+    (typeof code === 'string' && CHAT_ERROR_KEYS[code]) || 'error.chatFailed'
+  )
+}
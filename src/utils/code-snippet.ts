@@ -0,0 +1,323 @@
+/**
+ * @fileoverview Generation of ready-to-run API calls from the playground state.
+ * Messages are formatted the same way `chat()` sends them.
+ */
+
+import type {
+  PlaygroundLogitBias,
+  PlaygroundMessage,
+  ResponseFormatType,
+} from '@/stores/playground'
+import {
+  getResponseFormat,
+  parseJsonSchema,
+  toResponseFormatParam,
+} from './json-schema'
+import { toLogitBiasParam } from './logit-bias'
+import { toCoreMessages, toOpenAIMessages } from './message-format'
+import { getModelCapabilities } from './model-capabilities'
+import type { ReasoningEffort } from './reasoning'
+import type { ChatTool } from './tools'
+
+/**
+ * Languages a request can be generated in.
+ */
+export type CodeLanguage = 'curl' | 'python' | 'typescript' | 'fetch'
+
+/**
+ * Supported languages, in display order.
+ * @const
+ */
+export const CODE_LANGUAGES: CodeLanguage[] = [
+  'curl',
+  'python',
+  'typescript',
+  'fetch',
+]
+
+/**
+ * Markdown code fence language of each snippet language.
+ * @const
+ */
+export const CODE_FENCE_LANGUAGES: Record<CodeLanguage, string> = {
+  curl: 'bash',
+  python: 'python',
+  typescript: 'typescript',
+  fetch: 'javascript',
+}
+
+/**
+ * Name of the environment variable holding the API key in the snippets.
+ * The key itself is never written into the code.
+ * @const
+ */
+const API_KEY_ENV = 'AI_302_API_KEY'
+
+/**
+ * Input of the snippet generators.
+ *
+ * @interface CodeSnippetOptions
+ * @property {string} baseUrl - Base URL of the OpenAI-compatible API
+ * @property {PlaygroundMessage[]} messages - Conversation to send
+ * @property {Object} settings - Generation settings of the playground
+ * @property {ChatTool[]} tools - Tools the model may call
+ */
+export type CodeSnippetOptions = {
+  baseUrl: string
+  messages: PlaygroundMessage[]
+  settings: {
+    model: string
+    temperature?: number
+    topP?: number
+    maxTokens?: number
+    frequencyPenalty?: number
+    presencePenalty?: number
+    responseFormat?: ResponseFormatType
+    responseSchema?: string
+    stopSequences?: string[]
+    seed?: number
+    topK?: number
+    logitBias?: PlaygroundLogitBias[]
+    reasoningEffort?: ReasoningEffort
+  }
+  tools: ChatTool[]
+}
+
+/**
+ * Builds the chat completions request body.
+ *
+ * @function
+ * @param {CodeSnippetOptions} options - Playground state
+ * @returns {Record<string, unknown>} Request body in the OpenAI format
+ */
+export const toChatRequestBody = ({
+  messages,
+  settings,
+  tools,
+}: CodeSnippetOptions) => {
+  const responseFormat = toResponseFormatParam(getResponseFormat(settings))
+  const logitBias = toLogitBiasParam(settings.logitBias)
+  return {
+    model: settings.model,
+    messages: toOpenAIMessages(messages),
+    temperature: settings.temperature,
+    top_p: settings.topP,
+    max_tokens: settings.maxTokens,
+    frequency_penalty: settings.frequencyPenalty,
+    presence_penalty: settings.presencePenalty,
+    seed: settings.seed,
+    top_k: settings.topK,
+    ...(settings.stopSequences?.length && { stop: settings.stopSequences }),
+    ...(logitBias && { logit_bias: logitBias }),
+    ...(settings.reasoningEffort &&
+      getModelCapabilities(settings.model).reasoningEffort && {
+        reasoning_effort: settings.reasoningEffort,
+      }),
+    ...(tools.length && {
+      tools: tools.map((tool) => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      })),
+    }),
+    ...(responseFormat && { response_format: responseFormat }),
+  }
+}
+
+/**
+ * Indents every line but the first.
+ */
+const indent = (text: string, spaces: number) =>
+  text.replace(/\n/g, '\n' + ' '.repeat(spaces))
+
+/**
+ * Formats a JSON value as a Python literal.
+ *
+ * @function
+ * @param {unknown} value - JSON value
+ * @param {number} [level] - Current indentation level
+ * @returns {string} Python source
+ */
+const toPythonLiteral = (value: unknown, level = 0): string => {
+  const pad = '    '.repeat(level + 1)
+  const end = '    '.repeat(level)
+  if (value === null || value === undefined) return 'None'
+  if (value === true) return 'True'
+  if (value === false) return 'False'
+  if (typeof value === 'number' || typeof value === 'string') {
+    return JSON.stringify(value)
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]'
+    const items = value.map((item) => pad + toPythonLiteral(item, level + 1))
+    return `[\n${items.join(',\n')},\n${end}]`
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+  if (entries.length === 0) return '{}'
+  const items = entries.map(
+    ([key, item]) =>
+      `${pad}${JSON.stringify(key)}: ${toPythonLiteral(item, level + 1)}`
+  )
+  return `{\n${items.join(',\n')},\n${end}}`
+}
+
+/**
+ * Generates a curl command.
+ */
+const toCurl = (options: CodeSnippetOptions) => {
+  const body = JSON.stringify(toChatRequestBody(options), null, 2)
+  return `curl ${options.baseUrl}/chat/completions \\
+  -H "Content-Type: application/json" \\
+  -H "Authorization: Bearer $${API_KEY_ENV}" \\
+  -d '${body.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * Generates a Python script using the openai SDK.
+ * Parameters the SDK has no argument for are passed in `extra_body`.
+ */
+const toPython = (options: CodeSnippetOptions) => {
+  const { top_k, ...body } = toChatRequestBody(options)
+  const args = Object.entries({
+    ...body,
+    extra_body: top_k === undefined ? undefined : { top_k },
+  })
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `    ${key}=${toPythonLiteral(value, 1)},`)
+    .join('\n')
+  return `import os
+
+from openai import OpenAI
+
+client = OpenAI(
+    api_key=os.environ["${API_KEY_ENV}"],
+    base_url="${options.baseUrl}",
+)
+
+response = client.chat.completions.create(
+${args}
+)
+
+print(response.choices[0].message)`
+}
+
+/**
+ * Generates a TypeScript script using the ai SDK, like `chat()` does.
+ * Structured output uses `generateObject`, since `generateText` has no response format.
+ */
+const toTypeScript = (options: CodeSnippetOptions) => {
+  const { settings, tools } = options
+  const format = getResponseFormat(settings)
+  const schema = format?.schema
+    ? parseJsonSchema(format.schema).schema
+    : undefined
+  const json = (value: unknown, spaces: number) =>
+    indent(JSON.stringify(value, null, 2), spaces)
+  const logitBias = toLogitBiasParam(settings.logitBias)
+
+  const args = [
+    `model: openai(${JSON.stringify(settings.model)}${
+      logitBias ? `, { logitBias: ${JSON.stringify(logitBias)} }` : ''
+    }),`,
+    `messages: ${json(toCoreMessages(options.messages), 0)},`,
+    ...Object.entries({
+      temperature: settings.temperature,
+      topP: settings.topP,
+      maxTokens: settings.maxTokens,
+      frequencyPenalty: settings.frequencyPenalty,
+      presencePenalty: settings.presencePenalty,
+      seed: settings.seed,
+      stopSequences: settings.stopSequences?.length
+        ? settings.stopSequences
+        : undefined,
+    })
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}: ${JSON.stringify(value)},`),
+  ]
+
+  if (format) {
+    args.push(
+      schema
+        ? `schema: jsonSchema(${json(schema, 0)}),`
+        : `output: 'no-schema',`
+    )
+  } else if (tools.length) {
+    const entries = tools.map(
+      (tool) => `  ${JSON.stringify(tool.name)}: tool({
+    description: ${JSON.stringify(tool.description)},
+    parameters: jsonSchema(${json(tool.parameters, 4)}),
+  }),`
+    )
+    args.push(`tools: {\n${entries.join('\n')}\n},`)
+  }
+
+  const imports = format
+    ? ['generateObject', ...(schema ? ['jsonSchema'] : [])]
+    : ['generateText', ...(tools.length ? ['jsonSchema', 'tool'] : [])]
+  const call = format
+    ? `const { object } = await generateObject({
+  ${indent(args.join('\n'), 2)}
+})
+
+console.log(object)`
+    : `const { text, toolCalls } = await generateText({
+  ${indent(args.join('\n'), 2)}
+})
+
+console.log(text, toolCalls)`
+
+  return `import { createOpenAI } from '@ai-sdk/openai'
+import { ${imports.join(', ')} } from 'ai'
+
+const openai = createOpenAI({
+  apiKey: process.env.${API_KEY_ENV},
+  baseURL: '${options.baseUrl}',
+})
+
+${call}`
+}
+
+/**
+ * Generates a JavaScript snippet using fetch.
+ */
+const toFetch = (options: CodeSnippetOptions) => {
+  const body = JSON.stringify(toChatRequestBody(options), null, 2)
+  return `const response = await fetch('${options.baseUrl}/chat/completions', {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    Authorization: \`Bearer \${process.env.${API_KEY_ENV}}\`,
+  },
+  body: JSON.stringify(${indent(body, 2)}),
+})
+
+const data = await response.json()
+console.log(data.choices[0].message)`
+}
+
+/**
+ * Generates the request of the playground state as code.
+ *
+ * @function
+ * @param {CodeLanguage} language - Language of the snippet
+ * @param {CodeSnippetOptions} options - Playground state
+ * @returns {string} Source code
+ */
+export const generateCodeSnippet = (
+  language: CodeLanguage,
+  options: CodeSnippetOptions
+) => {
+  switch (language) {
+    case 'curl':
+      return toCurl(options)
+    case 'python':
+      return toPython(options)
+    case 'typescript':
+      return toTypeScript(options)
+    case 'fetch':
+      return toFetch(options)
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Serialization of conversations for export.
+ * The JSON export can be imported again with `parseConversationFile`.
+ */
+
+import type { PlaygroundMessage } from '@/stores/playground'
+import { toOpenAIMessages } from './message-format'
+
+/**
+ * Formats offered by the export menu.
+ */
+export type ExportFormat = 'markdown' | 'json' | 'jsonl' | 'html' | 'pdf'
+
+/**
+ * Version of the JSON export format.
+ * @const
+ */
+export const CONVERSATION_EXPORT_VERSION = 1
+
+/**
+ * Content of a JSON export.
+ *
+ * @interface ConversationExport
+ * @property {number} version - Export format version
+ * @property {string} title - Conversation title
+ * @property {string} exportedAt - Export time as ISO string
+ * @property {Record<string, unknown>} settings - Generation settings, without the API key
+ * @property {PlaygroundMessage[]} messages - Messages with all their fields
+ */
+export type ConversationExport = {
+  version: number
+  title: string
+  exportedAt: string
+  settings: Record<string, unknown>
+  messages: PlaygroundMessage[]
+}
+
+/**
+ * Serializes a conversation as Markdown with a `## Role` heading per message.
+ *
+ * @function
+ * @param {PlaygroundMessage[]} messages - Messages to export
+ * @param {Function} getRoleLabel - Returns the heading label of a role
+ * @returns {string} Markdown text
+ */
+export const toMarkdown = (
+  messages: PlaygroundMessage[],
+  getRoleLabel: (role: PlaygroundMessage['role']) => string
+) =>
+  messages
+    .map((msg) => `## ${getRoleLabel(msg.role)}\n\n${msg.content}\n`)
+    .join('\n')
+
+/**
+ * Serializes a conversation as lossless JSON.
+ * The API key is removed from the settings.
+ *
+ * @function
+ * @param {string} title - Conversation title
+ * @param {PlaygroundMessage[]} messages - Messages to export
+ * @param {Record<string, unknown>} settings - Generation settings
+ * @returns {string} JSON text
+ */
+export const toConversationJson = (
+  title: string,
+  messages: PlaygroundMessage[],
+  settings: Record<string, unknown>
+) => {
+  const data: ConversationExport = {
+    version: CONVERSATION_EXPORT_VERSION,
+    title,
+    exportedAt: new Date().toISOString(),
+    settings: Object.fromEntries(
+      Object.entries(settings).filter(([key]) => key !== 'apiKey')
+    ),
+    messages,
+  }
+  return JSON.stringify(data, null, 2)
+}
+
+/**
+ * Serializes a conversation as one line of OpenAI fine-tuning JSONL.
+ *
+ * @function
+ * @param {PlaygroundMessage[]} messages - Messages to export
+ * @returns {string} JSONL text
+ */
+export const toFineTuneJsonl = (messages: PlaygroundMessage[]) =>
+  JSON.stringify({ messages: toOpenAIMessages(messages) }) + '\n'
+
+/**
+ * Escapes text for use in HTML.
+ */
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+/**
+ * Collects the CSS rules of the current page, so exported HTML looks the same.
+ * Style sheets from other origins cannot be read and are skipped.
+ *
+ * @function
+ * @returns {string} CSS text
+ */
+export const collectDocumentCss = () =>
+  Array.from(document.styleSheets)
+    .flatMap((sheet) => {
+      try {
+        return Array.from(sheet.cssRules).map((rule) => rule.cssText)
+      } catch {
+        return []
+      }
+    })
+    .join('\n')
+
+/**
+ * Wraps rendered conversation markup in a standalone HTML page.
+ *
+ * @function
+ * @param {Object} options - Page options
+ * @param {string} options.title - Page title
+ * @param {string} options.body - Rendered conversation markup
+ * @param {string} options.css - CSS to inline
+ * @param {string} options.lang - Page language
+ * @returns {string} HTML document
+ */
+export const toHtmlDocument = ({
+  title,
+  body,
+  css,
+  lang,
+}: {
+  title: string
+  body: string
+  css: string
+  lang: string
+}) => `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+${css}
+@media print { .break-inside-avoid { break-inside: avoid; } }
+</style>
+</head>
+<body class="bg-background text-foreground">
+${body}
+</body>
+</html>
+`
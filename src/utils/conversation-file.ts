@@ -0,0 +1,415 @@
+/**
+ * @fileoverview Reading conversation files.
+ * Supports the playground's own JSON export, its Markdown export with
+ * `## Role` headings, and OpenAI-style `{ messages: [...] }` request bodies.
+ */
+
+import type { PlaygroundMessage, PlaygroundToolCall } from '@/stores/playground'
+
+/**
+ * Message read from a file, without the IDs and timestamps assigned on import.
+ */
+export type ImportedMessage = Omit<
+  PlaygroundMessage,
+  'id' | 'timestamp' | 'conversationId' | 'parentId' | 'activeAt'
+>
+
+/**
+ * A conversation read from a file.
+ *
+ * @interface ImportedConversation
+ * @property {string} title - Conversation title, the file name if the file has none
+ * @property {ImportedMessage[]} messages - Messages in conversation order
+ */
+export type ImportedConversation = {
+  title: string
+  messages: ImportedMessage[]
+}
+
+/**
+ * Message roles keyed by lower-cased heading label or API role name.
+ */
+export type RoleLabels = Record<string, PlaygroundMessage['role']>
+
+/**
+ * Role names of the OpenAI API and their playground equivalents.
+ * @const
+ */
+const API_ROLES: RoleLabels = {
+  system: 'system',
+  developer: 'system',
+  user: 'user',
+  assistant: 'assistant',
+  tool: 'tool',
+  function: 'tool',
+}
+
+/**
+ * URL schemes accepted for attached files, shared conversations render them.
+ * @const
+ */
+const FILE_URL_PATTERN = /^(https?:|data:)/i
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+/**
+ * Checks that a file URL is a web or data URL.
+ *
+ * @function
+ * @param {unknown} url - URL read from a file
+ * @returns {boolean} Whether the URL may be kept
+ */
+export const isAllowedFileUrl = (url: unknown): url is string =>
+  typeof url === 'string' && FILE_URL_PATTERN.test(url.trim())
+
+/**
+ * Reads the attached files of the JSON export.
+ * Files without a name or with a URL that is not a web or data URL are dropped.
+ */
+const readFiles = (value: unknown) => {
+  if (!Array.isArray(value)) return undefined
+
+  const files: NonNullable<PlaygroundMessage['files']> = []
+  for (const file of value) {
+    if (
+      !isObject(file) ||
+      !isAllowedFileUrl(file.url) ||
+      typeof file.name !== 'string'
+    ) {
+      continue
+    }
+    files.push({
+      url: file.url,
+      type: file.type === 'image' ? 'image' : 'file',
+      name: file.name,
+      size: typeof file.size === 'number' ? file.size : 0,
+      ...(typeof file.mimeType === 'string' && { mimeType: file.mimeType }),
+      ...(typeof file.text === 'string' && { text: file.text }),
+      ...(typeof file.pages === 'number' && { pages: file.pages }),
+    })
+  }
+  return files.length ? files : undefined
+}
+
+/**
+ * Reads a token and its log probability.
+ */
+const readTokenLogprob = (value: unknown) =>
+  isObject(value) && typeof value.token === 'string' && isNumber(value.logprob)
+    ? [{ token: value.token, logprob: value.logprob }]
+    : []
+
+/**
+ * Reads the token probabilities of the JSON export.
+ * Tokens without a text or a probability are dropped.
+ */
+const readLogprobs = (value: unknown) => {
+  if (!Array.isArray(value)) return undefined
+
+  const logprobs: NonNullable<PlaygroundMessage['logprobs']> = value.flatMap(
+    (item) =>
+      readTokenLogprob(item).map((token) => ({
+        ...token,
+        topLogprobs: Array.isArray(item.topLogprobs)
+          ? item.topLogprobs.flatMap(readTokenLogprob)
+          : [],
+      }))
+  )
+  return logprobs.length ? logprobs : undefined
+}
+
+/**
+ * Reads the response format of the JSON export.
+ */
+const readResponseFormat = (
+  value: unknown
+): PlaygroundMessage['responseFormat'] => {
+  if (!isObject(value)) return undefined
+  if (value.type !== 'json_object' && value.type !== 'json_schema') {
+    return undefined
+  }
+  return {
+    type: value.type,
+    ...(typeof value.schema === 'string' && { schema: value.schema }),
+  }
+}
+
+/**
+ * Reads the token usage of the JSON export.
+ */
+const readUsage = (value: unknown): PlaygroundMessage['usage'] =>
+  isObject(value) &&
+  isNumber(value.promptTokens) &&
+  isNumber(value.completionTokens)
+    ? {
+        promptTokens: value.promptTokens,
+        completionTokens: value.completionTokens,
+        ...(isNumber(value.reasoningTokens) && {
+          reasoningTokens: value.reasoningTokens,
+        }),
+      }
+    : undefined
+
+/**
+ * Reads the latency metrics of the JSON export.
+ */
+const readMetrics = (value: unknown): PlaygroundMessage['metrics'] =>
+  isObject(value) && isNumber(value.duration)
+    ? {
+        duration: value.duration,
+        ...(isNumber(value.firstTokenTime) && {
+          firstTokenTime: value.firstTokenTime,
+        }),
+        ...(isNumber(value.tokensPerSecond) && {
+          tokensPerSecond: value.tokensPerSecond,
+        }),
+      }
+    : undefined
+
+/**
+ * Reads the optional fields of a message of the JSON export.
+ * Values of the wrong type are dropped, shared conversations render them.
+ */
+const readMessageFields = (
+  value: Record<string, unknown>
+): Partial<ImportedMessage> => {
+  const logprobs = readLogprobs(value.logprobs)
+  const responseFormat = readResponseFormat(value.responseFormat)
+  const usage = readUsage(value.usage)
+  const metrics = readMetrics(value.metrics)
+  return {
+    ...(typeof value.reasoning === 'string' && { reasoning: value.reasoning }),
+    ...(typeof value.toolName === 'string' && { toolName: value.toolName }),
+    ...(typeof value.model === 'string' && { model: value.model }),
+    ...(typeof value.truncated === 'boolean' && {
+      truncated: value.truncated,
+    }),
+    ...(logprobs && { logprobs }),
+    ...(responseFormat && { responseFormat }),
+    ...(usage && { usage }),
+    ...(metrics && { metrics }),
+  }
+}
+
+/**
+ * Reads OpenAI-style content, which is a string or an array of parts.
+ * Text parts are joined, image parts become image files.
+ */
+const readContent = (content: unknown) => {
+  if (typeof content === 'string') return { content }
+  if (!Array.isArray(content)) return { content: '' }
+
+  const texts: string[] = []
+  const files: NonNullable<PlaygroundMessage['files']> = []
+  for (const part of content) {
+    if (typeof part === 'string') {
+      texts.push(part)
+    } else if (!isObject(part)) {
+      continue
+    } else if (part.type === 'text') {
+      texts.push(String(part.text ?? ''))
+    } else if (part.type === 'image_url') {
+      const url = isObject(part.image_url) ? part.image_url.url : part.image_url
+      if (isAllowedFileUrl(url)) {
+        files.push({
+          url,
+          type: 'image',
+          name: `image-${files.length + 1}`,
+          size: 0,
+        })
+      }
+    }
+  }
+  return { content: texts.join('\n'), files: files.length ? files : undefined }
+}
+
+/**
+ * Reads a tool call of the playground format.
+ */
+const readToolCall = (call: unknown): PlaygroundToolCall[] =>
+  isObject(call) &&
+  typeof call.toolCallId === 'string' &&
+  typeof call.toolName === 'string'
+    ? [
+        {
+          toolCallId: call.toolCallId,
+          toolName: call.toolName,
+          args: call.args,
+        },
+      ]
+    : []
+
+/**
+ * Reads a tool call of the OpenAI format, whose arguments are JSON text.
+ */
+const readApiToolCall = (call: unknown): PlaygroundToolCall[] => {
+  if (!isObject(call)) return []
+
+  const fn = isObject(call.function) ? call.function : {}
+  let args: unknown = fn.arguments ?? {}
+  if (typeof args === 'string') {
+    try {
+      args = JSON.parse(args)
+    } catch {
+      // Keep arguments that are not valid JSON as text
+    }
+  }
+  return [
+    {
+      toolCallId: String(call.id ?? ''),
+      toolName: String(fn.name ?? ''),
+      args,
+    },
+  ]
+}
+
+/**
+ * Reads tool calls in either the playground or the OpenAI format.
+ */
+const readToolCalls = (message: Record<string, unknown>) => {
+  if (Array.isArray(message.toolCalls)) {
+    return message.toolCalls.flatMap(readToolCall)
+  }
+  if (!Array.isArray(message.tool_calls)) return undefined
+
+  return message.tool_calls.flatMap(readApiToolCall)
+}
+
+/**
+ * Converts a message of a JSON file to a playground message.
+ *
+ * @function
+ * @param {unknown} value - Message object in the playground or OpenAI format
+ * @param {number} index - Position of the message, used in error messages
+ * @returns {ImportedMessage} Playground message
+ * @throws {Error} If the message has no known role
+ */
+const readJsonMessage = (value: unknown, index: number): ImportedMessage => {
+  if (!isObject(value)) {
+    throw new Error(`Message ${index + 1} is not an object`)
+  }
+  const role = API_ROLES[String(value.role).toLowerCase()]
+  if (!role) {
+    throw new Error(`Message ${index + 1} has an unknown role "${value.role}"`)
+  }
+
+  const { content, files } = readContent(value.content)
+  const message: ImportedMessage = {
+    role,
+    content,
+    ...readMessageFields(value),
+  }
+  const attachedFiles = files ?? readFiles(value.files)
+  if (attachedFiles) message.files = attachedFiles
+
+  const toolCalls = readToolCalls(value)
+  if (toolCalls?.length) message.toolCalls = toolCalls
+
+  const toolCallId = value.toolCallId ?? value.tool_call_id
+  if (toolCallId) message.toolCallId = String(toolCallId)
+  if (role === 'tool' && !message.toolName && value.name) {
+    message.toolName = String(value.name)
+  }
+  return message
+}
+
+/**
+ * Parses a JSON file: an object with a `messages` array, as written by the
+ * JSON export or sent to the OpenAI API, or a bare array of messages.
+ *
+ * @function
+ * @param {string} text - JSON text
+ * @returns {{title?: string, messages: ImportedMessage[]}} Parsed messages and title, if any
+ * @throws {Error} If the file is not valid JSON or has no messages array
+ */
+export const parseConversationJson = (text: string) => {
+  const data: unknown = JSON.parse(text)
+  const messages = Array.isArray(data)
+    ? data
+    : isObject(data)
+      ? data.messages
+      : undefined
+  if (!Array.isArray(messages)) {
+    throw new Error('The file has no "messages" array')
+  }
+
+  const title =
+    isObject(data) && typeof data.title === 'string' ? data.title : undefined
+  return { title, messages: messages.map(readJsonMessage) }
+}
+
+/**
+ * Parses a Markdown export, where every message starts with a `## Role` heading.
+ * Headings that are not a known role are kept as message content.
+ *
+ * @function
+ * @param {string} text - Markdown text
+ * @param {RoleLabels} roleLabels - Roles by lower-cased heading label, API role names are always accepted
+ * @returns {ImportedMessage[]} Parsed messages
+ *
+ * @example
+ * ```typescript
+ * parseConversationMarkdown('## User\n\nHi\n\n## Assistant\n\nHello!\n', {})
+ * // returns [{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello!' }]
+ * ```
+ */
+export const parseConversationMarkdown = (
+  text: string,
+  roleLabels: RoleLabels
+) => {
+  const labels = { ...API_ROLES, ...roleLabels }
+  const messages: ImportedMessage[] = []
+  let lines: string[] | undefined
+
+  const endMessage = () => {
+    if (lines) {
+      messages[messages.length - 1].content = lines.join('\n').trim()
+    }
+  }
+
+  for (const line of text.split(/\r?\n/)) {
+    const role = line.match(/^##\s+(.+?)\s*$/)?.[1]
+    if (role && labels[role.toLowerCase()]) {
+      endMessage()
+      messages.push({ role: labels[role.toLowerCase()], content: '' })
+      lines = []
+    } else {
+      lines?.push(line)
+    }
+  }
+  endMessage()
+  return messages
+}
+
+/**
+ * Parses a conversation file, choosing the format by file extension.
+ *
+ * @function
+ * @param {string} text - File content
+ * @param {string} fileName - File name, also used as the fallback title
+ * @param {RoleLabels} roleLabels - Roles by lower-cased Markdown heading label
+ * @returns {ImportedConversation} Parsed conversation
+ * @throws {Error} If the file cannot be parsed or contains no messages
+ */
+export const parseConversationFile = (
+  text: string,
+  fileName: string,
+  roleLabels: RoleLabels
+): ImportedConversation => {
+  const fallbackTitle = fileName.replace(/\.[^.]+$/, '')
+  const { title, messages } = /\.json$/i.test(fileName)
+    ? parseConversationJson(text)
+    : {
+        title: undefined,
+        messages: parseConversationMarkdown(text, roleLabels),
+      }
+
+  if (messages.length === 0) {
+    throw new Error('The file contains no messages')
+  }
+  return { title: title || fallbackTitle, messages }
+}
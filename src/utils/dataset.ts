@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Parsing and export helpers for batch run datasets.
+ * Supports CSV files with a header row and JSONL files with one object per line.
+ */
+
+/**
+ * A parsed dataset.
+ *
+ * @interface Dataset
+ * @property {string[]} columns - Column names, in file order
+ * @property {Record<string, string>[]} rows - Rows keyed by column name
+ */
+export type Dataset = {
+  columns: string[]
+  rows: Record<string, string>[]
+}
+
+/**
+ * Splits CSV text into records of fields.
+ * Handles quoted fields with escaped quotes, commas and line breaks.
+ *
+ * @function
+ * @param {string} text - CSV text
+ * @returns {string[][]} Records, empty lines are skipped
+ */
+const parseCsvRecords = (text: string) => {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const endRecord = () => {
+    record.push(field)
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record)
+    }
+    record = []
+    field = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRecord()
+    } else {
+      field += char
+    }
+  }
+  if (field || record.length) {
+    endRecord()
+  }
+  return records
+}
+
+/**
+ * Parses a CSV file whose first record holds the column names.
+ *
+ * @function
+ * @param {string} text - CSV text
+ * @returns {Dataset} Parsed dataset
+ * @throws {Error} If the file has no header row
+ */
+export const parseCsv = (text: string): Dataset => {
+  const [header, ...records] = parseCsvRecords(text.replace(/^﻿/, ''))
+  if (!header) {
+    throw new Error('The CSV file is empty')
+  }
+
+  const columns = header.map((column) => column.trim())
+  const rows = records.map((record) =>
+    Object.fromEntries(columns.map((column, i) => [column, record[i] ?? '']))
+  )
+  return { columns, rows }
+}
+
+/**
+ * Parses a JSONL file with one JSON object per line.
+ * Nested values are kept as JSON text.
+ *
+ * @function
+ * @param {string} text - JSONL text
+ * @returns {Dataset} Parsed dataset
+ * @throws {Error} If a line is not a JSON object
+ */
+export const parseJsonl = (text: string): Dataset => {
+  const columns = new Set<string>()
+  const rows = text
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), index }))
+    .filter(({ line }) => line)
+    .map(({ line, index }) => {
+      let value: unknown
+      try {
+        value = JSON.parse(line)
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON`)
+      }
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`Line ${index + 1} is not a JSON object`)
+      }
+
+      return Object.fromEntries(
+        Object.entries(value).map(([key, v]) => {
+          columns.add(key)
+          return [key, typeof v === 'string' ? v : JSON.stringify(v)]
+        })
+      )
+    })
+  return { columns: Array.from(columns), rows }
+}
+
+/**
+ * Parses a dataset file, choosing the format by file extension.
+ *
+ * @function
+ * @param {string} text - File content
+ * @param {string} fileName - File name
+ * @returns {Dataset} Parsed dataset
+ */
+export const parseDataset = (text: string, fileName: string): Dataset =>
+  /\.jsonl?$/i.test(fileName) ? parseJsonl(text) : parseCsv(text)
+
+/**
+ * Escapes a CSV field when it contains separators, quotes or line breaks.
+ */
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+/**
+ * Serializes rows as CSV with a header row.
+ *
+ * @function
+ * @param {string[]} columns - Column names
+ * @param {Record<string, string | number | undefined>[]} rows - Rows keyed by column name
+ * @returns {string} CSV text
+ */
+export const toCsv = (
+  columns: string[],
+  rows: Record<string, string | number | undefined>[]
+) =>
+  [columns, ...rows.map((row) => columns.map((c) => String(row[c] ?? '')))]
+    .map((record) => record.map(escapeCsvField).join(','))
+    .join('\n')
@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Assertions of prompt evaluation suites.
+ * Checks a model answer against the expectations of a test case; the
+ * LLM-as-judge rubric is graded by a model through a prompt built here.
+ */
+
+import type { PlaygroundMessage } from '@/stores/playground'
+import { validateOutput } from './json-schema'
+
+/**
+ * Expectation on the answer of a test case.
+ * `contains` matches text, `regex` a pattern written plain or as `/pattern/flags`,
+ * `jsonSchema` validates the answer as JSON, `maxLength` limits its characters
+ * and `judge` lets a model grade it against a rubric.
+ */
+export type EvalAssertion =
+  | { id: string; type: 'contains'; value: string }
+  | { id: string; type: 'regex'; pattern: string }
+  | { id: string; type: 'jsonSchema'; schema: string }
+  | { id: string; type: 'maxLength'; max: number }
+  | { id: string; type: 'judge'; rubric: string }
+
+/**
+ * Kinds of assertions.
+ */
+export type EvalAssertionType = EvalAssertion['type']
+
+/**
+ * Assertion types, in display order.
+ * @const
+ */
+export const EVAL_ASSERTION_TYPES: EvalAssertionType[] = [
+  'contains',
+  'regex',
+  'jsonSchema',
+  'maxLength',
+  'judge',
+]
+
+/**
+ * Outcome of one assertion.
+ *
+ * @interface EvalAssertionResult
+ * @property {string} assertionId - ID of the assertion
+ * @property {EvalAssertionType} type - Kind of assertion
+ * @property {boolean} passed - Whether the answer met the expectation
+ * @property {string} [detail] - Why it failed, or the reasoning of the judge
+ */
+export type EvalAssertionResult = {
+  assertionId: string
+  type: EvalAssertionType
+  passed: boolean
+  detail?: string
+}
+
+/**
+ * Returns a new assertion of a type with empty values.
+ *
+ * @function
+ * @param {string} id - ID of the assertion
+ * @param {EvalAssertionType} type - Kind of assertion
+ * @returns {EvalAssertion} New assertion
+ */
+export const createAssertion = (
+  id: string,
+  type: EvalAssertionType
+): EvalAssertion => {
+  switch (type) {
+    case 'contains':
+      return { id, type, value: '' }
+    case 'regex':
+      return { id, type, pattern: '' }
+    case 'jsonSchema':
+      return { id, type, schema: '' }
+    case 'maxLength':
+      return { id, type, max: 1000 }
+    case 'judge':
+      return { id, type, rubric: '' }
+  }
+}
+
+/**
+ * Parses a pattern written plain or as `/pattern/flags`.
+ */
+const toRegExp = (pattern: string) => {
+  const literal = pattern.match(/^\/(.*)\/([dgimsuy]*)$/s)
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern)
+}
+
+/**
+ * Checks an answer against an assertion that needs no model.
+ * Judge assertions are graded with `buildJudgeMessages` and `parseJudgeVerdict`.
+ *
+ * @function
+ * @param {EvalAssertion} assertion - Assertion to check
+ * @param {string} output - Answer of the model
+ * @returns {EvalAssertionResult} Outcome of the assertion
+ *
+ * @example
+ * ```typescript
+ * checkAssertion({ id: '1', type: 'regex', pattern: '/^yes/i' }, 'Yes.')
+ * // returns { assertionId: '1', type: 'regex', passed: true }
+ * ```
+ */
+export const checkAssertion = (
+  assertion: Exclude<EvalAssertion, { type: 'judge' }>,
+  output: string
+): EvalAssertionResult => {
+  const result = (passed: boolean, detail?: string): EvalAssertionResult => ({
+    assertionId: assertion.id,
+    type: assertion.type,
+    passed,
+    ...(detail && { detail }),
+  })
+
+  switch (assertion.type) {
+    case 'contains':
+      return result(output.includes(assertion.value))
+    case 'regex':
+      try {
+        return result(toRegExp(assertion.pattern).test(output))
+      } catch (error) {
+        return result(false, (error as Error).message)
+      }
+    case 'jsonSchema': {
+      const { valid, errors } = validateOutput(output, {
+        type: 'json_schema',
+        schema: assertion.schema,
+      })
+      return result(valid, errors.join('; '))
+    }
+    case 'maxLength':
+      return output.length <= assertion.max
+        ? result(true)
+        : result(false, `${output.length} > ${assertion.max}`)
+  }
+}
+
+/**
+ * Builds the prompt asking a model to grade an answer against a rubric.
+ * The judge sees the conversation, so the rubric can refer to the question.
+ *
+ * @function
+ * @param {string} rubric - What a good answer does
+ * @param {PlaygroundMessage[]} messages - Conversation of the test case
+ * @param {string} output - Answer to grade
+ * @returns {PlaygroundMessage[]} Messages for the judge model
+ */
+export const buildJudgeMessages = (
+  rubric: string,
+  messages: PlaygroundMessage[],
+  output: string
+): PlaygroundMessage[] => {
+  const transcript = messages
+    .map((msg) => `[${msg.role}]\n${msg.content}`)
+    .join('\n\n')
+  return [
+    {
+      id: 'judge-system',
+      role: 'system',
+      content:
+        'You grade the answer of an AI assistant against a rubric. ' +
+        'Reply with a JSON object only: {"pass": true or false, "reason": "one sentence"}.',
+    },
+    {
+      id: 'judge-user',
+      role: 'user',
+      content: `<conversation>\n${transcript}\n</conversation>\n\n<answer>\n${output}\n</answer>\n\n<rubric>\n${rubric}\n</rubric>`,
+    },
+  ]
+}
+
+/**
+ * Reads the verdict of a judge model.
+ * The first JSON object in the reply is used, code fences and text around it are ignored.
+ *
+ * @function
+ * @param {string} text - Reply of the judge
+ * @returns {{ passed: boolean, reason: string }} Verdict, failed if the reply has none
+ */
+export const parseJudgeVerdict = (text: string) => {
+  const json = text.match(/\{[\s\S]*\}/)?.[0]
+  try {
+    const verdict = JSON.parse(json ?? '')
+    return {
+      passed: verdict.pass === true,
+      reason: typeof verdict.reason === 'string' ? verdict.reason : '',
+    }
+  } catch {
+    return { passed: false, reason: text.trim() }
+  }
+}
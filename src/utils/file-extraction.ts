@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Client-side text extraction of attached documents.
+ * PDFs are read with pdf.js, plain text, Markdown, CSV and source files as
+ * UTF-8. The text is sent to the model in place of the file.
+ */
+
+/**
+ * Maximum characters kept from a document, longer text is cut off.
+ * @const
+ */
+export const MAX_FILE_TEXT_LENGTH = 200_000
+
+/**
+ * Extensions of files read as text, next to `text/*` MIME types.
+ * @const
+ */
+const TEXT_EXTENSIONS = [
+  'txt',
+  'md',
+  'markdown',
+  'csv',
+  'tsv',
+  'json',
+  'jsonl',
+  'xml',
+  'yaml',
+  'yml',
+  'toml',
+  'ini',
+  'log',
+  'html',
+  'css',
+  'js',
+  'jsx',
+  'ts',
+  'tsx',
+  'py',
+  'java',
+  'kt',
+  'swift',
+  'c',
+  'h',
+  'cpp',
+  'hpp',
+  'cs',
+  'go',
+  'rs',
+  'rb',
+  'php',
+  'sql',
+  'sh',
+]
+
+/**
+ * Value of the `accept` attribute for documents.
+ * @const
+ */
+export const DOCUMENT_ACCEPT = [
+  '.pdf',
+  ...TEXT_EXTENSIONS.map((ext) => `.${ext}`),
+].join(',')
+
+/**
+ * Value of the `accept` attribute for images and documents.
+ * @const
+ */
+export const ATTACHMENT_ACCEPT = `image/*,${DOCUMENT_ACCEPT}`
+
+/**
+ * Text extracted from a document.
+ *
+ * @interface ExtractedFile
+ * @property {string} text - Text content, empty if none could be read
+ * @property {number} [pages] - Number of pages, for PDFs
+ */
+export type ExtractedFile = {
+  text: string
+  pages?: number
+}
+
+const getExtension = (name: string) =>
+  name.includes('.') ? name.split('.').pop()!.toLowerCase() : ''
+
+/**
+ * Checks whether a file is a PDF.
+ *
+ * @function
+ * @param {Object} file - File name and MIME type
+ * @returns {boolean} True for PDFs
+ */
+export const isPdfFile = ({ name, type }: { name: string; type?: string }) =>
+  type === 'application/pdf' || getExtension(name) === 'pdf'
+
+/**
+ * Checks whether a file can be read as text.
+ *
+ * @function
+ * @param {File} file - Attached file
+ * @returns {boolean} True for text, Markdown, CSV and source files
+ */
+export const isTextFile = (file: File) =>
+  file.type.startsWith('text/') ||
+  file.type === 'application/json' ||
+  TEXT_EXTENSIONS.includes(getExtension(file.name))
+
+/**
+ * Reads the text of every page of a PDF.
+ * pdf.js is loaded on first use, its worker parses the document off the main thread.
+ */
+const extractPdfText = async (file: File): Promise<ExtractedFile> => {
+  const pdfjs = await import('pdfjs-dist')
+  // Bundled as a worker entry, the worker file cannot be minified as a plain asset
+  pdfjs.GlobalWorkerOptions.workerPort ??= new Worker(
+    new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url),
+    { type: 'module' }
+  )
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() })
+    .promise
+  const pages: string[] = []
+  for (let number = 1; number <= pdf.numPages; number++) {
+    const page = await pdf.getPage(number)
+    const { items } = await page.getTextContent()
+    pages.push(
+      items
+        .map((item) =>
+          'str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''
+        )
+        .join('')
+        .trim()
+    )
+  }
+  await pdf.destroy()
+  return { text: pages.join('\n\n'), pages: pdf.numPages }
+}
+
+/**
+ * Extracts the text of a document.
+ * Files that are neither PDFs nor text get no text and are referenced by URL.
+ *
+ * @async
+ * @function
+ * @param {File} file - Attached file
+ * @returns {Promise<ExtractedFile | null>} Extracted text, null for unsupported files
+ * @throws {Error} If the PDF cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * const extracted = await extractFileText(file)
+ * // returns { text: '...', pages: 3 } for a PDF of three pages
+ * ```
+ */
+export const extractFileText = async (
+  file: File
+): Promise<ExtractedFile | null> => {
+  let extracted: ExtractedFile
+  if (isPdfFile(file)) {
+    extracted = await extractPdfText(file)
+  } else if (isTextFile(file)) {
+    extracted = { text: await file.text() }
+  } else {
+    return null
+  }
+  return {
+    ...extracted,
+    text: extracted.text.slice(0, MAX_FILE_TEXT_LENGTH),
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Formatting helpers for metrics shown in the playground.
+ */
+
+/**
+ * Formats a duration in milliseconds for display.
+ * Durations below one second are shown in milliseconds, longer ones in seconds.
+ *
+ * @function
+ * @param {number} ms - Duration in milliseconds
+ * @returns {string} Human readable duration
+ *
+ * @example
+ * ```typescript
+ * formatDuration(320) // returns '320 ms'
+ * formatDuration(4210) // returns '4.2 s'
+ * ```
+ */
+export const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${Math.round(ms)} ms`
+  return `${(ms / 1000).toFixed(1)} s`
+}
+
+/**
+ * Formats a cost in USD for display.
+ * Small amounts keep four decimals so single requests stay visible.
+ *
+ * @function
+ * @param {number} cost - Cost in USD
+ * @returns {string} Human readable cost
+ *
+ * @example
+ * ```typescript
+ * formatCost(0.00042) // returns '$0.0004'
+ * formatCost(12.5) // returns '$12.50'
+ * ```
+ */
+export const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`
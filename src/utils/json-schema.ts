@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Helpers for structured output.
+ * Builds the response format sent with chat requests and validates
+ * model answers against the requested JSON Schema.
+ */
+
+import type {
+  PlaygroundResponseFormat,
+  ResponseFormatType,
+} from '@/stores/playground'
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv'
+
+/**
+ * Shared validator instance.
+ * Strict mode is off so schemas written for other validators still compile.
+ */
+const ajv = new Ajv({ allErrors: true, strict: false })
+
+/**
+ * Compiled validators keyed by schema text, so each schema is compiled once.
+ * Only filled in the browser, the server never compiles schemas.
+ */
+const validators = new Map<string, ValidateFunction>()
+
+/**
+ * Result of validating a model answer.
+ *
+ * @interface OutputValidation
+ * @property {boolean} valid - Whether the answer matches the requested format
+ * @property {string[]} errors - Human readable validation errors
+ */
+export type OutputValidation = {
+  valid: boolean
+  errors: string[]
+}
+
+/**
+ * Parses a JSON Schema entered as text, without compiling it.
+ *
+ * @function
+ * @param {string} text - JSON Schema as text
+ * @returns {{ schema?: Record<string, unknown>, error?: string }} Parsed schema, or an error
+ */
+const readJsonSchema = (
+  text: string
+): { schema?: Record<string, unknown>; error?: string } => {
+  let schema: unknown
+  try {
+    schema = JSON.parse(text)
+  } catch (error) {
+    return { error: (error as Error).message }
+  }
+
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return { error: 'The schema must be a JSON object' }
+  }
+  return { schema: schema as Record<string, unknown> }
+}
+
+/**
+ * Parses and compiles a JSON Schema entered as text.
+ *
+ * @function
+ * @param {string} text - JSON Schema as text
+ * @returns {{ schema?: Record<string, unknown>, validate?: ValidateFunction, error?: string }} Parsed schema and its validator, or an error
+ */
+export const parseJsonSchema = (
+  text: string
+): {
+  schema?: Record<string, unknown>
+  validate?: ValidateFunction
+  error?: string
+} => {
+  const cached = validators.get(text)
+  if (cached) {
+    return {
+      schema: cached.schema as Record<string, unknown>,
+      validate: cached,
+    }
+  }
+
+  const { schema, error } = readJsonSchema(text)
+  if (!schema) return { error }
+
+  try {
+    const validate = ajv.compile(schema)
+    validators.set(text, validate)
+    return { schema, validate }
+  } catch (error) {
+    return { error: (error as Error).message }
+  }
+}
+
+/**
+ * Gets the response format of a request from the playground settings.
+ *
+ * @function
+ * @param {Object} settings - Playground settings
+ * @returns {PlaygroundResponseFormat | undefined} Response format, or undefined for plain text
+ */
+export const getResponseFormat = (settings: {
+  responseFormat?: ResponseFormatType
+  responseSchema?: string
+}): PlaygroundResponseFormat | undefined => {
+  if (settings.responseFormat === 'json_object') {
+    return { type: 'json_object' }
+  }
+  if (settings.responseFormat === 'json_schema') {
+    return { type: 'json_schema', schema: settings.responseSchema || '' }
+  }
+  return undefined
+}
+
+/**
+ * Converts a response format into the `response_format` request parameter
+ * of OpenAI-compatible APIs. Runs on the server, so the schema is only parsed.
+ *
+ * @function
+ * @param {PlaygroundResponseFormat} [format] - Requested response format
+ * @returns {Record<string, unknown> | undefined} Request parameter, or undefined if none is needed
+ */
+export const toResponseFormatParam = (
+  format?: PlaygroundResponseFormat
+): Record<string, unknown> | undefined => {
+  if (!format) return undefined
+  if (format.type === 'json_object') return { type: 'json_object' }
+
+  const { schema } = readJsonSchema(format.schema || '')
+  if (!schema) return { type: 'json_object' }
+  return {
+    type: 'json_schema',
+    json_schema: { name: 'response', schema },
+  }
+}
+
+/**
+ * Formats an Ajv error with the path of the invalid value.
+ */
+const formatError = (error: ErrorObject) =>
+  `${error.instancePath || '/'} ${error.message ?? 'is invalid'}`
+
+/**
+ * Validates a model answer against the requested response format.
+ * Markdown code fences around the JSON are ignored.
+ *
+ * @function
+ * @param {string} content - Model answer
+ * @param {PlaygroundResponseFormat} format - Requested response format
+ * @returns {OutputValidation} Validation result
+ *
+ * @example
+ * ```typescript
+ * validateOutput('{"name": 1}', {
+ *   type: 'json_schema',
+ *   schema: '{"type":"object","properties":{"name":{"type":"string"}}}',
+ * })
+ * // returns { valid: false, errors: ['/name must be string'] }
+ * ```
+ */
+export const validateOutput = (
+  content: string,
+  format: PlaygroundResponseFormat
+): OutputValidation => {
+  const text = content
+    .trim()
+    .replace(/^```(?:json)?\s*\n?/, '')
+    .replace(/\n?```$/, '')
+
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    return { valid: false, errors: [(error as Error).message] }
+  }
+
+  if (format.type === 'json_object') {
+    return data && typeof data === 'object' && !Array.isArray(data)
+      ? { valid: true, errors: [] }
+      : { valid: false, errors: ['The answer must be a JSON object'] }
+  }
+
+  const { validate, error } = parseJsonSchema(format.schema || '')
+  if (!validate) {
+    return { valid: false, errors: [error!] }
+  }
+
+  if (validate(data)) {
+    return { valid: true, errors: [] }
+  }
+  return { valid: false, errors: (validate.errors || []).map(formatError) }
+}
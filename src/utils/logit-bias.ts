@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Conversion of the logit bias editor entries to the API format.
+ */
+
+import type { PlaygroundLogitBias } from '@/stores/playground'
+
+/**
+ * Largest absolute bias accepted by the API.
+ * @const
+ */
+export const MAX_LOGIT_BIAS = 100
+
+/**
+ * Checks whether an entry has a valid token ID.
+ *
+ * @function
+ * @param {PlaygroundLogitBias} entry - Editor entry
+ * @returns {boolean} Whether the token is a non-negative integer
+ */
+export const isValidLogitBiasToken = ({ token }: PlaygroundLogitBias) =>
+  /^\d+$/.test(token.trim())
+
+/**
+ * Converts editor entries to the `logit_bias` map of the API.
+ * Entries without a valid token ID are skipped, biases are clamped.
+ *
+ * @function
+ * @param {PlaygroundLogitBias[]} [logitBias] - Editor entries
+ * @returns {Record<number, number> | undefined} Bias by token ID, undefined if there is none
+ *
+ * @example
+ * ```typescript
+ * toLogitBiasParam([{ token: '50256', bias: -100 }]) // returns { 50256: -100 }
+ * ```
+ */
+export const toLogitBiasParam = (logitBias?: PlaygroundLogitBias[]) => {
+  const entries = (logitBias ?? [])
+    .filter(isValidLogitBiasToken)
+    .map(({ token, bias }): [number, number] => [
+      Number(token.trim()),
+      Math.max(-MAX_LOGIT_BIAS, Math.min(MAX_LOGIT_BIAS, bias)),
+    ])
+  return entries.length ? Object.fromEntries(entries) : undefined
+}
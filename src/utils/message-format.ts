@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Conversion of playground messages to request formats.
+ * `toCoreMessages` is what `chat()` sends through the `ai` SDK, `toOpenAIMessages`
+ * is the equivalent OpenAI chat completions wire format.
+ */
+
+import type { PlaygroundMessage } from '@/stores/playground'
+import { isPdfFile } from './file-extraction'
+import { parseToolResult } from './tools'
+
+/**
+ * File attached to a message.
+ */
+type MessageFile = NonNullable<PlaygroundMessage['files']>[number]
+
+/**
+ * Formats a document as a text part: its extracted text wrapped in a tag
+ * with its name, or a reference by URL if no text was extracted.
+ *
+ * @function
+ * @param {MessageFile} file - Attached document
+ * @returns {string} Text sent to the model
+ *
+ * @example
+ * ```typescript
+ * formatFileText({ name: 'notes.md', text: '# Notes', ... })
+ * // returns '<file name="notes.md">\n# Notes\n</file>'
+ * ```
+ */
+export const formatFileText = (file: MessageFile) =>
+  file.text === undefined
+    ? `${file.name}: ${file.url}`
+    : `<file name="${file.name}">\n${file.text}\n</file>`
+
+/**
+ * Options of the core message conversion.
+ *
+ * @interface CoreMessageOptions
+ * @property {boolean} [nativePdf] - Send PDFs as file parts instead of their text
+ */
+export type CoreMessageOptions = {
+  nativePdf?: boolean
+}
+
+/**
+ * Converts playground messages to `ai` SDK core messages.
+ * Images are sent as image parts next to the text, documents as their text or,
+ * for models that read PDFs, as file parts. Tool calls and results become
+ * tool-call and tool-result parts.
+ *
+ * @function
+ * @param {PlaygroundMessage[]} messages - Messages to convert
+ * @param {CoreMessageOptions} [options] - Conversion options
+ * @returns {Object[]} Messages for `streamText`
+ */
+export const toCoreMessages = (
+  messages: PlaygroundMessage[],
+  { nativePdf = false }: CoreMessageOptions = {}
+) =>
+  messages.map((msg) => {
+    if (msg.role === 'tool') {
+      return {
+        role: msg.role,
+        content: [
+          {
+            type: 'tool-result' as const,
+            toolCallId: msg.toolCallId,
+            toolName: msg.toolName,
+            result: parseToolResult(msg.content),
+          },
+        ],
+      }
+    }
+
+    if (msg.toolCalls?.length) {
+      return {
+        role: msg.role,
+        content: [
+          ...(msg.content
+            ? [{ type: 'text' as const, text: msg.content }]
+            : []),
+          ...msg.toolCalls.map((call) => ({
+            type: 'tool-call' as const,
+            ...call,
+          })),
+        ],
+      }
+    }
+
+    if (!msg.files || !msg.files.length) {
+      return {
+        role: msg.role,
+        content: msg.content,
+      }
+    }
+
+    const parts = []
+    if (msg.content) {
+      parts.push({
+        type: 'text' as const,
+        text: msg.content,
+      })
+    }
+
+    if (msg.files?.length) {
+      parts.push(
+        ...msg.files.map((file) =>
+          file.type === 'image'
+            ? { type: 'image' as const, image: file.url }
+            : nativePdf && isPdfFile({ name: file.name, type: file.mimeType })
+              ? {
+                  type: 'file' as const,
+                  data: file.url,
+                  mimeType: 'application/pdf',
+                }
+              : { type: 'text' as const, text: formatFileText(file) }
+        )
+      )
+    }
+
+    return {
+      role: msg.role,
+      content: parts,
+    }
+  })
+
+/**
+ * Content part of an OpenAI chat message.
+ */
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+
+/**
+ * Message in the OpenAI chat completions format.
+ *
+ * @interface OpenAIMessage
+ * @property {'system' | 'user' | 'assistant' | 'tool'} role - Message role
+ * @property {string | OpenAIContentPart[] | null} content - Text or content parts
+ * @property {Object[]} [tool_calls] - Function calls requested by an assistant message
+ * @property {string} [tool_call_id] - ID of the call a tool message answers
+ */
+export type OpenAIMessage = {
+  role: PlaygroundMessage['role']
+  content: string | OpenAIContentPart[] | null
+  tool_calls?: {
+    id: string
+    type: 'function'
+    function: { name: string; arguments: string }
+  }[]
+  tool_call_id?: string
+}
+
+/**
+ * Converts playground messages to OpenAI chat messages, as the `ai` SDK sends
+ * the result of `toCoreMessages`. Images become `image_url` parts, documents
+ * text parts with their extracted text.
+ *
+ * @function
+ * @param {PlaygroundMessage[]} messages - Messages to convert
+ * @returns {OpenAIMessage[]} Messages in the OpenAI format
+ *
+ * @example
+ * ```typescript
+ * toOpenAIMessages([{ id: '1', role: 'user', content: 'Hi' }])
+ * // returns [{ role: 'user', content: 'Hi' }]
+ * ```
+ */
+export const toOpenAIMessages = (
+  messages: PlaygroundMessage[]
+): OpenAIMessage[] =>
+  messages.map((msg) => {
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        content: msg.content,
+        tool_call_id: msg.toolCallId,
+      }
+    }
+
+    if (msg.toolCalls?.length) {
+      return {
+        role: msg.role,
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map((call) => ({
+          id: call.toolCallId,
+          type: 'function',
+          function: {
+            name: call.toolName,
+            arguments: JSON.stringify(call.args ?? {}),
+          },
+        })),
+      }
+    }
+
+    if (!msg.files?.length) {
+      return { role: msg.role, content: msg.content }
+    }
+
+    return {
+      role: msg.role,
+      content: [
+        ...(msg.content ? [{ type: 'text' as const, text: msg.content }] : []),
+        ...msg.files.map(
+          (file): OpenAIContentPart =>
+            file.type === 'image'
+              ? { type: 'image_url', image_url: { url: file.url } }
+              : { type: 'text', text: formatFileText(file) }
+        ),
+      ],
+    }
+  })
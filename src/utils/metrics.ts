@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Latency metrics for generated messages.
+ */
+
+import type { PlaygroundMessageMetrics } from '@/stores/playground'
+
+/**
+ * Timestamps recorded while streaming a response.
+ *
+ * @interface StreamTimings
+ * @property {number} startedAt - Timestamp when the request was sent
+ * @property {number} [firstTokenAt] - Timestamp of the first text delta
+ * @property {number} finishedAt - Timestamp when the stream ended
+ */
+export type StreamTimings = {
+  startedAt: number
+  firstTokenAt?: number
+  finishedAt: number
+}
+
+/**
+ * Calculates the latency metrics of a streamed response.
+ * Throughput is measured from the first token so it is not skewed by the
+ * time the provider takes to start answering.
+ *
+ * @function
+ * @param {StreamTimings} timings - Timestamps of the stream
+ * @param {number} [completionTokens] - Completion tokens reported by the provider
+ * @returns {PlaygroundMessageMetrics} Latency metrics
+ *
+ * @example
+ * ```typescript
+ * calculateMetrics({ startedAt: 0, firstTokenAt: 400, finishedAt: 2400 }, 100)
+ * // returns { firstTokenTime: 400, duration: 2400, tokensPerSecond: 50 }
+ * ```
+ */
+export const calculateMetrics = (
+  { startedAt, firstTokenAt, finishedAt }: StreamTimings,
+  completionTokens?: number
+): PlaygroundMessageMetrics => {
+  const generationTime = finishedAt - (firstTokenAt ?? startedAt)
+  return {
+    firstTokenTime:
+      firstTokenAt !== undefined ? firstTokenAt - startedAt : undefined,
+    duration: finishedAt - startedAt,
+    tokensPerSecond:
+      completionTokens && generationTime > 0
+        ? (completionTokens / generationTime) * 1000
+        : undefined,
+  }
+}
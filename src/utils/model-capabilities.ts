@@ -0,0 +1,420 @@
+/**
+ * @fileoverview Capability registry of known models.
+ * Limits, supported features and list prices by model family, merged with the
+ * metadata returned by `/v1/models` where the API provides it.
+ */
+
+import type { ModelPrice, PlaygroundMessage } from '@/stores/playground'
+
+/**
+ * What a model supports.
+ *
+ * @interface ModelCapabilities
+ * @property {number} [contextWindow] - Maximum prompt and completion tokens
+ * @property {number} [maxOutputTokens] - Maximum completion tokens
+ * @property {boolean} vision - Whether image inputs are accepted
+ * @property {boolean} tools - Whether tool calling is supported
+ * @property {boolean} logprobs - Whether token log probabilities are returned
+ * @property {boolean} [reasoningEffort] - Whether the reasoning effort can be set
+ * @property {boolean} [pdfInput] - Whether PDFs are read natively through the provider's own API
+ * @property {ModelPrice} [price] - List price per million tokens, in USD
+ * @property {Record<string, string>} [headers] - Extra request headers the model needs
+ */
+export type ModelCapabilities = {
+  contextWindow?: number
+  maxOutputTokens?: number
+  vision: boolean
+  tools: boolean
+  logprobs: boolean
+  reasoningEffort?: boolean
+  pdfInput?: boolean
+  price?: ModelPrice
+  headers?: Record<string, string>
+}
+
+/**
+ * Capabilities assumed for unknown models: nothing is restricted.
+ * @const
+ */
+const DEFAULT_CAPABILITIES: ModelCapabilities = {
+  vision: true,
+  tools: true,
+  logprobs: true,
+}
+
+/**
+ * Suffixes of dated or pinned releases of a model, like `-2024-08-06`,
+ * `-20241022`, `-0613`, `-002` or `-latest`.
+ * @const
+ */
+const RELEASE_SUFFIX_PATTERN = /^(-(\d{4}-\d{2}-\d{2}|\d{3,8}|latest))?$/
+
+/**
+ * Known models, matched by ID or by ID with a release suffix, so variants
+ * that merely share a prefix, like `gpt-4-32k` or `o1-pro`, are not matched.
+ * @const
+ */
+const MODEL_REGISTRY: [string, ModelCapabilities][] = [
+  [
+    'gpt-4o-mini',
+    {
+      contextWindow: 128_000,
+      maxOutputTokens: 16_384,
+      vision: true,
+      tools: true,
+      logprobs: true,
+      price: { input: 0.15, output: 0.6 },
+    },
+  ],
+  [
+    'gpt-4o',
+    {
+      contextWindow: 128_000,
+      maxOutputTokens: 16_384,
+      vision: true,
+      tools: true,
+      logprobs: true,
+      price: { input: 2.5, output: 10 },
+    },
+  ],
+  [
+    'chatgpt-4o',
+    {
+      contextWindow: 128_000,
+      maxOutputTokens: 16_384,
+      vision: true,
+      tools: false,
+      logprobs: true,
+      price: { input: 5, output: 15 },
+    },
+  ],
+  [
+    'gpt-4-turbo',
+    {
+      contextWindow: 128_000,
+      maxOutputTokens: 4_096,
+      vision: true,
+      tools: true,
+      logprobs: true,
+      price: { input: 10, output: 30 },
+    },
+  ],
+  [
+    'gpt-4',
+    {
+      contextWindow: 8_192,
+      maxOutputTokens: 8_192,
+      vision: false,
+      tools: true,
+      logprobs: true,
+      price: { input: 30, output: 60 },
+    },
+  ],
+  [
+    'gpt-3.5-turbo',
+    {
+      contextWindow: 16_385,
+      maxOutputTokens: 4_096,
+      vision: false,
+      tools: true,
+      logprobs: true,
+      price: { input: 0.5, output: 1.5 },
+    },
+  ],
+  [
+    'o3-mini',
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 100_000,
+      vision: false,
+      tools: true,
+      logprobs: false,
+      reasoningEffort: true,
+      price: { input: 1.1, output: 4.4 },
+    },
+  ],
+  [
+    'o1-mini',
+    {
+      contextWindow: 128_000,
+      maxOutputTokens: 65_536,
+      vision: false,
+      tools: false,
+      logprobs: false,
+      price: { input: 3, output: 12 },
+    },
+  ],
+  [
+    'o1-preview',
+    {
+      contextWindow: 128_000,
+      maxOutputTokens: 32_768,
+      vision: false,
+      tools: false,
+      logprobs: false,
+      price: { input: 15, output: 60 },
+    },
+  ],
+  [
+    'o1',
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 100_000,
+      vision: true,
+      tools: true,
+      logprobs: false,
+      reasoningEffort: true,
+      price: { input: 15, output: 60 },
+    },
+  ],
+  [
+    'claude-3-5-haiku',
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 8_192,
+      vision: false,
+      tools: true,
+      logprobs: false,
+      price: { input: 0.8, output: 4 },
+    },
+  ],
+  [
+    'claude-3-5-sonnet',
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 8_192,
+      vision: true,
+      tools: true,
+      logprobs: false,
+      pdfInput: true,
+      price: { input: 3, output: 15 },
+      // 8192 output tokens were a beta feature of the first 3.5 Sonnet release
+      headers: { 'anthropic-beta': 'max-tokens-3-5-sonnet-2024-07-15' },
+    },
+  ],
+  [
+    'claude-3-opus',
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 4_096,
+      vision: true,
+      tools: true,
+      logprobs: false,
+      price: { input: 15, output: 75 },
+    },
+  ],
+  [
+    'claude-3-haiku',
+    {
+      contextWindow: 200_000,
+      maxOutputTokens: 4_096,
+      vision: true,
+      tools: true,
+      logprobs: false,
+      price: { input: 0.25, output: 1.25 },
+    },
+  ],
+  [
+    'gemini-1.5-pro',
+    {
+      contextWindow: 2_097_152,
+      maxOutputTokens: 8_192,
+      vision: true,
+      tools: true,
+      logprobs: false,
+      price: { input: 1.25, output: 5 },
+    },
+  ],
+  [
+    'gemini-1.5-flash',
+    {
+      contextWindow: 1_048_576,
+      maxOutputTokens: 8_192,
+      vision: true,
+      tools: true,
+      logprobs: false,
+      price: { input: 0.075, output: 0.3 },
+    },
+  ],
+  [
+    'deepseek-reasoner',
+    {
+      contextWindow: 64_000,
+      maxOutputTokens: 8_192,
+      vision: false,
+      tools: false,
+      logprobs: false,
+      price: { input: 0.55, output: 2.19 },
+    },
+  ],
+  [
+    'deepseek-chat',
+    {
+      contextWindow: 64_000,
+      maxOutputTokens: 8_192,
+      vision: false,
+      tools: true,
+      logprobs: true,
+      price: { input: 0.14, output: 0.28 },
+    },
+  ],
+]
+
+/**
+ * Reads the capability fields some OpenAI-compatible APIs add to `/v1/models`.
+ *
+ * @function
+ * @param {Record<string, unknown>} model - Model object returned by the API
+ * @returns {Partial<ModelCapabilities>} Capabilities found in the object
+ */
+export const readApiCapabilities = (
+  model: Record<string, unknown>
+): Partial<ModelCapabilities> => {
+  const number = (...keys: string[]) => {
+    const value = keys.map((key) => model[key]).find(Number.isFinite)
+    return value as number | undefined
+  }
+  const boolean = (...keys: string[]) => {
+    const value = keys
+      .map((key) => model[key])
+      .find((v) => typeof v === 'boolean')
+    return value as boolean | undefined
+  }
+
+  const capabilities: Partial<ModelCapabilities> = {
+    contextWindow: number('context_window', 'context_length'),
+    maxOutputTokens: number('max_output_tokens', 'max_completion_tokens'),
+    vision: boolean('supports_vision'),
+    tools: boolean('supports_tools', 'supports_function_calling'),
+    logprobs: boolean('supports_logprobs'),
+  }
+  return Object.fromEntries(
+    Object.entries(capabilities).filter(([, value]) => value !== undefined)
+  )
+}
+
+/**
+ * Looks up the capabilities of a model.
+ * Metadata from the API takes precedence over the registry.
+ *
+ * @function
+ * @param {string} modelId - Model ID
+ * @param {Partial<ModelCapabilities>} [apiCapabilities] - Capabilities reported by the API
+ * @returns {ModelCapabilities} Capabilities, unrestricted for unknown models
+ *
+ * @example
+ * ```typescript
+ * getModelCapabilities('gpt-4o-mini-2024-07-18').maxOutputTokens // returns 16384
+ * ```
+ */
+export const getModelCapabilities = (
+  modelId: string,
+  apiCapabilities?: Partial<ModelCapabilities>
+): ModelCapabilities => {
+  const id = modelId.toLowerCase()
+  const known = MODEL_REGISTRY.find(
+    ([name]) =>
+      id.startsWith(name) && RELEASE_SUFFIX_PATTERN.test(id.slice(name.length))
+  )?.[1]
+  return { ...DEFAULT_CAPABILITIES, ...known, ...apiCapabilities }
+}
+
+/**
+ * Resolves the price of a model: the price table first, then the list price.
+ *
+ * @function
+ * @param {string} modelId - Model ID
+ * @param {Record<string, ModelPrice>} prices - Price table keyed by model
+ * @returns {ModelPrice | undefined} Price per million tokens, if known
+ */
+export const getModelPrice = (
+  modelId: string,
+  prices: Record<string, ModelPrice>
+) => prices[modelId] ?? getModelCapabilities(modelId).price
+
+/**
+ * Reasons a request may fail or be cut short with a model.
+ */
+export type CapabilityWarning =
+  | { type: 'vision' }
+  | { type: 'tools' }
+  | { type: 'maxTokens'; max: number }
+  | { type: 'contextWindow'; tokens: number; max: number }
+
+/**
+ * Roughly estimates the number of tokens of a text, at four characters per token.
+ *
+ * @function
+ * @param {string} text - Text to estimate
+ * @returns {number} Estimated tokens
+ */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+/**
+ * Roughly estimates the number of prompt tokens of messages, counting their
+ * content and the extracted text of their files.
+ *
+ * @function
+ * @param {PlaygroundMessage[]} messages - Messages to estimate
+ * @returns {number} Estimated tokens
+ */
+export const estimateMessageTokens = (messages: PlaygroundMessage[]) =>
+  messages.reduce(
+    (sum, msg) =>
+      sum +
+      estimateTokens(msg.content) +
+      (msg.files ?? []).reduce(
+        (fileSum, file) => fileSum + estimateTokens(file.text ?? ''),
+        0
+      ),
+    0
+  )
+
+/**
+ * Checks a request against the capabilities of the model.
+ *
+ * @function
+ * @param {ModelCapabilities} capabilities - Capabilities of the model
+ * @param {Object} request - Request to check
+ * @param {PlaygroundMessage[]} request.messages - Messages to send
+ * @param {number} [request.maxTokens] - Requested maximum completion tokens
+ * @param {number} request.toolCount - Number of enabled tools
+ * @returns {CapabilityWarning[]} Problems found, empty if none
+ */
+export const checkCapabilities = (
+  capabilities: ModelCapabilities,
+  {
+    messages,
+    maxTokens,
+    toolCount,
+  }: { messages: PlaygroundMessage[]; maxTokens?: number; toolCount: number }
+) => {
+  const warnings: CapabilityWarning[] = []
+  if (
+    !capabilities.vision &&
+    messages.some((msg) => msg.files?.some((file) => file.type === 'image'))
+  ) {
+    warnings.push({ type: 'vision' })
+  }
+  if (!capabilities.tools && toolCount > 0) {
+    warnings.push({ type: 'tools' })
+  }
+  if (
+    capabilities.maxOutputTokens &&
+    maxTokens &&
+    maxTokens > capabilities.maxOutputTokens
+  ) {
+    warnings.push({ type: 'maxTokens', max: capabilities.maxOutputTokens })
+  }
+  if (capabilities.contextWindow) {
+    const tokens = estimateMessageTokens(messages)
+    if (tokens + (maxTokens ?? 0) > capabilities.contextWindow) {
+      warnings.push({
+        type: 'contextWindow',
+        tokens,
+        max: capabilities.contextWindow,
+      })
+    }
+  }
+  return warnings
+}
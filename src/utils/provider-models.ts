@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Server-side access to user-configured providers: creating their
+ * language models and listing the models they serve.
+ */
+
+import { createAnthropic } from '@ai-sdk/anthropic'
+import { createAzure } from '@ai-sdk/azure'
+import { createOpenAI } from '@ai-sdk/openai'
+import { LanguageModelV1 } from '@ai-sdk/provider'
+import ky from 'ky'
+import { ChatProvider } from './providers'
+
+/**
+ * Version header required by the Anthropic API.
+ * @const
+ */
+const ANTHROPIC_VERSION = '2023-06-01'
+
+/**
+ * Time allowed for listing the models of a provider, in milliseconds.
+ * @const
+ */
+const LIST_TIMEOUT = 10_000
+
+/**
+ * Options of a provider model.
+ *
+ * @interface ProviderModelOptions
+ * @property {Function} [fetch] - Fetch implementation used for the requests
+ * @property {boolean | number} [logprobs] - Log probabilities to return, where supported
+ * @property {Record<number, number>} [logitBias] - Token biases, where supported
+ */
+export type ProviderModelOptions = {
+  fetch?: typeof fetch
+  logprobs?: boolean | number
+  logitBias?: Record<number, number>
+}
+
+/**
+ * Creates a language model of a provider.
+ * Anthropic has no log probabilities or logit bias, these options are ignored for it.
+ *
+ * @function
+ * @param {ChatProvider} provider - Provider connection
+ * @param {string} modelId - Model ID, the deployment name for Azure
+ * @param {ProviderModelOptions} options - Model options
+ * @returns {LanguageModelV1} Language model for `streamText`
+ */
+export const createProviderModel = (
+  { type, baseUrl, apiKey, apiVersion }: ChatProvider,
+  modelId: string,
+  { fetch, ...settings }: ProviderModelOptions
+): LanguageModelV1 => {
+  switch (type) {
+    case 'anthropic':
+      return createAnthropic({ apiKey, baseURL: baseUrl, fetch })(modelId)
+    case 'azure':
+      return createAzure({ apiKey, baseURL: baseUrl, apiVersion, fetch })(
+        modelId,
+        settings
+      )
+    case 'ollama':
+    case 'openai-compatible':
+      // Local servers usually need no key, but the SDK requires one
+      return createOpenAI({
+        apiKey: apiKey || 'none',
+        baseURL: baseUrl,
+        fetch,
+      })(modelId, settings)
+  }
+}
+
+/**
+ * Lists the models served by a provider.
+ * Azure deployments cannot be listed with an API key, they are added by hand.
+ *
+ * @async
+ * @function
+ * @param {ChatProvider} provider - Provider connection
+ * @returns {Promise<string[]>} Model IDs
+ * @throws {Error} If the request fails
+ */
+export const listProviderModels = async ({
+  type,
+  baseUrl,
+  apiKey,
+}: ChatProvider) => {
+  if (type === 'azure') return []
+
+  const headers: Record<string, string> =
+    type === 'anthropic'
+      ? { 'x-api-key': apiKey, 'anthropic-version': ANTHROPIC_VERSION }
+      : apiKey
+        ? { Authorization: `Bearer ${apiKey}` }
+        : {}
+  const { data } = await ky
+    .get(`${baseUrl}/models`, { headers, timeout: LIST_TIMEOUT })
+    .json<{ data: { id: string }[] }>()
+  return data.map((model) => model.id)
+}
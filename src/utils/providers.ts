@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Provider backends the playground can chat with.
+ * The 302.AI gateway is built in, other providers are configured by the user
+ * and sent with every request.
+ */
+
+import type { PlaygroundProvider } from '@/stores/playground'
+
+/**
+ * Kinds of provider backends.
+ * `openai-compatible` covers any server with the OpenAI API, like vLLM.
+ */
+export type ProviderType =
+  | 'openai-compatible'
+  | 'anthropic'
+  | 'ollama'
+  | 'azure'
+
+/**
+ * Provider types, in display order.
+ * @const
+ */
+export const PROVIDER_TYPES: ProviderType[] = [
+  'openai-compatible',
+  'anthropic',
+  'ollama',
+  'azure',
+]
+
+/**
+ * ID of the built-in 302.AI gateway provider.
+ * @const
+ */
+export const DEFAULT_PROVIDER_ID = '302ai'
+
+/**
+ * Base URL used when a provider has none, empty if it must be entered.
+ * @const
+ */
+export const DEFAULT_BASE_URLS: Record<ProviderType, string> = {
+  'openai-compatible': '',
+  anthropic: 'https://api.anthropic.com/v1',
+  ollama: 'http://localhost:11434/v1',
+  azure: '',
+}
+
+/**
+ * Connection of a user-configured provider, as sent to the server actions.
+ *
+ * @interface ChatProvider
+ * @property {ProviderType} type - Kind of backend
+ * @property {string} baseUrl - Base URL of the API
+ * @property {string} apiKey - API key of the provider, may be empty for local servers
+ * @property {string} [apiVersion] - API version, used by Azure
+ */
+export type ChatProvider = {
+  type: ProviderType
+  baseUrl: string
+  apiKey: string
+  apiVersion?: string
+}
+
+/**
+ * Returns the connection of a provider, with the default base URL filled in.
+ *
+ * @function
+ * @param {PlaygroundProvider} provider - Provider settings
+ * @returns {ChatProvider} Connection for the server actions
+ */
+export const toChatProvider = ({
+  type,
+  baseUrl,
+  apiKey,
+  apiVersion,
+}: PlaygroundProvider): ChatProvider => ({
+  type,
+  baseUrl: (baseUrl.trim() || DEFAULT_BASE_URLS[type]).replace(/\/+$/, ''),
+  apiKey: apiKey.trim(),
+  ...(apiVersion?.trim() && { apiVersion: apiVersion.trim() }),
+})
+
+/**
+ * Parses a list of model IDs separated by commas or line breaks.
+ *
+ * @function
+ * @param {string} text - Model IDs
+ * @returns {string[]} Unique, non-empty model IDs
+ *
+ * @example
+ * ```typescript
+ * parseModelList('llama3, qwen2.5\nllama3')
+ * // returns ['llama3', 'qwen2.5']
+ * ```
+ */
+export const parseModelList = (text: string) =>
+  Array.from(
+    new Set(
+      text
+        .split(/[,\n]/)
+        .map((item) => item.trim())
+        .filter(Boolean)
+    )
+  )
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Extraction of model reasoning from chat responses.
+ * Reasoning arrives either as a `reasoning_content` field of the streamed
+ * deltas, like DeepSeek sends it, or inside `<think>` tags of the text, like
+ * open reasoning models served by Ollama or vLLM write it.
+ */
+
+/**
+ * Reasoning effort accepted by models like o1 and o3-mini.
+ */
+export type ReasoningEffort = 'low' | 'medium' | 'high'
+
+/**
+ * Reasoning efforts, in display order.
+ * @const
+ */
+export const REASONING_EFFORTS: ReasoningEffort[] = ['low', 'medium', 'high']
+
+const THINK_OPEN = '<think>'
+const THINK_CLOSE = '</think>'
+
+/**
+ * Creates a transform that passes a chat completions event stream through
+ * unchanged while reporting the reasoning of every delta.
+ *
+ * @function
+ * @param {Function} onReasoning - Called with every piece of reasoning text
+ * @returns {TransformStream<Uint8Array, Uint8Array>} Pass-through transform
+ */
+export const createReasoningTap = (onReasoning: (text: string) => void) => {
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const readLine = (line: string) => {
+    if (!line.startsWith('data:')) return
+    const data = line.slice(5).trim()
+    if (!data || data === '[DONE]') return
+    try {
+      const delta = JSON.parse(data).choices?.[0]?.delta
+      const reasoning = delta?.reasoning_content ?? delta?.reasoning
+      if (typeof reasoning === 'string' && reasoning) onReasoning(reasoning)
+    } catch {
+      // Events that are not JSON are left to the SDK
+    }
+  }
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk)
+      buffer += decoder.decode(chunk, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+      lines.forEach(readLine)
+    },
+    flush() {
+      readLine(buffer)
+    },
+  })
+}
+
+/**
+ * Length of the end of a text that could be the start of a tag.
+ */
+const partialTagLength = (text: string, tag: string) => {
+  for (
+    let length = Math.min(tag.length - 1, text.length);
+    length > 0;
+    length--
+  ) {
+    if (text.endsWith(tag.slice(0, length))) return length
+  }
+  return 0
+}
+
+/**
+ * Creates a splitter that separates a leading `<think>` block from streamed text.
+ * Tags split across deltas are held back until they are complete. Once the
+ * answer has started, tags are left in the text.
+ *
+ * @function
+ * @returns {Object} Splitter
+ * @property {Function} push - Splits a text delta into text and reasoning
+ * @property {Function} flush - Returns the text held back at the end of the stream
+ *
+ * @example
+ * ```typescript
+ * const splitter = createThinkTagSplitter()
+ * splitter.push('<think>Hmm')  // returns { text: '', reasoning: 'Hmm' }
+ * splitter.push('</think>Hi')  // returns { text: 'Hi', reasoning: '' }
+ * ```
+ */
+export const createThinkTagSplitter = () => {
+  let thinking = false
+  let answering = false
+  let pending = ''
+
+  const push = (delta: string) => {
+    let input = pending + delta
+    let text = ''
+    let reasoning = ''
+    pending = ''
+
+    while (input) {
+      if (answering) {
+        text += input
+        break
+      }
+
+      const tag = thinking ? THINK_CLOSE : THINK_OPEN
+      const index = input.indexOf(tag)
+      if (index === -1) {
+        const held = partialTagLength(input, tag)
+        pending = input.slice(input.length - held)
+        const part = input.slice(0, input.length - held)
+        if (thinking) reasoning += part
+        else text += part
+        answering ||= !thinking && !!part.trim()
+        break
+      }
+
+      const part = input.slice(0, index)
+      if (thinking) {
+        reasoning += part
+      } else if (part.trim()) {
+        // Text before the tag means the answer has started
+        text += input
+        answering = true
+        break
+      } else {
+        text += part
+      }
+      input = input.slice(index + tag.length)
+      thinking = !thinking
+    }
+    return { text, reasoning }
+  }
+
+  const flush = () => {
+    const rest = pending
+    pending = ''
+    return thinking
+      ? { text: '', reasoning: rest }
+      : { text: rest, reasoning: '' }
+  }
+
+  return { push, flush }
+}
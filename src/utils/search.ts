@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Tokenization of message content for the full-text search index.
+ * A query matches where it starts at the beginning of a word, as the index only
+ * finds the words of a message by their prefix.
+ */
+
+/**
+ * Matches one Chinese or Japanese character, or a run of other letters and digits.
+ * Chinese and Japanese are written without spaces, so every character is a word.
+ * @const
+ */
+const WORD_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{N}_])+/gu
+
+/**
+ * Matches a Chinese or Japanese character, each of which is a word of its own.
+ * @const
+ */
+const CJK_CHAR_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u
+
+/**
+ * Checks whether a character continues a run of letters and digits.
+ */
+const isWordChar = (char: string | undefined) =>
+  !!char && /[\p{L}\p{N}_]/u.test(char) && !CJK_CHAR_PATTERN.test(char)
+
+/**
+ * Longest indexed word; longer words are indexed by their prefix.
+ * @const
+ */
+const MAX_WORD_LENGTH = 32
+
+/**
+ * Splits text into the distinct lower-cased words stored in the search index.
+ *
+ * @function
+ * @param {string} text - Text to split
+ * @returns {string[]} Distinct words
+ *
+ * @example
+ * ```typescript
+ * toSearchWords('Hello, 世界! hello') // returns ['hello', '世', '界']
+ * ```
+ */
+export const toSearchWords = (text: string) => {
+  const words = String(text ?? '')
+    .toLowerCase()
+    .match(WORD_PATTERN)
+  return Array.from(
+    new Set(words?.map((word) => word.slice(0, MAX_WORD_LENGTH)))
+  )
+}
+
+/**
+ * Returns the most selective word of a search query, the one used for the index
+ * lookup. Candidates are then checked against the whole query.
+ *
+ * @function
+ * @param {string} query - Search query
+ * @returns {string | undefined} Longest word of the query, if it has any
+ */
+export const getLookupWord = (query: string) =>
+  toSearchWords(query).reduce<string | undefined>(
+    (longest, word) =>
+      !longest || word.length > longest.length ? word : longest,
+    undefined
+  )
+
+/**
+ * Finds the first match of a query that starts at the beginning of a word.
+ * Queries that start with punctuation or a Chinese or Japanese character match
+ * anywhere.
+ *
+ * @function
+ * @param {string} text - Text to search
+ * @param {string} query - Search query, case-insensitive
+ * @returns {number} Index of the match, -1 if there is none
+ *
+ * @example
+ * ```typescript
+ * findWordStart('Sort an array', 'arr') // returns 8
+ * findWordStart('Sort an array', 'ray') // returns -1
+ * ```
+ */
+export const findWordStart = (text: string, query: string) => {
+  const haystack = String(text ?? '').toLowerCase()
+  const needle = query.toLowerCase()
+  for (
+    let index = haystack.indexOf(needle);
+    index !== -1;
+    index = haystack.indexOf(needle, index + 1)
+  ) {
+    if (!isWordChar(needle[0]) || !isWordChar(haystack[index - 1])) {
+      return index
+    }
+  }
+  return -1
+}
+
+/**
+ * Cuts an excerpt of text around the first match of a query.
+ *
+ * @function
+ * @param {string} text - Text to cut from
+ * @param {string} query - Search query
+ * @param {number} [radius] - Characters kept before and after the match
+ * @returns {string} Excerpt with ellipses where text was cut
+ */
+export const getExcerpt = (text: string, query: string, radius = 60) => {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  const index = query ? findWordStart(flat, query) : 0
+  const start = Math.max(0, index - radius)
+  const end = Math.min(flat.length, Math.max(index, 0) + query.length + radius)
+  return (
+    (start > 0 ? '…' : '') +
+    flat.slice(start, end) +
+    (end < flat.length ? '…' : '')
+  )
+}
@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Parameter sweeps: grids of numeric generation settings the same
+ * conversation is run over, one answer per combination.
+ */
+
+/**
+ * Numeric settings a sweep can vary.
+ */
+export type SweepParameter =
+  | 'temperature'
+  | 'topP'
+  | 'frequencyPenalty'
+  | 'presencePenalty'
+  | 'maxTokens'
+  | 'topK'
+  | 'seed'
+
+/**
+ * Range of every sweep parameter, in display order.
+ * @const
+ */
+export const SWEEP_PARAMETERS: Record<
+  SweepParameter,
+  { min: number; max: number; integer?: boolean }
+> = {
+  temperature: { min: 0, max: 2 },
+  topP: { min: 0, max: 1 },
+  frequencyPenalty: { min: -2, max: 2 },
+  presencePenalty: { min: -2, max: 2 },
+  maxTokens: { min: 1, max: 1_000_000, integer: true },
+  topK: { min: 1, max: 1000, integer: true },
+  seed: { min: 0, max: Number.MAX_SAFE_INTEGER, integer: true },
+}
+
+/**
+ * Maximum number of cells of a sweep, each cell is one request.
+ * @const
+ */
+export const SWEEP_CELL_LIMIT = 25
+
+/**
+ * Number of cells requested at the same time.
+ * @const
+ */
+export const SWEEP_CONCURRENCY = 4
+
+/**
+ * One axis of a sweep.
+ *
+ * @interface SweepAxis
+ * @property {SweepParameter} parameter - Setting varied along the axis
+ * @property {number[]} values - Values of the setting, in order
+ */
+export type SweepAxis = {
+  parameter: SweepParameter
+  values: number[]
+}
+
+/**
+ * Axes of a sweep. Without columns the sweep is a single column.
+ *
+ * @interface SweepConfig
+ * @property {SweepAxis} rows - Setting varied from row to row
+ * @property {SweepAxis | null} columns - Setting varied from column to column
+ */
+export type SweepConfig = {
+  rows: SweepAxis
+  columns: SweepAxis | null
+}
+
+/**
+ * One combination of a sweep.
+ *
+ * @interface SweepCell
+ * @property {string} key - Unique key of the cell, `row:column`
+ * @property {number} row - Row index
+ * @property {number} column - Column index, 0 without columns
+ * @property {Partial<Record<SweepParameter, number>>} settings - Settings overridden by the cell
+ */
+export type SweepCell = {
+  key: string
+  row: number
+  column: number
+  settings: Partial<Record<SweepParameter, number>>
+}
+
+const roundValue = (value: number, parameter: SweepParameter) => {
+  const { min, max, integer } = SWEEP_PARAMETERS[parameter]
+  const clamped = Math.min(max, Math.max(min, value))
+  // Steps like 0.1 accumulate floating point errors
+  return integer ? Math.round(clamped) : Number(clamped.toFixed(4))
+}
+
+/**
+ * Parses the values of a sweep axis.
+ * Accepts values separated by commas and ranges written `start:end:step`.
+ * Values are clamped to the range of the parameter, duplicates are dropped.
+ *
+ * @function
+ * @param {string} text - Values as entered
+ * @param {SweepParameter} parameter - Setting the values are for
+ * @returns {number[]} Values in the order entered
+ *
+ * @example
+ * ```typescript
+ * parseSweepValues('0:1:0.5, 1.5', 'temperature')
+ * // returns [0, 0.5, 1, 1.5]
+ * ```
+ */
+export const parseSweepValues = (text: string, parameter: SweepParameter) => {
+  const values: number[] = []
+  for (const item of text.split(',')) {
+    const [start, end, step] = item.split(':').map((part) => Number(part))
+    if (!item.trim() || Number.isNaN(start)) continue
+    if (item.includes(':') && step > 0 && end >= start) {
+      // Ranges are cut off at the cell limit
+      for (
+        let value = start;
+        value <= end + step / 1000 && values.length <= SWEEP_CELL_LIMIT;
+        value += step
+      ) {
+        values.push(roundValue(value, parameter))
+      }
+    } else {
+      values.push(roundValue(start, parameter))
+    }
+  }
+  return Array.from(new Set(values))
+}
+
+/**
+ * Formats the values of a sweep axis for editing.
+ *
+ * @function
+ * @param {number[]} values - Values of the axis
+ * @returns {string} Values separated by commas
+ */
+export const formatSweepValues = (values: number[]) => values.join(', ')
+
+/**
+ * Returns the cells of a sweep, row by row.
+ *
+ * @function
+ * @param {SweepConfig} config - Axes of the sweep
+ * @returns {SweepCell[]} One cell per combination of values
+ */
+export const getSweepCells = ({ rows, columns }: SweepConfig): SweepCell[] =>
+  rows.values.flatMap((rowValue, row) =>
+    (columns ? columns.values : [undefined]).map((columnValue, column) => ({
+      key: `${row}:${column}`,
+      row,
+      column,
+      settings: {
+        [rows.parameter]: rowValue,
+        ...(columns && { [columns.parameter]: columnValue }),
+      },
+    }))
+  )
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Helpers for `{{variable}}` placeholders in prompt templates.
+ */
+
+import type { PlaygroundTemplate } from '@/stores/playground'
+
+/**
+ * Pattern matching a `{{variable}}` placeholder, spaces inside the braces are allowed.
+ * @const
+ */
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g
+
+/**
+ * Lists the variables used in a set of texts, in order of first appearance.
+ *
+ * @function
+ * @param {string[]} texts - Texts to scan
+ * @returns {string[]} Unique variable names
+ */
+export const extractVariables = (texts: string[]) => {
+  const variables = new Set<string>()
+  for (const text of texts) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      variables.add(match[1])
+    }
+  }
+  return Array.from(variables)
+}
+
+/**
+ * Lists the variables used by a template, in order of first appearance.
+ *
+ * @function
+ * @param {PlaygroundTemplate} template - Template to scan
+ * @returns {string[]} Unique variable names
+ *
+ * @example
+ * ```typescript
+ * extractTemplateVariables({
+ *   systemMessage: 'You are a {{role}}.',
+ *   messages: [{ role: 'user', content: 'Translate {{text}} as a {{ role }}' }],
+ * })
+ * // returns ['role', 'text']
+ * ```
+ */
+export const extractTemplateVariables = (
+  template: Pick<PlaygroundTemplate, 'systemMessage' | 'messages'>
+) => {
+  return extractVariables([
+    template.systemMessage,
+    ...template.messages.map((msg) => msg.content),
+  ])
+}
+
+/**
+ * Replaces the `{{variable}}` placeholders of a text.
+ * Placeholders without a value are left unchanged.
+ *
+ * @function
+ * @param {string} text - Text containing placeholders
+ * @param {Record<string, string>} values - Values by variable name
+ * @returns {string} Text with the placeholders filled in
+ */
+export const fillTemplate = (text: string, values: Record<string, string>) =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    name in values ? values[name] : placeholder
+  )
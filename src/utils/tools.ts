@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Helpers for tool definitions used in function calling.
+ * Validates user-edited tool definitions and converts them for chat requests.
+ */
+
+import type { PlaygroundTool } from '@/stores/playground'
+
+/**
+ * Tool definition in the form sent to the chat server action.
+ *
+ * @interface ChatTool
+ * @property {string} name - Function name exposed to the model
+ * @property {string} description - Description exposed to the model
+ * @property {Record<string, unknown>} parameters - Parsed JSON Schema of the arguments
+ */
+export type ChatTool = {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+/**
+ * Pattern for function names accepted by OpenAI-compatible APIs.
+ * @const
+ */
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/
+
+/**
+ * Validates a tool name.
+ *
+ * @function
+ * @param {string} name - Tool name to validate
+ * @returns {boolean} True if the name can be sent to the model
+ */
+export const isValidToolName = (name: string) => TOOL_NAME_PATTERN.test(name)
+
+/**
+ * Parses the JSON Schema text of a tool's parameters.
+ * The schema must be a JSON object describing an object.
+ *
+ * @function
+ * @param {string} text - JSON Schema as text
+ * @returns {{ schema?: Record<string, unknown>, error?: string }} Parsed schema or a parse error
+ *
+ * @example
+ * ```typescript
+ * parseToolParameters('{"type":"object","properties":{}}') // returns { schema: {...} }
+ * parseToolParameters('[]') // returns { error: 'The schema must be an object with "type": "object"' }
+ * ```
+ */
+export const parseToolParameters = (
+  text: string
+): { schema?: Record<string, unknown>; error?: string } => {
+  let schema: unknown
+  try {
+    schema = JSON.parse(text)
+  } catch (error) {
+    return { error: (error as Error).message }
+  }
+
+  if (
+    !schema ||
+    typeof schema !== 'object' ||
+    Array.isArray(schema) ||
+    (schema as Record<string, unknown>).type !== 'object'
+  ) {
+    return { error: 'The schema must be an object with "type": "object"' }
+  }
+  return { schema: schema as Record<string, unknown> }
+}
+
+/**
+ * Converts tool definitions for a chat request.
+ * Disabled tools and tools with an invalid name or schema are left out.
+ *
+ * @function
+ * @param {PlaygroundTool[]} tools - Tool definitions edited by the user
+ * @returns {ChatTool[]} Tools to send with the request
+ */
+export const toChatTools = (tools: PlaygroundTool[]): ChatTool[] =>
+  tools.flatMap((tool) => {
+    if (!tool.enabled || !isValidToolName(tool.name)) return []
+    const { schema } = parseToolParameters(tool.parameters)
+    if (!schema) return []
+    return [
+      { name: tool.name, description: tool.description, parameters: schema },
+    ]
+  })
+
+/**
+ * Parses a tool result entered as text.
+ * JSON results are sent as structured data, anything else as a plain string.
+ *
+ * @function
+ * @param {string} text - Tool result text
+ * @returns {unknown} Parsed result
+ */
+export const parseToolResult = (text: string): unknown => {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Token usage and cost calculation for playground messages.
+ */
+
+import type { ChatUsage } from '@/actions/chat'
+import type { ModelPrice, PlaygroundMessage } from '@/stores/playground'
+import { getModelPrice } from './model-capabilities'
+
+/**
+ * Token usage summed over several messages.
+ *
+ * @interface UsageTotal
+ * @property {number} promptTokens - Total prompt tokens
+ * @property {number} completionTokens - Total completion tokens
+ * @property {number} cost - Total cost in USD of the messages with a known price
+ * @property {string[]} unpricedModels - Models without a price in the price table
+ */
+export type UsageTotal = {
+  promptTokens: number
+  completionTokens: number
+  cost: number
+  unpricedModels: string[]
+}
+
+/**
+ * Calculates the cost of a request.
+ *
+ * @function
+ * @param {ChatUsage} usage - Token usage of the request
+ * @param {ModelPrice} [price] - Price of the model, per million tokens
+ * @returns {number | undefined} Cost in USD, or undefined without a price
+ */
+export const calculateCost = (usage: ChatUsage, price?: ModelPrice) => {
+  if (!price) return undefined
+  return (
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) /
+    1_000_000
+  )
+}
+
+/**
+ * Sums the token usage and cost of messages.
+ * Token counts reported as NaN by some providers are ignored.
+ *
+ * @function
+ * @param {PlaygroundMessage[]} messages - Messages to sum
+ * @param {Record<string, ModelPrice>} prices - Price table keyed by model, list prices are used for other models
+ * @returns {UsageTotal} Summed usage
+ */
+export const sumUsage = (
+  messages: PlaygroundMessage[],
+  prices: Record<string, ModelPrice>
+): UsageTotal => {
+  const unpricedModels = new Set<string>()
+  const total = { promptTokens: 0, completionTokens: 0, cost: 0 }
+
+  for (const message of messages) {
+    if (!message.usage) continue
+    total.promptTokens += message.usage.promptTokens || 0
+    total.completionTokens += message.usage.completionTokens || 0
+
+    const cost = message.model
+      ? calculateCost(message.usage, getModelPrice(message.model, prices))
+      : undefined
+    if (cost === undefined) {
+      unpricedModels.add(message.model || '')
+    } else if (!Number.isNaN(cost)) {
+      total.cost += cost
+    }
+  }
+  return { ...total, unpricedModels: Array.from(unpricedModels) }
+}